@@ -0,0 +1,384 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  // Streamed calls answer with the plain mock's response as a single chunk.
+  const generateContentStream = async (params: unknown) => {
+    const response = await generateContent(params);
+    return (async function* () { yield response; })();
+  };
+  return { ...actual, GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream } })) };
+});
+
+import App from './App';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => { resolve = res; });
+  return { promise, resolve };
+};
+
+const inventoryResponse = {
+  text: JSON.stringify({
+    items: [
+      { name: 'Eggs', quantity: 6, unit: 'pieces', category: 'Dairy', confidence: 0.95, shelfLifeDays: 14 },
+      { name: 'spinach', quantity: 1, unit: 'bag', category: 'Produce', confidence: 0.4, shelfLifeDays: 2 },
+    ],
+  }),
+};
+
+const recipesResponse = {
+  text: JSON.stringify({
+    recipes: [{
+      name: 'Spinach Omelette',
+      difficulty: 'Easy',
+      prepTime: '15 minutes',
+      calories: 350,
+      ingredients: [{ name: 'eggs', quantity: '3' }, { name: 'spinach', quantity: '1 cup' }],
+      instructions: ['Whisk the eggs.', 'Cook with the spinach.'],
+    }],
+  }),
+};
+
+const imageResponse = { candidates: [{ content: { parts: [{ inlineData: { data: 'abc123' } }] } }] };
+
+beforeEach(() => {
+  vi.stubEnv('API_KEY', 'test-key');
+  localStorage.clear();
+  generateContent.mockReset();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllEnvs();
+});
+
+describe('App', () => {
+  it('moves from upload through analysis, review and generation to results', async () => {
+    const analysis = deferred<typeof inventoryResponse>();
+    const recipes = deferred<typeof recipesResponse>();
+    generateContent.mockImplementation(({ model, config }) => {
+      if (model === 'gemini-2.5-flash-image') return Promise.resolve(imageResponse);
+      return config.responseSchema.properties.items ? analysis.promise : recipes.promise;
+    });
+
+    render(<App />);
+    expect(screen.getByText("Unlock Your Fridge's Potential")).toBeTruthy();
+
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    expect(screen.getByText('Analyzing...')).toBeTruthy();
+
+    analysis.resolve(inventoryResponse);
+    expect(await screen.findByText('Review Your Ingredients')).toBeTruthy();
+    expect(screen.getByDisplayValue('eggs')).toBeTruthy();
+    expect(screen.getByText(/Not sure about this one/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Find Recipes'));
+    expect(await screen.findByText('Finding recipes...')).toBeTruthy();
+
+    recipes.resolve(recipesResponse);
+    expect(await screen.findByText('Spinach Omelette')).toBeTruthy();
+    expect(screen.queryByText('Finding recipes...')).toBeNull();
+    expect((await screen.findByAltText('Spinach Omelette')).getAttribute('src')).toBe('data:image/png;base64,abc123');
+  });
+
+  it('shows recipes before their photos and retries a failed photo on its own', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const image = deferred<typeof imageResponse>();
+    generateContent.mockImplementation(({ model, config }) => {
+      if (model === 'gemini-2.5-flash-image') return image.promise;
+      return Promise.resolve(config.responseSchema.properties.items ? inventoryResponse : recipesResponse);
+    });
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    fireEvent.click(await screen.findByText('Find Recipes'));
+
+    expect(await screen.findByText('Spinach Omelette')).toBeTruthy();
+    expect(screen.getByLabelText('Creating a photo of Spinach Omelette')).toBeTruthy();
+
+    image.resolve({ candidates: [] } as unknown as typeof imageResponse);
+    const retry = await screen.findByText('Photo failed · Retry');
+    generateContent.mockImplementation(() => Promise.resolve(imageResponse));
+    fireEvent.click(retry);
+    expect((await screen.findByAltText('Spinach Omelette')).getAttribute('src')).toBe('data:image/png;base64,abc123');
+  });
+
+  it('debounces filter changes, cancels superseded requests and only shows recipes for the active filters', async () => {
+    const requests: { prompt: string; signal: AbortSignal; response: ReturnType<typeof deferred<typeof recipesResponse>> }[] = [];
+    generateContent.mockImplementation(({ model, contents, config }) => {
+      if (model === 'gemini-2.5-flash-image') return Promise.resolve(imageResponse);
+      if (config.responseSchema.properties.items) return Promise.resolve(inventoryResponse);
+      const response = deferred<typeof recipesResponse>();
+      requests.push({ prompt: contents, signal: config.abortSignal, response });
+      return response.promise;
+    });
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    fireEvent.click(await screen.findByText('Find Recipes'));
+    await waitFor(() => expect(requests).toHaveLength(1));
+    requests[0].response.resolve(recipesResponse);
+    expect(await screen.findByText('Spinach Omelette')).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Vegan'));
+    fireEvent.click(screen.getByLabelText('Gluten Free'));
+    expect(screen.getByText('Updating recipes for your filters...')).toBeTruthy();
+    expect(screen.queryByText('Spinach Omelette')).toBeNull();
+    await waitFor(() => expect(requests).toHaveLength(2), { timeout: 2000 });
+    expect(requests[1].prompt).toContain('dietary restrictions: Vegan, Gluten-Free');
+
+    fireEvent.click(screen.getByLabelText('Keto'));
+    await waitFor(() => expect(requests).toHaveLength(3), { timeout: 2000 });
+    expect(requests[1].signal.aborted).toBe(true);
+
+    requests[1].response.resolve(recipesResponse);
+    requests[2].response.resolve({ text: recipesResponse.text.replace('Spinach Omelette', 'Keto Frittata') });
+    expect(await screen.findByText('Keto Frittata')).toBeTruthy();
+    expect(screen.queryByText('Spinach Omelette')).toBeNull();
+  });
+
+  it('asks for recipes within the sidebar constraints and hides the ones that break them', async () => {
+    const prompts: string[] = [];
+    generateContent.mockImplementation(({ model, contents, config }) => {
+      if (model === 'gemini-2.5-flash-image') return Promise.resolve(imageResponse);
+      if (config.responseSchema.properties.items) return Promise.resolve(inventoryResponse);
+      prompts.push(contents);
+      // The model doesn't always keep to the limits it was given.
+      return Promise.resolve(prompts.length === 1 ? recipesResponse : { text: recipesResponse.text.replace('15 minutes', '25 minutes') });
+    });
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    fireEvent.click(await screen.findByText('Find Recipes'));
+    expect(await screen.findByText('Spinach Omelette')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Max prep time'), { target: { value: '20' } });
+    fireEvent.click(screen.getByLabelText('Oven'));
+    fireEvent.change(screen.getByLabelText('Number of recipes'), { target: { value: '3' } });
+    await waitFor(() => expect(prompts).toHaveLength(2), { timeout: 2000 });
+    expect(prompts[1]).toContain('suggest 3 diverse recipes');
+    expect(prompts[1]).toContain('20 minutes or less');
+    expect(prompts[1]).toContain('The user has no oven');
+
+    expect(await screen.findByText('1 recipe is hidden because it takes longer or is harder than you asked for.')).toBeTruthy();
+    expect(screen.queryByText('Spinach Omelette')).toBeNull();
+    fireEvent.click(screen.getByText('Show anyway'));
+    expect(screen.getByText('Spinach Omelette')).toBeTruthy();
+    expect(screen.getByText('Takes 25 min, over your 20 min limit')).toBeTruthy();
+  });
+
+  it('applies a typed cuisine when the field is left, not on every keystroke', async () => {
+    const prompts: string[] = [];
+    generateContent.mockImplementation(({ model, contents, config }) => {
+      if (model === 'gemini-2.5-flash-image') return Promise.resolve(imageResponse);
+      if (config.responseSchema.properties.items) return Promise.resolve(inventoryResponse);
+      prompts.push(contents);
+      return Promise.resolve(recipesResponse);
+    });
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    fireEvent.click(await screen.findByText('Find Recipes'));
+    expect(await screen.findByText('Spinach Omelette')).toBeTruthy();
+
+    const cuisine = screen.getByLabelText('Cuisine');
+    fireEvent.change(cuisine, { target: { value: 'Th' } });
+    fireEvent.change(cuisine, { target: { value: 'Thai' } });
+    await new Promise(resolve => setTimeout(resolve, 700));
+    expect(prompts).toHaveLength(1);
+
+    fireEvent.blur(cuisine);
+    await waitFor(() => expect(prompts).toHaveLength(2), { timeout: 2000 });
+    expect(prompts[1]).toContain('Thai');
+  });
+
+  it('logs a cooked recipe and asks for something else next time', async () => {
+    const prompts: string[] = [];
+    generateContent.mockImplementation(({ model, contents, config }) => {
+      if (model === 'gemini-2.5-flash-image') return Promise.resolve(imageResponse);
+      if (config.responseSchema.properties.items) return Promise.resolve(inventoryResponse);
+      prompts.push(contents);
+      return Promise.resolve(recipesResponse);
+    });
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+    fireEvent.click(await screen.findByText('Find Recipes'));
+    fireEvent.click(await screen.findByText('Spinach Omelette'));
+
+    fireEvent.click(screen.getByText('Cooked it'));
+    fireEvent.click(screen.getByLabelText('4 of 5 stars'));
+    fireEvent.click(screen.getByText('Add to history'));
+    expect(screen.getByText(/^Last cooked on/)).toBeTruthy();
+    expect(JSON.parse(localStorage.getItem('smart-fridge.cooking-history')!)).toMatchObject([{ recipe: { name: 'Spinach Omelette' }, rating: 4 }]);
+
+    fireEvent.click(screen.getByLabelText('Vegan'));
+    await waitFor(() => expect(prompts).toHaveLength(2), { timeout: 2000 });
+    expect(prompts[1]).toContain("cooked these dishes recently, so don't suggest them or close variations of them: Spinach Omelette.");
+
+    fireEvent.click(await screen.findByText('Cooking history (1)'));
+    expect(screen.getByText("What we've learned")).toBeTruthy();
+    expect(screen.getByRole('radiogroup', { name: 'Rating for Spinach Omelette' })).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'de' } });
+    expect(screen.getByText('Was wir gelernt haben')).toBeTruthy();
+    expect(screen.getByRole('radiogroup', { name: 'Bewertung für Spinach Omelette' })).toBeTruthy();
+    expect(screen.getByText(new Date().toLocaleDateString('de-DE', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }))).toBeTruthy();
+  });
+
+  it('opens the saved recipes library without uploading a photo', () => {
+    localStorage.setItem('smart-fridge.library', JSON.stringify([{
+      id: 'saved-1',
+      recipe: JSON.parse(recipesResponse.text).recipes[0],
+      savedAt: '2024-01-01T00:00:00.000Z',
+      favorite: true,
+      rating: 4,
+      notes: 'Add chives',
+      tags: ['breakfast'],
+    }]));
+
+    render(<App />);
+    fireEvent.click(screen.getByText('Saved recipes (1)'));
+    expect(screen.getByText('#breakfast')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Spinach Omelette'));
+    expect(screen.getByDisplayValue('Add chives')).toBeTruthy();
+    expect(screen.getByText('Saved')).toBeTruthy();
+  });
+
+  it('warns when the library no longer fits in local storage', () => {
+    localStorage.setItem('smart-fridge.library', JSON.stringify([{
+      id: 'saved-1',
+      recipe: JSON.parse(recipesResponse.text).recipes[0],
+      savedAt: '2024-01-01T00:00:00.000Z',
+      favorite: false,
+      notes: '',
+      tags: [],
+    }]));
+    render(<App />);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); });
+    fireEvent.click(screen.getByText('Saved recipes (1)'));
+    fireEvent.click(screen.getByLabelText('Favorite Spinach Omelette'));
+    expect(screen.getByRole('alert').textContent).toContain("Couldn't save your recipe library");
+    vi.restoreAllMocks();
+  });
+
+  it('saves a variation of a library recipe to the library', async () => {
+    vi.stubEnv('RECIPE_PROVIDER', 'mock');
+    localStorage.setItem('smart-fridge.library', JSON.stringify([{
+      id: 'saved-1',
+      recipe: JSON.parse(recipesResponse.text).recipes[0],
+      savedAt: '2024-01-01T00:00:00.000Z',
+      favorite: false,
+      notes: '',
+      tags: [],
+    }]));
+
+    render(<App />);
+    fireEvent.click(screen.getByText('Saved recipes (1)'));
+    fireEvent.click(screen.getByText('Spinach Omelette'));
+    fireEvent.click(screen.getByRole('button', { name: 'Ask the chef' }));
+    fireEvent.change(screen.getByLabelText('Ask the chef'), { target: { value: 'without spinach' } });
+    fireEvent.click(screen.getByText('Send'));
+    fireEvent.click(await screen.findByText('Keep both'));
+
+    // Listed in the library behind the modal as well as in the modal itself.
+    expect(screen.getAllByText('Spinach Omelette (variation)')).toHaveLength(2);
+    const saved = JSON.parse(localStorage.getItem('smart-fridge.library')!);
+    expect(saved.map((entry: { recipe: { name: string } }) => entry.recipe.name)).toEqual(['Spinach Omelette', 'Spinach Omelette (variation)']);
+  });
+
+  it('switches the interface language and remembers the choice', () => {
+    render(<App />);
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'es' } });
+    expect(screen.getByText('Recetas guardadas (0)')).toBeTruthy();
+    expect(document.documentElement.lang).toBe('es');
+    expect(JSON.parse(localStorage.getItem('smart-fridge.locale')!)).toBe('es');
+    expect(screen.getByText('Hacer una foto')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Recetas guardadas (0)'));
+    expect(screen.getByRole('heading', { name: 'Recetas guardadas' })).toBeTruthy();
+    expect(screen.getByLabelText('Importar recetas')).toBeTruthy();
+  });
+
+  it('imports JSON-LD recipes into the library and checks them against the pantry', async () => {
+    localStorage.setItem('smart-fridge.pantry', JSON.stringify([
+      { id: 'p1', name: 'Eggs', quantity: 6, unit: 'pieces', category: 'Dairy', confidence: 1, location: 'fridge', addedAt: '2024-01-01T00:00:00.000Z' },
+    ]));
+    const file = new File([JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Shakshuka',
+      totalTime: 'PT25M',
+      recipeIngredient: ['4 eggs', '1 can tomatoes'],
+      recipeInstructions: [{ '@type': 'HowToStep', text: 'Simmer the tomatoes.' }, { '@type': 'HowToStep', text: 'Poach the eggs in the sauce.' }],
+    })], 'shakshuka.jsonld', { type: 'application/ld+json' });
+
+    render(<App />);
+    fireEvent.click(screen.getByText('Saved recipes (0)'));
+    fireEvent.change(screen.getByLabelText('Import recipes'), { target: { files: [file] } });
+
+    expect(await screen.findByText('Imported 1 recipe.')).toBeTruthy();
+    expect(screen.getByText('Shakshuka')).toBeTruthy();
+    expect(screen.getByText('You have 1 of 2 ingredients')).toBeTruthy();
+    expect(JSON.parse(localStorage.getItem('smart-fridge.library')!)[0].recipe).toMatchObject({ name: 'Shakshuka', prepTimeMinutes: 25 });
+  });
+
+  it('reports a recipe file that cannot be read', async () => {
+    vi.spyOn(FileReader.prototype, 'readAsText').mockImplementation(function (this: FileReader) {
+      this.onerror?.(new ProgressEvent('error') as ProgressEvent<FileReader>);
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(<App />);
+    fireEvent.click(screen.getByText('Saved recipes (0)'));
+    fireEvent.change(screen.getByLabelText('Import recipes'), { target: { files: [new File(['{}'], 'broken.jsonld')] } });
+
+    expect(await screen.findByText('No recipes could be imported. broken.jsonld: the file could not be read')).toBeTruthy();
+    vi.restoreAllMocks();
+  });
+
+  it('returns to the upload screen with an error when analysis fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generateContent.mockRejectedValue(new Error('boom'));
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+
+    expect(await screen.findByText("Couldn't analyze the photos. Please try again.")).toBeTruthy();
+    expect(screen.getByText("Unlock Your Fridge's Potential")).toBeTruthy();
+  });
+
+  it('tells the user what to do when the API key is rejected', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generateContent.mockRejectedValue(Object.assign(new Error('API key not valid'), { status: 400 }));
+
+    render(<App />);
+    const file = new File(['fridge'], 'fridge.png', { type: 'image/png' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [file] } });
+    fireEvent.click(await screen.findByText('Analyze 1 Photo'));
+
+    expect(await screen.findByText(/Check that API_KEY is set to a valid key/)).toBeTruthy();
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
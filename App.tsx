@@ -1,68 +1,110 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { analyzeFridgeContents, getRecipes, generateRecipeImage } from './services/geminiService';
-import { Recipe, DietaryRestriction } from './types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { analyzeFridgeContents, getRecipes, generateRecipeImage, getMealPlan } from './services/recipeProvider';
+import { Recipe, DietaryRestriction, Equipment, InventoryItem, PantryItem, StorageLocation, ShoppingListItem, SavedRecipe, ExclusionProfile, MealPlan, Locale, CookedRecipe, RecipeConstraints, Difficulty } from './types';
+import { loadPantry, savePantry, mergeScanIntoPantry, mergeInventoryItems, markUsedUp, clearUsedUp, pantryToInventory } from './services/pantryService';
+import { matchRecipeIngredients } from './services/ingredientMatcher';
+import { loadShoppingList, saveShoppingList, addRecipeToShoppingList, toggleChecked, removeItem, clearChecked } from './services/shoppingList';
+import { checkDietaryFit, filterByNutrition, sortRecipes, NutritionFilters, RecipeSortKey } from './services/nutrition';
+import { loadExclusionProfiles, saveExclusionProfiles, createExclusionProfile, updateExclusionProfile, removeExclusionProfile, enforceExclusions, describeViolation } from './services/exclusions';
+import { loadMealPlan, saveMealPlan, buildMealPlanRequest, mergeMeals, toggleMealLock, addMealPlanToShoppingList, toDateKey, MealPlanSlot } from './services/mealPlan';
+import { loadLibrary, saveLibrary, loadLibraryPhotos, withLibraryPhotos, saveRecipeToLibrary, updateSavedRecipe, removeFromLibrary, findSavedRecipe, toggleFavorite, replaceSavedRecipe } from './services/recipeLibrary';
+import { loadCookingHistory, saveCookingHistory, logCookedRecipe, updateCookedRecipe, removeCookedRecipe, findLastCooked, inferCookingPreferences } from './services/cookingHistory';
+import { ALL_EQUIPMENT, CUISINE_SUGGESTIONS, DEFAULT_RECIPE_CONSTRAINTS, MAX_PREP_TIME_OPTIONS, RECIPE_COUNT_OPTIONS, describeConstraintViolation, enforceConstraints, sameConstraints } from './services/recipeConstraints';
+import { LOCALES, createTranslator, loadLocale, saveLocale, Translate } from './services/i18n';
+import { describeError } from './services/errors';
 import RecipeModal from './components/RecipeModal';
-import { ClockIcon, FireIcon, ChefHatIcon, FridgeIcon } from './components/icons';
+import ImageUploader, { UploadedPhoto } from './components/ImageUploader';
+import IngredientReview from './components/IngredientReview';
+import PantryView from './components/PantryView';
+import ShoppingList from './components/ShoppingList';
+import RecipeLibrary from './components/RecipeLibrary';
+import ResultsToolbar from './components/ResultsToolbar';
+import ExclusionProfiles from './components/ExclusionProfiles';
+import MealPlanner from './components/MealPlanner';
+import CookingHistory from './components/CookingHistory';
+import { ClockIcon, FireIcon, ChefHatIcon } from './components/icons';
 
-type AppState = 'initial' | 'analyzing' | 'generating' | 'results';
+type AppState = 'initial' | 'analyzing' | 'reviewing' | 'pantry' | 'library' | 'planner' | 'history' | 'generating' | 'results';
 
 const dietaryOptions = Object.values(DietaryRestriction);
 
-const ImageUploader: React.FC<{ onImageUpload: (file: File) => void; isAnalyzing: boolean }> = ({ onImageUpload, isAnalyzing }) => {
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setFileName(file.name);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      onImageUpload(file);
-    }
-  };
+// How long to wait after a filter is toggled before asking for new recipes, so that several quick toggles make one request.
+const FILTER_DEBOUNCE_MS = 500;
 
-  return (
-    <div className="w-full max-w-2xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200 text-center">
-      <FridgeIcon className="mx-auto h-16 w-16 text-blue-500 mb-4" />
-      <h2 className="text-3xl font-bold text-gray-800 mb-2">Unlock Your Fridge's Potential</h2>
-      <p className="text-gray-600 mb-6">Snap a photo of your fridge, and let AI be your sous-chef!</p>
-      <label htmlFor="file-upload" className="cursor-pointer inline-block bg-blue-600 text-white font-bold py-3 px-8 rounded-full hover:bg-blue-700 transition-all duration-300 transform hover:scale-105 shadow-md">
-        {isAnalyzing ? "Analyzing..." : "Upload Fridge Photo"}
-      </label>
-      <input id="file-upload" type="file" accept="image/*" className="hidden" onChange={handleFileChange} disabled={isAnalyzing} />
-      {imagePreview && (
-        <div className="mt-6">
-          <p className="text-sm text-gray-500 mb-2">{fileName}</p>
-          <img src={imagePreview} alt="Fridge preview" className="mx-auto max-h-64 rounded-lg shadow-md" />
-        </div>
-      )}
-    </div>
-  );
-};
+const sameFilters = (a: DietaryRestriction[], b: DietaryRestriction[]) => a.length === b.length && a.every(filter => b.includes(filter));
 
-const RecipeCard: React.FC<{ recipe: Recipe; onSelect: () => void }> = ({ recipe, onSelect }) => (
-    <div onClick={onSelect} className="bg-white rounded-xl shadow-md overflow-hidden cursor-pointer hover:shadow-2xl hover:-translate-y-1 transition-all duration-300 group">
-        <div className="relative h-48 bg-gray-200">
-          <img className="w-full h-full object-cover" src={recipe.imageUrl || `https://picsum.photos/seed/${recipe.name}/400/300`} alt={recipe.name} />
-          <div className="absolute inset-0 bg-gradient-to-t from-black/70 to-transparent"></div>
-           <h3 className="absolute bottom-0 left-0 p-4 text-xl font-bold text-white">{recipe.name}</h3>
-        </div>
-        <div className="p-4">
-            <div className="flex justify-between items-center text-sm text-gray-600">
-                <span className="flex items-center gap-1.5"><ChefHatIcon className="w-4 h-4 text-gray-400" /> {recipe.difficulty}</span>
-                <span className="flex items-center gap-1.5"><ClockIcon className="w-4 h-4 text-gray-400" /> {recipe.prepTime}</span>
-                <span className="flex items-center gap-1.5"><FireIcon className="w-4 h-4 text-gray-400" /> {recipe.calories} kcal</span>
+type ImageStatus = { state: 'loading' } | { state: 'failed'; reason: string };
+
+interface RecipeCardProps {
+  recipe: Recipe;
+  imageStatus?: ImageStatus;
+  ownedIngredients: string[];
+  warnings: string[];
+  onSelect: () => void;
+  onRetryImage: () => void;
+  t: Translate;
+}
+
+const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, imageStatus, ownedIngredients, warnings, onSelect, onRetryImage, t }) => {
+    const ownedCount = matchRecipeIngredients(recipe.ingredients, ownedIngredients).owned.length;
+    const total = recipe.ingredients.length;
+    return (
+        <div onClick={onSelect} className="bg-white rounded-xl shadow-md overflow-hidden cursor-pointer hover:shadow-2xl hover:-translate-y-1 transition-all duration-300 group">
+            <div className="relative h-48 bg-gray-200">
+              {recipe.imageUrl ? (
+                <img className="w-full h-full object-cover" src={recipe.imageUrl} alt={recipe.name} />
+              ) : imageStatus?.state === 'failed' ? (
+                <div className="w-full h-full flex flex-col items-center pt-8 px-4 gap-2">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRetryImage(); }}
+                    className="bg-white/90 text-gray-700 text-sm font-medium py-1 px-3 rounded-full shadow hover:bg-white transition"
+                  >
+                    {t('card.photoFailed')}
+                  </button>
+                  <p className="text-xs text-gray-600 text-center">{imageStatus.reason}</p>
+                </div>
+              ) : (
+                <div className="w-full h-full animate-pulse bg-gradient-to-br from-gray-200 to-gray-300" aria-label={t('card.creatingPhoto', { name: recipe.name })}></div>
+              )}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/70 to-transparent pointer-events-none"></div>
+               <h3 className="absolute bottom-0 left-0 p-4 text-xl font-bold text-white">{recipe.name}</h3>
+            </div>
+            <div className="p-4">
+                <div className="flex justify-between items-center text-sm text-gray-600">
+                    <span className="flex items-center gap-1.5"><ChefHatIcon className="w-4 h-4 text-gray-400" /> {t(`difficulty.${recipe.difficulty}`)}</span>
+                    <span className="flex items-center gap-1.5"><ClockIcon className="w-4 h-4 text-gray-400" /> {recipe.prepTime}</span>
+                    <span className="flex items-center gap-1.5"><FireIcon className="w-4 h-4 text-gray-400" /> {t('card.calories', { calories: recipe.calories })}</span>
+                </div>
+                {recipe.nutrition && (
+                    <p className="mt-2 text-xs text-gray-500">{t('card.macros', { protein: recipe.nutrition.protein, carbs: recipe.nutrition.carbs, fat: recipe.nutrition.fat })}</p>
+                )}
+                {warnings.map(warning => (
+                    <p key={warning} className="mt-2 text-xs font-medium text-yellow-700 bg-yellow-50 px-2 py-1 rounded">{warning}</p>
+                ))}
+                <div className="mt-3">
+                    <p className="text-xs text-gray-500 mb-1">{t('card.ownedIngredients', { owned: ownedCount, total })}</p>
+                    <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500" style={{ width: `${total > 0 ? (ownedCount / total) * 100 : 0}%` }}></div>
+                    </div>
+                </div>
             </div>
         </div>
-    </div>
-);
+    );
+};
 
-const Sidebar: React.FC<{ onFilterChange: (filters: DietaryRestriction[]) => void; activeFilters: DietaryRestriction[] }> = ({ onFilterChange, activeFilters }) => {
+interface SidebarProps {
+  onFilterChange: (filters: DietaryRestriction[]) => void;
+  activeFilters: DietaryRestriction[];
+  constraints: RecipeConstraints;
+  onConstraintsChange: (constraints: RecipeConstraints) => void;
+  profiles: ExclusionProfile[];
+  onToggleProfile: (id: string, enabled: boolean) => void;
+  onManageProfiles: () => void;
+  t: Translate;
+}
+
+const Sidebar: React.FC<SidebarProps> = ({ onFilterChange, activeFilters, constraints, onConstraintsChange, profiles, onToggleProfile, onManageProfiles, t }) => {
   const handleToggle = (filter: DietaryRestriction) => {
     const newFilters = activeFilters.includes(filter)
       ? activeFilters.filter(f => f !== filter)
@@ -70,9 +112,24 @@ const Sidebar: React.FC<{ onFilterChange: (filters: DietaryRestriction[]) => voi
     onFilterChange(newFilters);
   };
 
+  const updateConstraints = (changes: Partial<RecipeConstraints>) => onConstraintsChange({ ...constraints, ...changes });
+
+  // Each change asks for new recipes, so the typed cuisine only applies once the user leaves the field or presses Enter.
+  const [cuisineDraft, setCuisineDraft] = useState(constraints.cuisine);
+  useEffect(() => setCuisineDraft(constraints.cuisine), [constraints.cuisine]);
+  const applyCuisine = () => {
+    if (cuisineDraft !== constraints.cuisine) updateConstraints({ cuisine: cuisineDraft });
+  };
+
+  const handleToggleEquipment = (item: Equipment) => updateConstraints({
+    equipment: constraints.equipment.includes(item)
+      ? constraints.equipment.filter(owned => owned !== item)
+      : ALL_EQUIPMENT.filter(owned => owned === item || constraints.equipment.includes(owned)),
+  });
+
   return (
     <aside className="w-full md:w-64 lg:w-72 p-6 bg-white rounded-2xl shadow-lg border border-gray-200 self-start">
-      <h3 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">Dietary Options</h3>
+      <h3 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">{t('sidebar.dietaryOptions')}</h3>
       <div className="space-y-3">
         {dietaryOptions.map(option => (
           <label key={option} className="flex items-center cursor-pointer">
@@ -82,10 +139,104 @@ const Sidebar: React.FC<{ onFilterChange: (filters: DietaryRestriction[]) => voi
               checked={activeFilters.includes(option)}
               onChange={() => handleToggle(option)}
             />
-            <span className="ml-3 text-gray-700 font-medium">{option.replace('-', ' ')}</span>
+            <span className="ml-3 text-gray-700 font-medium">{t(`diet.${option}`)}</span>
           </label>
         ))}
       </div>
+      <h3 className="text-xl font-semibold text-gray-800 mt-8 mb-4 border-b pb-2">{t('sidebar.constraints')}</h3>
+      <div className="space-y-4">
+        <label className="block">
+          <span className="text-gray-700 font-medium">{t('sidebar.cuisine')}</span>
+          <input
+            type="text"
+            list="cuisine-suggestions"
+            value={cuisineDraft}
+            onChange={e => setCuisineDraft(e.target.value)}
+            onBlur={applyCuisine}
+            onKeyDown={e => e.key === 'Enter' && applyCuisine()}
+            placeholder={t('sidebar.anyCuisine')}
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          <datalist id="cuisine-suggestions">
+            {CUISINE_SUGGESTIONS.map(cuisine => <option key={cuisine} value={cuisine} />)}
+          </datalist>
+        </label>
+        <label className="block">
+          <span className="text-gray-700 font-medium">{t('sidebar.maxPrepTime')}</span>
+          <select
+            value={constraints.maxPrepMinutes ?? ''}
+            onChange={e => updateConstraints({ maxPrepMinutes: e.target.value ? Number(e.target.value) : undefined })}
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">{t('sidebar.anyTime')}</option>
+            {MAX_PREP_TIME_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{t('sidebar.upToMinutes', { minutes })}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-700 font-medium">{t('sidebar.difficulty')}</span>
+          <select
+            value={constraints.maxDifficulty ?? ''}
+            onChange={e => updateConstraints({ maxDifficulty: (e.target.value || undefined) as Difficulty | undefined })}
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">{t('sidebar.anyDifficulty')}</option>
+            <option value="Easy">{t('sidebar.easyOnly')}</option>
+            <option value="Medium">{t('sidebar.easyOrMedium')}</option>
+          </select>
+        </label>
+        <fieldset>
+          <legend className="text-gray-700 font-medium mb-2">{t('sidebar.equipment')}</legend>
+          <div className="space-y-2">
+            {ALL_EQUIPMENT.map(item => (
+              <label key={item} className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={constraints.equipment.includes(item)}
+                  onChange={() => handleToggleEquipment(item)}
+                />
+                <span className="ml-3 text-gray-700">{t(`equipment.${item}`)}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <label className="flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            checked={constraints.onePan}
+            onChange={e => updateConstraints({ onePan: e.target.checked })}
+          />
+          <span className="ml-3 text-gray-700 font-medium">{t('sidebar.onePan')}</span>
+        </label>
+        <label className="block">
+          <span className="text-gray-700 font-medium">{t('sidebar.recipeCount')}</span>
+          <select
+            value={constraints.recipeCount}
+            onChange={e => updateConstraints({ recipeCount: Number(e.target.value) })}
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+          >
+            {RECIPE_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+      </div>
+      <h3 className="text-xl font-semibold text-gray-800 mt-8 mb-4 border-b pb-2">{t('sidebar.allergies')}</h3>
+      <div className="space-y-3">
+        {profiles.map(profile => (
+          <label key={profile.id} className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={profile.enabled}
+              onChange={e => onToggleProfile(profile.id, e.target.checked)}
+            />
+            <span className="ml-3 text-gray-700 font-medium">{profile.name}</span>
+          </label>
+        ))}
+        <button onClick={onManageProfiles} className="text-blue-600 font-medium hover:underline">
+          {profiles.length > 0 ? t('sidebar.editProfiles') : t('sidebar.addProfile')}
+        </button>
+      </div>
     </aside>
   );
 };
@@ -93,80 +244,427 @@ const Sidebar: React.FC<{ onFilterChange: (filters: DietaryRestriction[]) => voi
 const App: React.FC = () => {
     const [appState, setAppState] = useState<AppState>('initial');
     const [error, setError] = useState<string | null>(null);
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [identifiedIngredients, setIdentifiedIngredients] = useState<string[]>([]);
+    const [scanPhotos, setScanPhotos] = useState<UploadedPhoto[]>([]);
+    const [identifiedIngredients, setIdentifiedIngredients] = useState<InventoryItem[]>([]);
     const [recipes, setRecipes] = useState<Recipe[]>([]);
     const [activeFilters, setActiveFilters] = useState<DietaryRestriction[]>([]);
     const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+    // Recipes stream in one by one; their photos load independently and can be retried one at a time.
+    const [isStreaming, setIsStreaming] = useState(false);
+    const [imageStatus, setImageStatus] = useState<Record<string, ImageStatus>>({});
+    // The latest generation, aborted as soon as a newer one supersedes it. Its signal also cancels the photos.
+    const generationRef = useRef<AbortController | null>(null);
+    const filterTimerRef = useRef<number | undefined>(undefined);
+    const [constraints, setConstraints] = useState<RecipeConstraints>(DEFAULT_RECIPE_CONSTRAINTS);
+    // The dietary filters and constraints the recipes on screen were generated for; they're only shown while these match the active ones.
+    const [resultsFilters, setResultsFilters] = useState<DietaryRestriction[]>([]);
+    const [resultsConstraints, setResultsConstraints] = useState<RecipeConstraints>(DEFAULT_RECIPE_CONSTRAINTS);
+    // Recipes that take longer or are harder than the constraints allow are hidden until the user asks to see them.
+    const [showOutOfBounds, setShowOutOfBounds] = useState(false);
+    // When the recipes on screen came from the cache, when they were first generated.
+    const [cachedAt, setCachedAt] = useState<Date | null>(null);
+    const [sortKey, setSortKey] = useState<RecipeSortKey>('default');
+    const [nutritionFilters, setNutritionFilters] = useState<NutritionFilters>({});
+    const [pantry, setPantry] = useState<PantryItem[]>(loadPantry);
+    const [scanLocation, setScanLocation] = useState<StorageLocation>(StorageLocation.Fridge);
+    // The location the ingredients under review were scanned from, or null when they came from the pantry.
+    const [reviewLocation, setReviewLocation] = useState<StorageLocation | null>(null);
+
+    const [shoppingList, setShoppingList] = useState<ShoppingListItem[]>(loadShoppingList);
+    const [isShoppingListOpen, setIsShoppingListOpen] = useState(false);
+
+    const [exclusionProfiles, setExclusionProfiles] = useState<ExclusionProfile[]>(loadExclusionProfiles);
+    const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+
+    const [library, setLibrary] = useState<SavedRecipe[]>(loadLibrary);
+    const [librarySaveFailed, setLibrarySaveFailed] = useState(false);
+    // Where "Back" leads from the library, since it can be opened from several screens.
+    const [libraryReturnState, setLibraryReturnState] = useState<AppState>('initial');
+
+    const [mealPlan, setMealPlan] = useState<MealPlan | null>(loadMealPlan);
+    const [pendingMealSlots, setPendingMealSlots] = useState<MealPlanSlot[]>([]);
+    const [plannerReturnState, setPlannerReturnState] = useState<AppState>('initial');
+
+    const [cookingHistory, setCookingHistory] = useState<CookedRecipe[]>(loadCookingHistory);
+    const [historyReturnState, setHistoryReturnState] = useState<AppState>('initial');
+    const preferences = useMemo(() => inferCookingPreferences(cookingHistory), [cookingHistory]);
+
+    const [locale, setLocale] = useState<Locale>(loadLocale);
+    const t = useMemo(() => createTranslator(locale), [locale]);
+
+    useEffect(() => {
+        saveLocale(locale);
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    useEffect(() => {
+        savePantry(pantry);
+    }, [pantry]);
+
+    useEffect(() => {
+        saveShoppingList(shoppingList);
+    }, [shoppingList]);
+
+    useEffect(() => {
+        setLibrarySaveFailed(!saveLibrary(library));
+    }, [library]);
+
+    // Photos of saved recipes are kept in IndexedDB and arrive after the rest of the library.
+    useEffect(() => {
+        let cancelled = false;
+        loadLibraryPhotos(library).then(photos => {
+            if (!cancelled && Object.keys(photos).length > 0) setLibrary(prev => withLibraryPhotos(prev, photos));
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        saveExclusionProfiles(exclusionProfiles);
+    }, [exclusionProfiles]);
+
+    useEffect(() => {
+        saveMealPlan(mealPlan);
+    }, [mealPlan]);
+
+    useEffect(() => {
+        saveCookingHistory(cookingHistory);
+    }, [cookingHistory]);
+
+    useEffect(() => () => {
+        generationRef.current?.abort();
+        window.clearTimeout(filterTimerRef.current);
+    }, []);
     
-    const handleImageUpload = async (file: File) => {
-      setImageFile(file);
+    const loadRecipeImage = async (recipe: Recipe, signal: AbortSignal, refresh = false) => {
+        setImageStatus(prev => ({ ...prev, [recipe.name]: { state: 'loading' } }));
+        try {
+            const imageUrl = await generateRecipeImage(recipe.name, signal, refresh);
+            if (signal.aborted) return;
+            setRecipes(prev => prev.map(r => (r.name === recipe.name ? { ...r, imageUrl } : r)));
+            setSelectedRecipe(prev => (prev?.name === recipe.name ? { ...prev, imageUrl } : prev));
+            setImageStatus(({ [recipe.name]: _, ...rest }) => rest);
+        } catch (imageError) {
+            if (signal.aborted) return;
+            console.error(`Could not generate image for ${recipe.name}:`, imageError);
+            const reason = describeError(imageError, t, 'error.imageFailed');
+            setImageStatus(prev => ({ ...prev, [recipe.name]: { state: 'failed', reason } }));
+        }
+    };
+
+    // Shows the results as soon as the first recipe arrives and starts each photo as its recipe does.
+    // Starting a new generation cancels the previous one, including any photos it is still creating.
+    // `refresh` skips the cached recipes for the same ingredients and filters, and their cached photos.
+    const streamRecipes = async (ingredients: InventoryItem[], filters: DietaryRestriction[], requestConstraints: RecipeConstraints, stateOnError: AppState, refresh = false) => {
+        window.clearTimeout(filterTimerRef.current);
+        generationRef.current?.abort();
+        const controller = new AbortController();
+        generationRef.current = controller;
+        const { signal } = controller;
+        let received = 0;
+        setRecipes([]);
+        setResultsFilters(filters);
+        setResultsConstraints(requestConstraints);
+        setShowOutOfBounds(false);
+        setCachedAt(null);
+        setImageStatus({});
+        setAppState('generating');
+        setError(null);
+        setIsStreaming(true);
+        try {
+            await getRecipes(ingredients, filters, exclusionProfiles, {
+                signal,
+                locale,
+                preferences,
+                constraints: requestConstraints,
+                refresh,
+                onCacheHit: setCachedAt,
+                onRecipe: (recipe) => {
+                    received++;
+                    setRecipes(prev => [...prev, recipe]);
+                    setAppState('results');
+                    loadRecipeImage(recipe, signal, refresh);
+                },
+            });
+        } catch (err) {
+            if (signal.aborted) return;
+            setError(describeError(err, t, 'error.recipesFailed'));
+            setAppState(received > 0 ? 'results' : stateOnError);
+        } finally {
+            if (!signal.aborted) setIsStreaming(false);
+        }
+    };
+
+    const handleImagesUpload = async (photos: UploadedPhoto[]) => {
+      setScanPhotos(photos);
       setAppState('analyzing');
       setError(null);
       try {
-        const ingredients = await analyzeFridgeContents(file);
+        const scans = await Promise.allSettled(photos.map(photo => analyzeFridgeContents(photo.file)));
+        const failedPhotos = photos.filter((_, index) => scans[index].status === 'rejected').map(photo => photo.label);
+        if (failedPhotos.length === photos.length) {
+          throw (scans[0] as PromiseRejectedResult).reason;
+        }
+        if (failedPhotos.length > 0) {
+          setError(t('app.photosFailed', { photos: failedPhotos.join(', ') }));
+        }
+        const ingredients = mergeInventoryItems(scans.flatMap((scan, index) =>
+          scan.status === 'fulfilled' ? scan.value.map(item => ({ ...item, sourceImages: [photos[index].label] })) : []
+        ));
         setIdentifiedIngredients(ingredients);
-        setAppState('generating');
-        const generatedRecipes = await getRecipes(ingredients, activeFilters);
-        
-        const recipesWithImages = await Promise.all(
-            generatedRecipes.map(async (recipe) => {
-              try {
-                const imageUrl = await generateRecipeImage(recipe.name);
-                return { ...recipe, imageUrl };
-              } catch (imageError) {
-                console.error(`Could not generate image for ${recipe.name}:`, imageError);
-                return recipe; // Return recipe without image on failure
-              }
-            })
-        );
-        
-        setRecipes(recipesWithImages);
-        setAppState('results');
+        setReviewLocation(scanLocation);
+        setAppState('reviewing');
       } catch (err) {
-        setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        setError(describeError(err, t, 'error.analysisFailed'));
         setAppState('initial');
       }
     };
+
+    const generateFromIngredients = (ingredients: InventoryItem[], stateOnError: AppState) => {
+      setIdentifiedIngredients(ingredients);
+      streamRecipes(ingredients, activeFilters, constraints, stateOnError);
+    };
+
+    const handleIngredientsConfirmed = (ingredients: InventoryItem[]) => {
+      if (reviewLocation) {
+        setPantry(prev => mergeScanIntoPantry(prev, ingredients, reviewLocation));
+      }
+      generateFromIngredients(ingredients, 'reviewing');
+    };
+
+    const handleCookWithPantry = () => {
+      setReviewLocation(null);
+      generateFromIngredients(pantryToInventory(pantry), 'pantry');
+    };
     
-    const handleFilterChange = useCallback(async (newFilters: DietaryRestriction[]) => {
+    // The debounced request runs the latest `streamRecipes`, so it uses the exclusions, language and preferences of that moment.
+    const streamRecipesRef = useRef(streamRecipes);
+    streamRecipesRef.current = streamRecipes;
+
+    const handleRequestChange = (newFilters: DietaryRestriction[], newConstraints: RecipeConstraints) => {
         setActiveFilters(newFilters);
-        if(identifiedIngredients.length > 0) {
-            setAppState('generating');
-            setError(null);
-            try {
-                const generatedRecipes = await getRecipes(identifiedIngredients, newFilters);
-
-                const recipesWithImages = await Promise.all(
-                    generatedRecipes.map(async (recipe) => {
-                      try {
-                        const imageUrl = await generateRecipeImage(recipe.name);
-                        return { ...recipe, imageUrl };
-                      } catch (imageError) {
-                        console.error(`Could not generate image for ${recipe.name}:`, imageError);
-                        return recipe;
-                      }
-                    })
-                );
-
-                setRecipes(recipesWithImages);
-                setAppState('results');
-            } catch (err) {
-                setError(err instanceof Error ? err.message : "An unknown error occurred.");
-                setAppState('results');
-            }
+        setConstraints(newConstraints);
+        window.clearTimeout(filterTimerRef.current);
+        if(identifiedIngredients.length === 0) return;
+        // Toggling a filter off and on again needs no new request when those recipes are on screen or on their way.
+        if(sameFilters(newFilters, resultsFilters) && sameConstraints(newConstraints, resultsConstraints) && (recipes.length > 0 || isStreaming)) return;
+        filterTimerRef.current = window.setTimeout(() => streamRecipesRef.current(identifiedIngredients, newFilters, newConstraints, 'results'), FILTER_DEBOUNCE_MS);
+    };
+
+    // Dietary filters and constraints are sent to the API on change; nutrition limits and sorting happen here.
+    // Exclusion profiles are checked again so that editing them takes effect without regenerating.
+    // The model doesn't always keep to the time and difficulty limits, so those are checked here as well.
+    const { filteredRecipes, recipeWarnings, excludedCount, outOfBoundsCount } = useMemo(() => {
+        const { allowed, rejected } = enforceExclusions(recipes, exclusionProfiles);
+        const warnings = new Map(allowed.map(({ recipe, warnings }) => [recipe, warnings.map(warning => t('card.contains', { violation: describeViolation(warning, t) }))]));
+        const withinLimits = enforceConstraints(allowed.map(({ recipe }) => recipe), constraints);
+        for (const { recipe, violations } of withinLimits.rejected) {
+            warnings.set(recipe, [...violations.map(violation => describeConstraintViolation(violation, t)), ...(warnings.get(recipe) ?? [])]);
+        }
+        const shown = showOutOfBounds ? allowed.map(({ recipe }) => recipe) : withinLimits.allowed;
+        return {
+            filteredRecipes: sortRecipes(filterByNutrition(shown, nutritionFilters), sortKey),
+            recipeWarnings: warnings,
+            excludedCount: rejected.length,
+            outOfBoundsCount: withinLimits.rejected.length,
+        };
+    }, [recipes, exclusionProfiles, constraints, showOutOfBounds, nutritionFilters, sortKey, t]);
+
+    const showResults = appState === 'results' && sameFilters(resultsFilters, activeFilters) && sameConstraints(resultsConstraints, constraints);
+
+
+    const selectedSavedRecipe = useMemo(() => findSavedRecipe(library, selectedRecipe), [library, selectedRecipe]);
+    const selectedLastCooked = useMemo(() => findLastCooked(cookingHistory, selectedRecipe), [cookingHistory, selectedRecipe]);
+
+    // A recipe the chef changed replaces the original wherever it appears: the results, the library and the meal plan.
+    const handleReplaceRecipe = (original: Recipe, updated: Recipe) => {
+        const replace = (recipe: Recipe) => (recipe.name === original.name ? updated : recipe);
+        setRecipes(prev => prev.map(replace));
+        setLibrary(prev => replaceSavedRecipe(prev, original, updated));
+        setMealPlan(prev => prev && { ...prev, meals: prev.meals.map(meal => ({ ...meal, recipe: replace(meal.recipe) })) });
+        setSelectedRecipe(updated);
+    };
+
+    // A variation is listed right after the recipe it came from when that recipe is among the results.
+    // Forked from anywhere else, like the library or the meal plan, it is saved to the library instead.
+    const handleForkRecipe = (original: Recipe, variation: Recipe) => {
+        if (recipes.some(recipe => recipe.name === original.name)) {
+            setRecipes(prev => {
+                const others = prev.filter(recipe => recipe.name !== variation.name);
+                const index = others.findIndex(recipe => recipe.name === original.name);
+                return [...others.slice(0, index + 1), variation, ...others.slice(index + 1)];
+            });
+        } else {
+            setLibrary(prev => saveRecipeToLibrary(prev, variation));
         }
-    }, [identifiedIngredients]);
+        setSelectedRecipe(variation);
+    };
+
+    const openLibrary = () => {
+      setLibraryReturnState(appState === 'analyzing' ? 'initial' : appState);
+      setAppState('library');
+    };
+
+    const openHistory = () => {
+      setHistoryReturnState(appState === 'analyzing' ? 'initial' : appState);
+      setAppState('history');
+    };
+
+    // The planner works from the ingredients being cooked with, or the whole pantry before any scan.
+    const planIngredients = useMemo(
+      () => (identifiedIngredients.length > 0 ? identifiedIngredients : pantryToInventory(pantry)),
+      [identifiedIngredients, pantry]
+    );
+
+    // Owned and missing ingredients are judged the same way: against the scan, or the pantry before any scan.
+    const ownedIngredientNames = useMemo(() => planIngredients.map(item => item.name), [planIngredients]);
 
-    const filteredRecipes = useMemo(() => {
-        return recipes; // The API is called on filter change, so we don't need client-side filtering.
-    }, [recipes]);
+    const openPlanner = () => {
+      setPlannerReturnState(appState === 'analyzing' ? 'initial' : appState);
+      setError(null);
+      setAppState('planner');
+    };
+
+    const handleGenerateMealPlan = async (slots: MealPlanSlot[]) => {
+      const current = mealPlan ?? { startDate: toDateKey(new Date()), meals: [] };
+      setPendingMealSlots(slots);
+      setError(null);
+      try {
+        const meals = await getMealPlan(planIngredients, activeFilters, buildMealPlanRequest(current, slots), exclusionProfiles, locale);
+        setMealPlan(prev => mergeMeals(prev ?? current, meals));
+        if (meals.length < slots.length) {
+          setError(t('app.mealsNotPlanned', { count: slots.length - meals.length }));
+        }
+      } catch (err) {
+        setError(describeError(err, t, 'error.mealPlanFailed'));
+      } finally {
+        setPendingMealSlots([]);
+      }
+    };
     
     const renderContent = () => {
       if(appState === 'initial' || appState === 'analyzing') {
         return (
           <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
-              <ImageUploader onImageUpload={handleImageUpload} isAnalyzing={appState === 'analyzing'} />
+              <ImageUploader
+                onImagesUpload={handleImagesUpload}
+                isAnalyzing={appState === 'analyzing'}
+                location={scanLocation}
+                onLocationChange={setScanLocation}
+                locale={locale}
+              />
+              {appState === 'initial' && (
+                <div className="flex gap-6 mt-4">
+                  {pantry.length > 0 && (
+                    <button onClick={() => setAppState('pantry')} className="text-blue-600 font-medium hover:underline">
+                      {t('app.viewPantry')}
+                    </button>
+                  )}
+                  {shoppingList.length > 0 && (
+                    <button onClick={() => setIsShoppingListOpen(true)} className="text-blue-600 font-medium hover:underline">
+                      {t('app.shoppingList', { count: shoppingList.length })}
+                    </button>
+                  )}
+                  <button onClick={openLibrary} className="text-blue-600 font-medium hover:underline">
+                    {t('app.savedRecipes', { count: library.length })}
+                  </button>
+                  {cookingHistory.length > 0 && (
+                    <button onClick={openHistory} className="text-blue-600 font-medium hover:underline">
+                      {t('app.cookingHistory', { count: cookingHistory.length })}
+                    </button>
+                  )}
+                  {(pantry.length > 0 || mealPlan) && (
+                    <button onClick={openPlanner} className="text-blue-600 font-medium hover:underline">
+                      {t('app.mealPlan')}
+                    </button>
+                  )}
+                  <button onClick={() => setIsProfilesOpen(true)} className="text-blue-600 font-medium hover:underline">
+                    {t('app.allergies')}
+                  </button>
+                </div>
+              )}
+              {error && <p className="mt-4 text-red-500 bg-red-100 p-3 rounded-md">{error}</p>}
+          </div>
+        );
+      }
+
+      if(appState === 'pantry') {
+        return (
+          <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
+              <PantryView
+                items={pantry}
+                onMarkUsedUp={(id) => setPantry(prev => markUsedUp(prev, id))}
+                onClearUsedUp={() => setPantry(clearUsedUp)}
+                onCookWithPantry={handleCookWithPantry}
+                onScanMore={() => setAppState('initial')}
+                locale={locale}
+              />
+              {error && <p className="mt-4 text-red-500 bg-red-100 p-3 rounded-md">{error}</p>}
+          </div>
+        );
+      }
+
+      if(appState === 'library') {
+        return (
+          <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
+              <RecipeLibrary
+                items={library}
+                ownedIngredients={ownedIngredientNames}
+                onSelect={(saved) => setSelectedRecipe(saved.recipe)}
+                onToggleFavorite={(id) => setLibrary(prev => toggleFavorite(prev, id))}
+                onImport={(recipes) => setLibrary(prev => recipes.reduce((saved, recipe) => saveRecipeToLibrary(saved, recipe), prev))}
+                onBack={() => setAppState(libraryReturnState)}
+                locale={locale}
+              />
+          </div>
+        );
+      }
+
+      if(appState === 'history') {
+        return (
+          <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
+              <CookingHistory
+                entries={cookingHistory}
+                preferences={preferences}
+                onSelect={(entry) => setSelectedRecipe(entry.recipe)}
+                onUpdate={(id, changes) => setCookingHistory(prev => updateCookedRecipe(prev, id, changes))}
+                onRemove={(id) => setCookingHistory(prev => removeCookedRecipe(prev, id))}
+                onBack={() => setAppState(historyReturnState)}
+                locale={locale}
+              />
+          </div>
+        );
+      }
+
+      if(appState === 'planner') {
+        return (
+          <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
+              <MealPlanner
+                plan={mealPlan}
+                ingredients={planIngredients}
+                pendingSlots={pendingMealSlots}
+                onGenerate={handleGenerateMealPlan}
+                onToggleLock={(day, slot) => setMealPlan(prev => prev && toggleMealLock(prev, day, slot))}
+                onSelect={setSelectedRecipe}
+                onAddToShoppingList={() => mealPlan && setShoppingList(prev => addMealPlanToShoppingList(prev, mealPlan, ownedIngredientNames, locale))}
+                onClear={() => setMealPlan(null)}
+                onBack={() => setAppState(plannerReturnState)}
+                locale={locale}
+              />
+              {error && <p className="mt-4 text-red-500 bg-red-100 p-3 rounded-md">{error}</p>}
+          </div>
+        );
+      }
+
+      if(appState === 'reviewing') {
+        return (
+          <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
+              <IngredientReview
+                ingredients={identifiedIngredients}
+                photos={reviewLocation ? scanPhotos : []}
+                onConfirm={handleIngredientsConfirmed}
+                onCancel={() => setAppState('initial')}
+                locale={locale}
+              />
               {error && <p className="mt-4 text-red-500 bg-red-100 p-3 rounded-md">{error}</p>}
           </div>
         );
@@ -175,26 +673,106 @@ const App: React.FC = () => {
       return (
         <div className="min-h-screen bg-gray-100 p-4 sm:p-6 lg:p-8">
             <header className="mb-8 text-center">
-              <h1 className="text-4xl font-extrabold text-gray-800">Your Culinary Companion</h1>
-              <p className="text-lg text-gray-600 mt-2">Discover delicious recipes based on what you have!</p>
+              <h1 className="text-4xl font-extrabold text-gray-800">{t('app.title')}</h1>
+              <p className="text-lg text-gray-600 mt-2">{t('app.subtitle')}</p>
+              <div className="flex justify-center gap-6 mt-4">
+                <button onClick={() => setAppState('reviewing')} disabled={appState === 'generating'} className="text-blue-600 font-medium hover:underline disabled:text-gray-400 disabled:no-underline">
+                  {t('app.editIngredients', { count: identifiedIngredients.length })}
+                </button>
+                <button onClick={() => setAppState('pantry')} disabled={appState === 'generating'} className="text-blue-600 font-medium hover:underline disabled:text-gray-400 disabled:no-underline">
+                  {t('app.myPantry')}
+                </button>
+                <button onClick={() => setIsShoppingListOpen(true)} className="text-blue-600 font-medium hover:underline">
+                  {t('app.shoppingList', { count: shoppingList.length })}
+                </button>
+                <button onClick={openLibrary} disabled={appState === 'generating'} className="text-blue-600 font-medium hover:underline disabled:text-gray-400 disabled:no-underline">
+                  {t('app.savedRecipes', { count: library.length })}
+                </button>
+                <button onClick={openHistory} disabled={appState === 'generating'} className="text-blue-600 font-medium hover:underline disabled:text-gray-400 disabled:no-underline">
+                  {t('app.cookingHistory', { count: cookingHistory.length })}
+                </button>
+                <button onClick={openPlanner} disabled={appState === 'generating'} className="text-blue-600 font-medium hover:underline disabled:text-gray-400 disabled:no-underline">
+                  {t('app.planWeek')}
+                </button>
+              </div>
             </header>
             <div className="flex flex-col md:flex-row gap-8">
-              <Sidebar activeFilters={activeFilters} onFilterChange={handleFilterChange} />
+              <Sidebar
+                activeFilters={activeFilters}
+                onFilterChange={(filters) => handleRequestChange(filters, constraints)}
+                constraints={constraints}
+                onConstraintsChange={(changes) => handleRequestChange(activeFilters, changes)}
+                profiles={exclusionProfiles}
+                onToggleProfile={(id, enabled) => setExclusionProfiles(prev => updateExclusionProfile(prev, id, { enabled }))}
+                onManageProfiles={() => setIsProfilesOpen(true)}
+                t={t}
+              />
               <main className="flex-1">
                   {error && appState === 'results' && <p className="mb-4 text-red-500 bg-red-100 p-3 rounded-md">{error}</p>}
                   
-                  {appState === 'generating' && (
+                  {(appState === 'generating' || (appState === 'results' && !showResults)) && (
                       <div className="flex flex-col items-center justify-center h-96">
                           <div className="w-16 h-16 border-4 border-blue-500 border-dashed rounded-full animate-spin"></div>
-                          <p className="mt-4 text-lg text-gray-600">Finding recipes & creating delicious photos...</p>
+                          <p className="mt-4 text-lg text-gray-600">{appState === 'generating' ? t('app.findingRecipes') : t('app.updatingRecipes')}</p>
                       </div>
                   )}
 
-                  {appState === 'results' && (
+                  {showResults && recipes.length > 0 && (
+                       <ResultsToolbar
+                         sortKey={sortKey}
+                         onSortChange={setSortKey}
+                         filters={nutritionFilters}
+                         onFiltersChange={setNutritionFilters}
+                         shownCount={filteredRecipes.length}
+                         totalCount={recipes.length - excludedCount - (showOutOfBounds ? 0 : outOfBoundsCount)}
+                         locale={locale}
+                       />
+                  )}
+
+                  {showResults && cachedAt && (
+                      <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 bg-blue-50 p-3 rounded-md">
+                        <span>{t('app.cachedRecipes', { date: cachedAt.toLocaleString(LOCALES[locale].languageTag, { dateStyle: 'medium', timeStyle: 'short' }) })}</span>
+                        <button onClick={() => streamRecipes(identifiedIngredients, activeFilters, constraints, 'results', true)} className="text-blue-600 font-medium hover:underline">
+                          {t('app.regenerate')}
+                        </button>
+                      </div>
+                  )}
+
+                  {showResults && excludedCount > 0 && (
+                      <p className="mb-4 text-sm text-gray-600 bg-yellow-50 p-3 rounded-md">
+                        {excludedCount === 1 ? t('app.hiddenRecipe') : t('app.hiddenRecipes', { count: excludedCount })}
+                      </p>
+                  )}
+
+                  {showResults && outOfBoundsCount > 0 && (
+                      <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 bg-yellow-50 p-3 rounded-md">
+                        {!showOutOfBounds && <span>{outOfBoundsCount === 1 ? t('app.outOfBoundsRecipe') : t('app.outOfBoundsRecipes', { count: outOfBoundsCount })}</span>}
+                        <button onClick={() => setShowOutOfBounds(prev => !prev)} className="text-blue-600 font-medium hover:underline">
+                          {showOutOfBounds ? t('app.hideAgain') : t('app.showAnyway')}
+                        </button>
+                      </div>
+                  )}
+
+                  {showResults && (
                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                           {filteredRecipes.map((recipe, index) => <RecipeCard key={index} recipe={recipe} onSelect={() => setSelectedRecipe(recipe)} />)}
+                           {filteredRecipes.map((recipe) => (
+                               <RecipeCard
+                                 key={recipe.name}
+                                 recipe={recipe}
+                                 imageStatus={imageStatus[recipe.name]}
+                                 ownedIngredients={ownedIngredientNames}
+                                 warnings={[...(recipeWarnings.get(recipe) ?? []), ...checkDietaryFit(recipe, activeFilters, t)]}
+                                 onSelect={() => setSelectedRecipe(recipe)}
+                                 onRetryImage={() => generationRef.current && loadRecipeImage(recipe, generationRef.current.signal)}
+                                 t={t}
+                               />
+                           ))}
                        </div>
                   )}
+
+                  {showResults && isStreaming && (
+                      <p className="mt-6 text-center text-gray-500 animate-pulse">{t('app.findingMoreRecipes')}</p>
+                  )}
               </main>
             </div>
         </div>
@@ -203,11 +781,51 @@ const App: React.FC = () => {
 
     return (
         <>
+            <select
+                value={locale}
+                onChange={e => setLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="fixed top-4 right-4 z-40 p-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+                {Object.entries(LOCALES).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            {librarySaveFailed && (
+                <p role="alert" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 max-w-lg text-red-500 bg-red-100 p-3 rounded-md shadow">{t('library.saveFailed')}</p>
+            )}
             {renderContent()}
             <RecipeModal 
                 recipe={selectedRecipe}
                 onClose={() => setSelectedRecipe(null)}
-                ownedIngredients={identifiedIngredients}
+                ownedIngredients={ownedIngredientNames}
+                onAddToShoppingList={(recipe, missing) => setShoppingList(prev => addRecipeToShoppingList(prev, recipe.name, missing))}
+                savedRecipe={selectedSavedRecipe}
+                onSave={(recipe) => setLibrary(prev => saveRecipeToLibrary(prev, recipe))}
+                onUpdateSaved={(id, changes) => setLibrary(prev => updateSavedRecipe(prev, id, changes))}
+                onRemoveSaved={(id) => setLibrary(prev => removeFromLibrary(prev, id))}
+                exclusions={exclusionProfiles}
+                onReplaceRecipe={handleReplaceRecipe}
+                onForkRecipe={handleForkRecipe}
+                lastCooked={selectedLastCooked}
+                onCooked={(recipe, cookedOn, rating) => setCookingHistory(prev => logCookedRecipe(prev, recipe, cookedOn, rating))}
+                locale={locale}
+            />
+            <ShoppingList
+                isOpen={isShoppingListOpen}
+                items={shoppingList}
+                onToggle={(id) => setShoppingList(prev => toggleChecked(prev, id))}
+                onRemove={(id) => setShoppingList(prev => removeItem(prev, id))}
+                onClearChecked={() => setShoppingList(clearChecked)}
+                onClose={() => setIsShoppingListOpen(false)}
+                locale={locale}
+            />
+            <ExclusionProfiles
+                isOpen={isProfilesOpen}
+                profiles={exclusionProfiles}
+                onAdd={(name) => setExclusionProfiles(prev => [...prev, createExclusionProfile(name)])}
+                onUpdate={(id, changes) => setExclusionProfiles(prev => updateExclusionProfile(prev, id, changes))}
+                onRemove={(id) => setExclusionProfiles(prev => removeExclusionProfile(prev, id))}
+                onClose={() => setIsProfilesOpen(false)}
+                locale={locale}
             />
         </>
     );
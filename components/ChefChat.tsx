@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChefMessage, ExclusionProfile, Locale, Recipe } from '../types';
+import { ChefChat as ChefChatSession, startChefChat } from '../services/recipeProvider';
+import { describeRecipeChanges, diffRecipes } from '../services/chefChat';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { MessageKey } from '../services/messages';
+import { describeError } from '../services/errors';
+
+export type ApplyMode = 'replace' | 'fork';
+
+interface ChefChatProps {
+  recipe: Recipe;
+  ownedIngredients: string[];
+  exclusions: ExclusionProfile[];
+  /** Called when the user takes a recipe the chef proposed, either in place of the current one or alongside it. */
+  onApply: (proposal: Recipe, mode: ApplyMode) => void;
+  /** The language the chef answers in. Defaults to English. */
+  locale?: Locale;
+}
+
+const SUGGESTIONS: MessageKey[] = ['chef.suggestMissing', 'chef.suggestDairyFree', 'chef.suggestFaster'];
+
+/**
+ * "Ask the chef" panel for the open recipe. The conversation is started with the recipe as it was
+ * when the first question was asked and carries on from there, including any changes applied since.
+ */
+const ChefChat: React.FC<ChefChatProps> = ({ recipe, ownedIngredients, exclusions, onApply, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [messages, setMessages] = useState<ChefMessage[]>([]);
+  const [applied, setApplied] = useState<Record<number, ApplyMode>>({});
+  const [draft, setDraft] = useState('');
+  const [isWaiting, setIsWaiting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<ChefChatSession | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, isWaiting]);
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || isWaiting) return;
+    setDraft('');
+    setError(null);
+    setMessages(prev => [...prev, { role: 'user', text: message }]);
+    setIsWaiting(true);
+    const controller = new AbortController();
+    requestRef.current = controller;
+    try {
+      sessionRef.current ??= startChefChat(recipe, ownedIngredients, exclusions, locale);
+      const reply = await sessionRef.current.send(message, controller.signal);
+      setMessages(prev => [...prev, reply]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(describeError(err, t, 'error.chefFailed'));
+    } finally {
+      if (!controller.signal.aborted) setIsWaiting(false);
+    }
+  };
+
+  const handleApply = (index: number, proposal: Recipe, mode: ApplyMode) => {
+    setApplied(prev => ({ ...prev, [index]: mode }));
+    onApply(proposal, mode);
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="space-y-3 max-h-80 overflow-y-auto pr-1" aria-live="polite">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(key => t(key)).map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => send(suggestion)}
+                className="text-sm bg-gray-100 text-gray-700 py-1 px-3 rounded-full hover:bg-gray-200 transition"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, index) => (
+          <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] p-3 rounded-2xl whitespace-pre-line ${message.role === 'user' ? 'bg-blue-600 text-white rounded-br-sm' : 'bg-gray-100 text-gray-800 rounded-bl-sm'}`}>
+              <p>{message.text}</p>
+              {message.recipe && (
+                <div className="mt-3 p-3 bg-white rounded-lg border border-yellow-200 text-gray-700">
+                  <p className="font-semibold">{message.recipe.name}</p>
+                  <ul className="mt-1 text-sm list-disc list-inside">
+                    {describeRecipeChanges(diffRecipes(recipe, message.recipe), message.recipe, t).map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                  {applied[index] ? (
+                    <p className="mt-2 text-sm font-medium text-green-600">{applied[index] === 'replace' ? t('chef.recipeUpdated') : t('chef.addedVariation')}</p>
+                  ) : (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <button onClick={() => handleApply(index, message.recipe!, 'replace')} className="text-sm font-medium bg-blue-600 text-white py-1 px-3 rounded-full hover:bg-blue-700 transition">
+                        {t('chef.useVersion')}
+                      </button>
+                      <button onClick={() => handleApply(index, message.recipe!, 'fork')} className="text-sm font-medium text-blue-600 py-1 px-3 rounded-full border border-blue-200 hover:bg-blue-50 transition">
+                        {t('chef.keepBoth')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+        {isWaiting && <p className="text-sm text-gray-500 animate-pulse">{t('chef.thinking')}</p>}
+        <div ref={endRef} />
+      </div>
+      {error && <p className="mt-3 text-sm text-red-500 bg-red-100 p-2 rounded-md">{error}</p>}
+      <form onSubmit={(e) => { e.preventDefault(); send(draft); }} className="mt-3 flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t('chef.placeholder')}
+          aria-label={t('recipe.askChef')}
+          className="flex-1 p-2 border border-gray-300 rounded-full px-4 text-gray-700 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button type="submit" disabled={!draft.trim() || isWaiting} className="bg-blue-600 text-white font-medium py-2 px-5 rounded-full hover:bg-blue-700 transition disabled:bg-gray-300">
+          {t('chef.send')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChefChat;
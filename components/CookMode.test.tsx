@@ -0,0 +1,82 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, cleanup, fireEvent, act } from '@testing-library/react';
+import CookMode from './CookMode';
+import { Recipe } from '../types';
+
+const recipe: Recipe = {
+  name: 'Pasta',
+  difficulty: 'Easy',
+  prepTime: '20 minutes',
+  calories: 500,
+  ingredients: [{ name: 'pasta', quantity: '200 g' }],
+  instructions: ['Bring a pot of water to the boil.', 'Cook the pasta for 10 minutes.', 'Drain and serve.'],
+};
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CookMode', () => {
+  it('shows one step at a time', () => {
+    const onExit = vi.fn();
+    render(<CookMode recipe={recipe} onExit={onExit} />);
+    expect(screen.getByText('Step 1 of 3')).toBeTruthy();
+    expect(screen.queryByText(/Drain and serve/)).toBeNull();
+
+    fireEvent.click(screen.getByText('Next'));
+    fireEvent.click(screen.getByText('Next'));
+    expect(screen.getByText('Drain and serve.')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Done'));
+    expect(onExit).toHaveBeenCalled();
+  });
+
+  it('turns durations into timers that count down and ring', () => {
+    vi.useFakeTimers();
+    // jsdom has no Web Audio, so the alarm beep only logs.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<CookMode recipe={recipe} onExit={() => {}} />);
+    fireEvent.click(screen.getByText('Next'));
+
+    fireEvent.click(screen.getByTitle('Start a timer'));
+    expect(screen.getByText('10:00')).toBeTruthy();
+
+    act(() => { vi.advanceTimersByTime(61_000); });
+    expect(screen.getByText('8:59')).toBeTruthy();
+
+    act(() => { vi.advanceTimersByTime(9 * 60_000); });
+    expect(screen.getByText("Time's up!")).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Dismiss Step 2: 10 minutes timer'));
+    expect(screen.queryByText("Time's up!")).toBeNull();
+  });
+
+  it('rings once when a timer finishes and repeats until it is dismissed', () => {
+    vi.useFakeTimers();
+    const oscillator = { frequency: {}, connect: () => {}, start: () => {}, stop: () => {} };
+    const AudioContext = vi.fn(() => ({ currentTime: 0, destination: {}, createOscillator: () => oscillator, close: () => {} }));
+    vi.stubGlobal('AudioContext', AudioContext);
+    render(<CookMode recipe={recipe} onExit={() => {}} />);
+    fireEvent.click(screen.getByText('Next'));
+    fireEvent.click(screen.getByTitle('Start a timer'));
+
+    act(() => { vi.advanceTimersByTime(10 * 60_000); });
+    expect(AudioContext).toHaveBeenCalledTimes(1);
+
+    // Starting another timer doesn't ring the finished one again.
+    fireEvent.click(screen.getByTitle('Start a timer'));
+    act(() => { vi.advanceTimersByTime(4_000); });
+    expect(AudioContext).toHaveBeenCalledTimes(1);
+    act(() => { vi.advanceTimersByTime(1_000); });
+    expect(AudioContext).toHaveBeenCalledTimes(2);
+
+    fireEvent.click(screen.getAllByLabelText('Dismiss Step 2: 10 minutes timer')[0]);
+    act(() => { vi.advanceTimersByTime(20_000); });
+    expect(AudioContext).toHaveBeenCalledTimes(2);
+    // jsdom has no Web Audio of its own to restore.
+    vi.stubGlobal('AudioContext', undefined);
+  });
+});
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Locale, Recipe } from '../types';
+import { CookTimer, collectFinishedTimers, describeDuration, extractDurations, formatCountdown, parseVoiceCommand, startTimer, VoiceCommand } from '../services/cookMode';
+import { createTranslator, createUtterance, DEFAULT_LOCALE, LOCALES } from '../services/i18n';
+import { ClockIcon, MicrophoneIcon, XIcon } from './icons';
+
+interface CookModeProps {
+  recipe: Recipe;
+  onExit: () => void;
+  /** The language for the labels and the voice that reads the steps. Defaults to English. */
+  locale?: Locale;
+}
+
+// The Web Speech recognition API is still prefixed in Chromium and missing from TypeScript's DOM types.
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = () => {
+  const speechWindow = window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const speak = (text: string, locale: Locale) => {
+  speechSynthesis.cancel();
+  speechSynthesis.speak(createUtterance(text, locale));
+};
+
+/** How often a finished timer beeps again until it is dismissed. */
+const ALARM_REPEAT_MS = 5000;
+
+/** Three short beeps, loud enough to hear over a running extractor fan. */
+const playAlarm = () => {
+  try {
+    const context = new AudioContext();
+    [0, 0.3, 0.6].forEach(offset => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = 880;
+      oscillator.connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.15);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error("Could not play timer alarm:", error);
+  }
+};
+
+const CookMode: React.FC<CookModeProps> = ({ recipe, onExit, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [isListening, setIsListening] = useState(false);
+  const [voiceMessage, setVoiceMessage] = useState<string | null>(null);
+  const commandHandlerRef = useRef<(command: VoiceCommand) => void>(() => {});
+
+  const step = recipe.instructions[stepIndex];
+  const isLastStep = stepIndex === recipe.instructions.length - 1;
+
+  useEffect(() => {
+    speak(t('recipe.spokenStep', { step: stepIndex + 1, text: recipe.instructions[stepIndex] }), locale);
+  }, [stepIndex, recipe, locale]);
+
+  useEffect(() => () => speechSynthesis.cancel(), []);
+
+  const goTo = useCallback((index: number) => {
+    setStepIndex(Math.min(Math.max(index, 0), recipe.instructions.length - 1));
+  }, [recipe]);
+
+  const addTimer = (label: string, seconds: number) => {
+    setTimers(prev => startTimer(prev, label, seconds));
+    setNow(Date.now());
+  };
+
+  commandHandlerRef.current = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'next': goTo(stepIndex + 1); break;
+      case 'back': goTo(stepIndex - 1); break;
+      case 'repeat': speak(t('recipe.spokenStep', { step: stepIndex + 1, text: step }), locale); break;
+      case 'exit': onExit(); break;
+      case 'timer':
+        addTimer(describeDuration(command.seconds, t), command.seconds);
+        speak(t('cook.timerSet', { duration: describeDuration(command.seconds, t) }), locale);
+        break;
+    }
+  };
+
+  // Recognition stops by itself after a pause in speech, so it is restarted until the user turns it off.
+  useEffect(() => {
+    if (!isListening) return;
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+    let active = true;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = LOCALES[locale].languageTag;
+    recognition.onresult = (event) => {
+      const transcript = event.results[event.results.length - 1][0].transcript;
+      const command = parseVoiceCommand(transcript, locale);
+      setVoiceMessage(t(command ? 'cook.heard' : 'cook.notACommand', { transcript: transcript.trim() }));
+      if (command) commandHandlerRef.current(command);
+    };
+    recognition.onerror = (event) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        active = false;
+        setIsListening(false);
+        setVoiceMessage(t('cook.microphoneDenied'));
+      }
+    };
+    recognition.onend = () => {
+      if (active) recognition.start();
+    };
+    recognition.start();
+    return () => {
+      active = false;
+      recognition.stop();
+    };
+  }, [isListening, locale]);
+
+  // Keep the screen awake while cooking. The lock is dropped whenever the tab is hidden, so take it again on return.
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    const requestLock = () => {
+      if (document.visibilityState !== 'visible') return;
+      navigator.wakeLock.request('screen').then(lock => { sentinel = lock; }).catch(error => console.error("Could not keep the screen awake:", error));
+    };
+    requestLock();
+    document.addEventListener('visibilitychange', requestLock);
+    return () => {
+      document.removeEventListener('visibilitychange', requestLock);
+      sentinel?.release();
+    };
+  }, []);
+
+  const hasTimers = timers.length > 0;
+  useEffect(() => {
+    if (!hasTimers) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasTimers]);
+
+  // Each timer rings once as it finishes, then the alarm repeats until every finished timer is dismissed.
+  const alarmRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  useEffect(() => {
+    const { timers: updated, finished } = collectFinishedTimers(timers, now);
+    if (finished.length === 0) return;
+    setTimers(updated);
+    speak(t('cook.timerDone', { labels: finished.map(timer => timer.label).join(` ${t('changes.and')} `) }), locale);
+    playAlarm();
+    alarmRef.current ??= setInterval(playAlarm, ALARM_REPEAT_MS);
+  }, [now, timers]);
+
+  const isRinging = timers.some(timer => timer.rang);
+  useEffect(() => {
+    if (isRinging) return;
+    clearInterval(alarmRef.current);
+    alarmRef.current = undefined;
+  }, [isRinging]);
+
+  useEffect(() => () => clearInterval(alarmRef.current), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') goTo(stepIndex + 1);
+      if (event.key === 'ArrowLeft') goTo(stepIndex - 1);
+      if (event.key === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, stepIndex, onExit]);
+
+  const renderStep = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const duration of extractDurations(step, locale)) {
+      parts.push(step.slice(position, duration.index));
+      parts.push(
+        <button
+          key={duration.index}
+          onClick={() => addTimer(t('cook.stepTimer', { step: stepIndex + 1, duration: duration.text }), duration.seconds)}
+          className="inline-flex items-center gap-1 px-2 rounded-lg bg-blue-100 text-blue-700 hover:bg-blue-200 transition"
+          title={t('cook.startTimer')}
+        >
+          <ClockIcon className="w-6 h-6" /> {duration.text}
+        </button>
+      );
+      position = duration.index + duration.text.length;
+    }
+    parts.push(step.slice(position));
+    return parts;
+  };
+
+  const supportsVoice = !!getSpeechRecognition();
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 text-white z-[60] flex flex-col">
+      <div className="p-4 flex justify-between items-center border-b border-gray-700">
+        <h2 className="text-xl font-bold truncate">{recipe.name}</h2>
+        <div className="flex items-center gap-4">
+          {supportsVoice && (
+            <button
+              onClick={() => { setIsListening(prev => !prev); setVoiceMessage(null); }}
+              className={`flex items-center gap-2 py-2 px-4 rounded-full font-medium transition ${isListening ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              <MicrophoneIcon className="w-5 h-5" /> {isListening ? t('cook.listening') : t('cook.voiceControl')}
+            </button>
+          )}
+          <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors" aria-label={t('cook.exit')}>
+            <XIcon />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+        <p className="text-gray-400 text-lg mb-4">{t('cook.stepOf', { step: stepIndex + 1, total: recipe.instructions.length })}</p>
+        <p className="text-3xl md:text-5xl leading-snug max-w-4xl">{renderStep()}</p>
+        {isListening && <p className="mt-8 text-gray-400">{t('cook.voiceHint')}</p>}
+        {voiceMessage && <p className="mt-2 text-gray-500 text-sm">{voiceMessage}</p>}
+      </div>
+
+      {hasTimers && (
+        <div className="px-4 pb-4 flex flex-wrap justify-center gap-3">
+          {timers.map(timer => (
+            <div key={timer.id} className={`flex items-center gap-3 py-2 px-4 rounded-full ${timer.rang ? 'bg-red-600 animate-pulse' : 'bg-gray-800'}`}>
+              <span className="text-sm text-gray-300">{timer.label}</span>
+              <span className="font-mono text-xl">{timer.rang ? t('cook.timesUp') : formatCountdown((timer.endsAt - now) / 1000)}</span>
+              <button onClick={() => setTimers(prev => prev.filter(t => t.id !== timer.id))} className="text-gray-300 hover:text-white" aria-label={t('cook.dismissTimer', { label: timer.label })}>
+                <XIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 grid grid-cols-2 gap-4 border-t border-gray-700">
+        <button onClick={() => goTo(stepIndex - 1)} disabled={stepIndex === 0} className="py-6 rounded-2xl bg-gray-800 text-2xl font-bold hover:bg-gray-700 transition disabled:opacity-40">
+          {t('cook.back')}
+        </button>
+        <button onClick={() => (isLastStep ? onExit() : goTo(stepIndex + 1))} className="py-6 rounded-2xl bg-blue-600 text-2xl font-bold hover:bg-blue-700 transition">
+          {isLastStep ? t('cook.done') : t('cook.next')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CookMode;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Locale } from '../types';
+import { toDateKey } from '../services/mealPlan';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { StarIcon } from './icons';
+
+interface CookedItFormProps {
+  onSubmit: (cookedOn: string, rating?: number) => void;
+  onCancel: () => void;
+  locale?: Locale;
+}
+
+/** Asks when a dish was cooked, today unless changed, and how it turned out. The rating is optional. */
+const CookedItForm: React.FC<CookedItFormProps> = ({ onSubmit, onCancel, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const today = toDateKey(new Date());
+  const [cookedOn, setCookedOn] = useState(today);
+  const [rating, setRating] = useState<number | undefined>(undefined);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-green-50 border border-green-100 flex flex-wrap items-center gap-4">
+      <label className="flex items-center gap-2 text-gray-700 font-medium">
+        {t('recipe.cookedOn')}
+        <input
+          type="date"
+          value={cookedOn}
+          max={today}
+          onChange={e => setCookedOn(e.target.value || today)}
+          className="p-1.5 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+      </label>
+      <div className="flex items-center gap-2">
+        <span className="text-gray-700 font-medium">{t('recipe.howWasIt')}</span>
+        <div className="flex items-center gap-0.5 text-yellow-400" role="radiogroup" aria-label={t('recipe.howWasIt')}>
+          {[1, 2, 3, 4, 5].map(star => (
+            <button
+              key={star}
+              role="radio"
+              aria-checked={rating === star}
+              aria-label={t('recipe.stars', { count: star })}
+              onClick={() => setRating(prev => (prev === star ? undefined : star))}
+              className="hover:scale-110 transition"
+            >
+              <StarIcon filled={(rating ?? 0) >= star} />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-3 ml-auto">
+        <button onClick={onCancel} className="text-sm text-gray-500 font-medium hover:text-gray-700 transition">
+          {t('recipe.cancel')}
+        </button>
+        <button onClick={() => onSubmit(cookedOn, rating)} className="text-sm font-medium bg-green-600 text-white py-1.5 px-4 rounded-full hover:bg-green-700 transition">
+          {t('recipe.logCooked')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CookedItForm;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { CookedRecipe, CookingPreferences, Locale } from '../types';
+import { CookedRecipeChanges, hasCookingPreferences } from '../services/cookingHistory';
+import { createTranslator, DEFAULT_LOCALE, LOCALES, Translate } from '../services/i18n';
+import { HistoryIcon, StarIcon, TrashIcon } from './icons';
+
+interface CookingHistoryProps {
+  entries: CookedRecipe[];
+  /** What the history says about the user's taste, as sent along with recipe requests. */
+  preferences: CookingPreferences;
+  onSelect: (entry: CookedRecipe) => void;
+  onUpdate: (id: string, changes: CookedRecipeChanges) => void;
+  onRemove: (id: string) => void;
+  onBack: () => void;
+  locale?: Locale;
+}
+
+const formatCookedOn = (cookedOn: string, locale: Locale) =>
+  new Date(`${cookedOn}T00:00:00`).toLocaleDateString(LOCALES[locale].languageTag, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const LearnedPreferences: React.FC<{ preferences: CookingPreferences; t: Translate }> = ({ preferences, t }) => {
+  const { favoriteCuisines, dislikedIngredients, prepTimeBudget, recentDishes } = preferences;
+  if (!hasCookingPreferences(preferences)) {
+    return <p className="text-sm text-gray-600">{t('history.learning')}</p>;
+  }
+  return (
+    <ul className="text-sm text-gray-700 space-y-1 list-disc list-inside">
+      {favoriteCuisines.length > 0 && <li>{t('history.favoriteCuisines')} <span className="font-medium capitalize">{favoriteCuisines.join(', ')}</span></li>}
+      {dislikedIngredients.length > 0 && <li>{t('history.dislikedIngredients')} <span className="font-medium">{dislikedIngredients.join(', ')}</span></li>}
+      {prepTimeBudget !== undefined && <li>{t('history.prepTimeBudget')} <span className="font-medium">{t('history.minutes', { minutes: prepTimeBudget })}</span></li>}
+      {recentDishes.length > 0 && <li>{t('history.recentDishes')} <span className="font-medium">{recentDishes.join(', ')}</span></li>}
+    </ul>
+  );
+};
+
+/** The dishes logged with "Cooked it", newest first, and the preferences learned from them. */
+const CookingHistory: React.FC<CookingHistoryProps> = ({ entries, preferences, onSelect, onUpdate, onRemove, onBack, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  return (
+    <div className="w-full max-w-3xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+      <div className="text-center mb-6">
+        <HistoryIcon className="mx-auto h-12 w-12 text-blue-500 mb-3" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('history.title')}</h2>
+        <p className="text-gray-600">{t('history.subtitle')}</p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">{t('history.empty')}</p>
+      ) : (
+        <>
+          <div className="mb-6 p-4 rounded-lg bg-blue-50 border border-blue-100">
+            <h3 className="font-semibold text-gray-800 mb-2">{t('history.learned')}</h3>
+            <LearnedPreferences preferences={preferences} t={t} />
+          </div>
+
+          <ul className="divide-y divide-gray-100 mb-6">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex flex-wrap items-center gap-4 py-3">
+                <span className="w-36 text-sm text-gray-500">{formatCookedOn(entry.cookedOn, locale)}</span>
+                <button onClick={() => onSelect(entry)} className="flex-1 text-left font-medium text-gray-800 hover:text-blue-600 transition">
+                  {entry.recipe.name}
+                  {entry.recipe.cuisine && <span className="ml-2 text-xs text-gray-500 font-normal">{entry.recipe.cuisine}</span>}
+                </button>
+                <div className="flex items-center gap-0.5 text-yellow-400" role="radiogroup" aria-label={t('history.rating', { name: entry.recipe.name })}>
+                  {[1, 2, 3, 4, 5].map(star => (
+                    <button
+                      key={star}
+                      role="radio"
+                      aria-checked={entry.rating === star}
+                      aria-label={star === 1 ? t('notes.star') : t('notes.stars', { count: star })}
+                      onClick={() => onUpdate(entry.id, { rating: entry.rating === star ? undefined : star })}
+                      className="hover:scale-110 transition"
+                    >
+                      <StarIcon className="w-4 h-4" filled={(entry.rating ?? 0) >= star} />
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => onRemove(entry.id)} className="text-gray-400 hover:text-red-500 transition" aria-label={t('history.remove', { name: entry.recipe.name })}>
+                  <TrashIcon />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button onClick={onBack} className="text-gray-600 font-medium hover:text-gray-800 transition">{t('common.back')}</button>
+    </div>
+  );
+};
+
+export default CookingHistory;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Allergen, ExclusionProfile, Locale } from '../types';
+import { normalizeItemName } from '../services/pantryService';
+import { createTranslator, DEFAULT_LOCALE, Translate } from '../services/i18n';
+import { PlusIcon, TrashIcon, XIcon } from './icons';
+
+interface ExclusionProfilesProps {
+  isOpen: boolean;
+  profiles: ExclusionProfile[];
+  onAdd: (name: string) => void;
+  onUpdate: (id: string, changes: Partial<Omit<ExclusionProfile, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+  locale?: Locale;
+}
+
+const allergens = Object.values(Allergen);
+
+const ProfileEditor: React.FC<{ profile: ExclusionProfile; t: Translate } & Pick<ExclusionProfilesProps, 'onUpdate' | 'onRemove'>> = ({ profile, t, onUpdate, onRemove }) => {
+  const [newIngredient, setNewIngredient] = useState('');
+
+  const toggleAllergen = (allergen: Allergen) => {
+    const updated = profile.allergens.includes(allergen)
+      ? profile.allergens.filter(a => a !== allergen)
+      : [...profile.allergens, allergen];
+    onUpdate(profile.id, { allergens: updated });
+  };
+
+  const handleAddIngredient = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeItemName(newIngredient);
+    if (name && !profile.avoidIngredients.includes(name)) {
+      onUpdate(profile.id, { avoidIngredients: [...profile.avoidIngredients, name] });
+    }
+    setNewIngredient('');
+  };
+
+  return (
+    <section className={`mb-4 p-4 rounded-lg border ${profile.enabled ? 'border-gray-200 bg-gray-50' : 'border-gray-100 bg-white opacity-60'}`}>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <input
+          value={profile.name}
+          onChange={e => onUpdate(profile.id, { name: e.target.value })}
+          aria-label={t('profiles.name')}
+          className="text-lg font-semibold text-gray-800 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none"
+        />
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer text-gray-700">
+            <input type="checkbox" className="h-4 w-4 rounded border-gray-300 text-blue-600" checked={profile.enabled} onChange={e => onUpdate(profile.id, { enabled: e.target.checked })} />
+            {t('profiles.active')}
+          </label>
+          <button onClick={() => onRemove(profile.id)} className="text-gray-400 hover:text-red-500 transition" aria-label={t('profiles.delete', { name: profile.name })}>
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {allergens.map(allergen => (
+          <button
+            key={allergen}
+            onClick={() => toggleAllergen(allergen)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition ${profile.allergens.includes(allergen) ? 'bg-red-500 text-white' : 'bg-white text-gray-600 border border-gray-300 hover:border-red-300'}`}
+          >
+            {t(`allergen.${allergen}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {profile.avoidIngredients.map(name => (
+          <span key={name} className="flex items-center gap-1 px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 text-sm">
+            {name}
+            <button onClick={() => onUpdate(profile.id, { avoidIngredients: profile.avoidIngredients.filter(n => n !== name) })} aria-label={t('profiles.stopAvoiding', { name })}>
+              <XIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddIngredient} className="flex items-center gap-1">
+          <input
+            value={newIngredient}
+            onChange={e => setNewIngredient(e.target.value)}
+            placeholder={t('profiles.avoidPlaceholder')}
+            className="py-1 px-2 text-sm border border-gray-300 rounded-md"
+          />
+          <button type="submit" className="text-blue-600 hover:text-blue-800" aria-label={t('profiles.addAvoided')}>
+            <PlusIcon />
+          </button>
+        </form>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+        <input type="checkbox" className="h-4 w-4 rounded border-gray-300 text-blue-600" checked={profile.strict} onChange={e => onUpdate(profile.id, { strict: e.target.checked })} />
+        {t('profiles.strict')}
+      </label>
+    </section>
+  );
+};
+
+/** Manages the household's allergy and dislike profiles. */
+const ExclusionProfiles: React.FC<ExclusionProfilesProps> = ({ isOpen, profiles, onAdd, onUpdate, onRemove, onClose, locale = DEFAULT_LOCALE }) => {
+  if (!isOpen) return null;
+  const t = createTranslator(locale);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 transition-opacity duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-up">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-3xl font-bold text-gray-800">{t('profiles.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <XIcon />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          <p className="text-gray-600 mb-4">{t('profiles.intro')}</p>
+          {profiles.map(profile => <ProfileEditor key={profile.id} profile={profile} t={t} onUpdate={onUpdate} onRemove={onRemove} />)}
+          <button onClick={() => onAdd(profiles.length === 0 ? t('profiles.defaultName') : t('profiles.numberedName', { number: profiles.length + 1 }))} className="flex items-center gap-1 text-blue-600 font-medium hover:text-blue-800 transition">
+            <PlusIcon /> {t('profiles.add')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExclusionProfiles;
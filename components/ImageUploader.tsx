@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Locale, StorageLocation } from '../types';
+import { readFileAsDataURL } from '../services/fileUtils';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { FridgeIcon, XIcon } from './icons';
+
+export interface UploadedPhoto {
+  label: string;
+  file: File;
+  previewUrl: string;
+}
+
+interface ImageUploaderProps {
+  onImagesUpload: (photos: UploadedPhoto[]) => void;
+  isAnalyzing: boolean;
+  location: StorageLocation;
+  onLocationChange: (location: StorageLocation) => void;
+  locale?: Locale;
+}
+
+const storageLocations = Object.values(StorageLocation);
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesUpload, isAnalyzing, location, onLocationChange, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [photoCounter, setPhotoCounter] = useState(0);
+
+  const addFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    const previews = await Promise.all(files.map(readFileAsDataURL));
+    setPhotos(prev => [
+      ...prev,
+      ...files.map((file, index) => ({ label: t('upload.photoLabel', { number: photoCounter + index + 1 }), file, previewUrl: previews[index] })),
+    ]);
+    setPhotoCounter(prev => prev + files.length);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(event.target.files);
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!isAnalyzing) addFiles(event.dataTransfer.files);
+  };
+
+  const handleRemove = (label: string) => {
+    setPhotos(prev => prev.filter(photo => photo.label !== label));
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`w-full max-w-2xl mx-auto p-8 bg-white rounded-2xl shadow-lg border text-center transition ${isDragging ? 'border-blue-500 border-dashed ring-4 ring-blue-100' : 'border-gray-200'}`}
+    >
+      <FridgeIcon className="mx-auto h-16 w-16 text-blue-500 mb-4" />
+      <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('upload.title')}</h2>
+      <p className="text-gray-600 mb-6">{t('upload.subtitle')}</p>
+      <div className="flex justify-center gap-2 mb-6">
+        {storageLocations.map(option => (
+          <button
+            key={option}
+            onClick={() => onLocationChange(option)}
+            disabled={isAnalyzing}
+            className={`py-1 px-4 rounded-full font-medium transition ${option === location ? 'bg-blue-100 text-blue-700 ring-2 ring-blue-400' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            {t(`location.${option}`)}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center gap-3">
+        <label htmlFor="file-upload" className="cursor-pointer inline-block bg-blue-600 text-white font-bold py-3 px-8 rounded-full hover:bg-blue-700 transition-all duration-300 transform hover:scale-105 shadow-md">
+          {t('upload.uploadPhotos', { location: t(`location.${location as StorageLocation}`) })}
+        </label>
+        <input id="file-upload" type="file" accept="image/*" multiple className="hidden" onChange={handleFileChange} disabled={isAnalyzing} />
+        <label htmlFor="camera-capture" className="cursor-pointer inline-block bg-white text-blue-600 font-bold py-3 px-8 rounded-full border-2 border-blue-600 hover:bg-blue-50 transition-all duration-300 shadow-md">
+          {t('upload.takePhoto')}
+        </label>
+        <input id="camera-capture" type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFileChange} disabled={isAnalyzing} />
+      </div>
+      <p className="text-sm text-gray-400 mt-3">{t('upload.dragAndDrop')}</p>
+
+      {photos.length > 0 && (
+        <div className="mt-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+            {photos.map(photo => (
+              <div key={photo.label} className="relative">
+                <img src={photo.previewUrl} alt={photo.label} className="w-full h-32 object-cover rounded-lg shadow-md" />
+                <span className="absolute bottom-1 left-1 text-xs font-semibold text-white bg-black/60 px-2 py-0.5 rounded">{photo.label}</span>
+                {!isAnalyzing && (
+                  <button onClick={() => handleRemove(photo.label)} className="absolute top-1 right-1 text-white bg-black/60 rounded-full p-0.5 hover:bg-black/80" aria-label={t('upload.removePhoto', { label: photo.label })}>
+                    <XIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => onImagesUpload(photos)}
+            disabled={isAnalyzing}
+            className="bg-green-600 text-white font-bold py-3 px-8 rounded-full hover:bg-green-700 transition-all duration-300 shadow-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isAnalyzing ? t('upload.analyzing') : photos.length === 1 ? t('upload.analyzePhoto') : t('upload.analyzePhotos', { count: photos.length })}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageUploader;
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { InventoryItem, IngredientCategory, Locale } from '../types';
+import { itemKey, mergeInventoryItems } from '../services/pantryService';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { UploadedPhoto } from './ImageUploader';
+import { FridgeIcon, TrashIcon, PlusIcon } from './icons';
+
+interface IngredientReviewProps {
+  ingredients: InventoryItem[];
+  photos?: UploadedPhoto[];
+  onConfirm: (ingredients: InventoryItem[]) => void;
+  onCancel: () => void;
+  locale?: Locale;
+}
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const categoryOptions = Object.values(IngredientCategory);
+
+const getShelfLifeColor = (days: number) => {
+  if (days <= 2) return 'bg-red-100 text-red-700';
+  if (days <= 5) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-green-100 text-green-700';
+};
+
+const IngredientReview: React.FC<IngredientReviewProps> = ({ ingredients, photos = [], onConfirm, onCancel, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [items, setItems] = useState<InventoryItem[]>(ingredients);
+  const [newItem, setNewItem] = useState('');
+
+  const duplicateCount = useMemo(() => {
+    const names = items.filter(item => item.name.trim()).map(item => itemKey(item.name));
+    return names.length - new Set(names).size;
+  }, [items]);
+
+  // Any edit by the user counts as confirming the item, so it is no longer flagged.
+  const updateItem = (index: number, changes: Partial<InventoryItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes, confidence: 1 } : item)));
+  };
+
+  const handleDelete = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newItem.trim()) return;
+    setItems(prev => [...prev, { name: newItem, quantity: 1, unit: '', category: IngredientCategory.Other, confidence: 1 }]);
+    setNewItem('');
+  };
+
+  const finalIngredients = mergeInventoryItems(items);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+      <div className="text-center mb-6">
+        <FridgeIcon className="mx-auto h-12 w-12 text-blue-500 mb-3" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('review.title')}</h2>
+        <p className="text-gray-600">{t('review.subtitle')}</p>
+      </div>
+
+      <ul className="space-y-2 mb-4">
+        {items.map((item, index) => {
+          const isUncertain = item.confidence < LOW_CONFIDENCE_THRESHOLD;
+          return (
+            <li key={index} className={`p-2 rounded-md ${isUncertain ? 'bg-yellow-50 ring-1 ring-yellow-300' : ''}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={(e) => updateItem(index, { name: e.target.value })}
+                  className="flex-1 min-w-0 p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={item.quantity}
+                  onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                  className="w-20 p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  aria-label={t('review.quantityOf', { name: item.name })}
+                />
+                <input
+                  type="text"
+                  value={item.unit}
+                  onChange={(e) => updateItem(index, { unit: e.target.value })}
+                  placeholder={t('review.unit')}
+                  className="w-24 p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  aria-label={t('review.unitOf', { name: item.name })}
+                />
+                <select
+                  value={item.category}
+                  onChange={(e) => updateItem(index, { category: e.target.value as IngredientCategory })}
+                  className="w-32 p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  aria-label={t('review.categoryOf', { name: item.name })}
+                >
+                  {categoryOptions.map(option => <option key={option} value={option}>{t(`category.${option}`)}</option>)}
+                </select>
+                <button onClick={() => handleDelete(index)} className="text-gray-400 hover:text-red-500 transition" aria-label={t('review.remove', { name: item.name })}>
+                  <TrashIcon />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                {item.sourceImages?.map(label => {
+                  const photo = photos.find(p => p.label === label);
+                  return (
+                    <span key={label} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                      {photo && <img src={photo.previewUrl} alt="" className="w-4 h-4 rounded-sm object-cover" />}
+                      {label}
+                    </span>
+                  );
+                })}
+                {item.shelfLifeDays !== undefined && (
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${getShelfLifeColor(item.shelfLifeDays)}`}>
+                    {item.shelfLifeDays === 1 ? t('review.useWithinDay') : t('review.useWithinDays', { days: item.shelfLifeDays })}
+                  </span>
+                )}
+                {isUncertain && (
+                  <>
+                    <span className="text-yellow-800">{t('review.notSure', { percent: Math.round(item.confidence * 100) })}</span>
+                    <button onClick={() => updateItem(index, {})} className="font-semibold text-yellow-800 hover:underline">{t('review.looksRight')}</button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+        {items.length === 0 && <li className="text-center text-gray-500 py-4">{t('review.empty')}</li>}
+      </ul>
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2 mb-6">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder={t('review.addPlaceholder')}
+          className="flex-1 p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button type="submit" className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition">
+          <PlusIcon /> {t('review.add')}
+        </button>
+      </form>
+
+      {duplicateCount > 0 && (
+        <div className="flex justify-between items-center mb-6 p-3 bg-yellow-50 text-yellow-800 rounded-md">
+          <span>{duplicateCount === 1 ? t('review.duplicate') : t('review.duplicates', { count: duplicateCount })}</span>
+          <button onClick={() => setItems(mergeInventoryItems(items))} className="font-semibold hover:underline">{t('review.mergeDuplicates')}</button>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button onClick={onCancel} className="text-gray-600 font-medium hover:text-gray-800 transition">{t('review.uploadDifferent')}</button>
+        <button
+          onClick={() => onConfirm(finalIngredients)}
+          disabled={finalIngredients.length === 0}
+          className="bg-blue-600 text-white font-bold py-3 px-8 rounded-full hover:bg-blue-700 transition-all duration-300 shadow-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {t('review.findRecipes')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IngredientReview;
@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+import { InventoryItem, Locale, MealPlan, MealSlot, Recipe } from '../types';
+import { MEAL_SLOTS, MealPlanSlot, PLAN_DAYS, allSlots, findMeal, findPerishableWarnings, mealPlanToICS, planDate, unlockedSlots } from '../services/mealPlan';
+import { downloadFile } from '../services/fileUtils';
+import { createTranslator, DEFAULT_LOCALE, LOCALES } from '../services/i18n';
+import { CalendarIcon, CartIcon, ClockIcon, DownloadIcon, LockIcon, RefreshIcon } from './icons';
+
+interface MealPlannerProps {
+  plan: MealPlan | null;
+  ingredients: InventoryItem[];
+  /** Slots currently being generated. */
+  pendingSlots: MealPlanSlot[];
+  onGenerate: (slots: MealPlanSlot[]) => void;
+  onToggleLock: (day: number, slot: MealSlot) => void;
+  onSelect: (recipe: Recipe) => void;
+  onAddToShoppingList: () => void;
+  onClear: () => void;
+  onBack: () => void;
+  locale?: Locale;
+}
+
+const formatDay = (date: Date, locale: Locale) => date.toLocaleDateString(LOCALES[locale].languageTag, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const MealPlanner: React.FC<MealPlannerProps> = ({ plan, ingredients, pendingSlots, onGenerate, onToggleLock, onSelect, onAddToShoppingList, onClear, onBack, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const warnings = useMemo(() => (plan ? findPerishableWarnings(plan, ingredients) : []), [plan, ingredients]);
+  const isGenerating = pendingSlots.length > 0;
+  const isPending = (day: number, slot: MealSlot) => pendingSlots.some(pending => pending.day === day && pending.slot === slot);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+      <div className="text-center mb-6">
+        <CalendarIcon className="mx-auto h-12 w-12 text-blue-500 mb-3" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('plan.title')}</h2>
+        <p className="text-gray-600">{t('plan.subtitle')}</p>
+      </div>
+
+      {!plan ? (
+        <div className="text-center py-6">
+          {ingredients.length === 0 ? (
+            <p className="text-gray-500">{t('plan.needIngredients')}</p>
+          ) : (
+            <button
+              onClick={() => onGenerate(allSlots())}
+              disabled={isGenerating}
+              className="bg-blue-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400"
+            >
+              {isGenerating ? t('plan.planning') : t('plan.planWith', { count: ingredients.length })}
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap justify-center gap-3 mb-6">
+            <button
+              onClick={() => onGenerate(unlockedSlots(plan))}
+              disabled={isGenerating || unlockedSlots(plan).length === 0}
+              className="flex items-center gap-1 bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 transition disabled:bg-gray-400"
+            >
+              <RefreshIcon /> {t('plan.regenerate')}
+            </button>
+            <button onClick={onAddToShoppingList} disabled={plan.meals.length === 0} className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition disabled:text-gray-400">
+              <CartIcon className="w-5 h-5" /> {t('plan.addToList')}
+            </button>
+            <button onClick={() => downloadFile('meal-plan.ics', mealPlanToICS(plan, new Date(), locale), 'text/calendar')} disabled={plan.meals.length === 0} className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition disabled:text-gray-400">
+              <DownloadIcon /> {t('plan.export')}
+            </button>
+            <button onClick={onClear} disabled={isGenerating} className="text-gray-500 font-medium py-2 px-4 hover:text-red-600 transition disabled:text-gray-300">
+              {t('plan.startOver')}
+            </button>
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="mb-6 text-sm text-yellow-800 bg-yellow-50 p-3 rounded-md space-y-1">
+              {warnings.map(({ item, firstUsedDay }) => (
+                <li key={item.name}>
+                  {firstUsedDay === undefined
+                    ? t('plan.unused', { name: item.name, days: item.shelfLifeDays })
+                    : t('plan.usedLate', { name: item.name, days: item.shelfLifeDays, date: formatDay(planDate(plan, firstUsedDay), locale) })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+            {Array.from({ length: PLAN_DAYS }, (_, day) => (
+              <section key={day} className="flex flex-col gap-2">
+                <h3 className="text-sm font-semibold text-gray-700 text-center border-b pb-1">{formatDay(planDate(plan, day), locale)}</h3>
+                {MEAL_SLOTS.map(slot => {
+                  const meal = findMeal(plan, day, slot);
+                  return (
+                    <div key={slot} className={`p-2 rounded-lg border text-sm ${meal?.locked ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}>
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-semibold uppercase text-gray-500">{t(`slot.${slot}`)}</span>
+                        {meal && (
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() => onToggleLock(day, slot)}
+                              aria-label={t(meal.locked ? 'plan.unlock' : 'plan.lock', { slot: t(`slot.${slot}`), date: formatDay(planDate(plan, day), locale) })}
+                              aria-pressed={meal.locked}
+                              className={meal.locked ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}
+                            >
+                              <LockIcon locked={meal.locked} />
+                            </button>
+                            <button
+                              onClick={() => onGenerate([{ day, slot }])}
+                              disabled={meal.locked || isGenerating}
+                              aria-label={t('plan.swap', { slot: t(`slot.${slot}`), date: formatDay(planDate(plan, day), locale) })}
+                              className="text-gray-400 hover:text-gray-600 disabled:opacity-40"
+                            >
+                              <RefreshIcon />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      {isPending(day, slot) ? (
+                        <p className="text-gray-400 animate-pulse">{t('plan.pending')}</p>
+                      ) : meal ? (
+                        <button onClick={() => onSelect(meal.recipe)} className="text-left w-full">
+                          <span className="block font-medium text-gray-800 hover:text-blue-600">{meal.recipe.name}</span>
+                          <span className="flex items-center gap-1 text-xs text-gray-500 mt-1"><ClockIcon className="w-3 h-3" /> {meal.recipe.prepTime}</span>
+                        </button>
+                      ) : (
+                        <button onClick={() => onGenerate([{ day, slot }])} disabled={isGenerating} className="text-blue-600 hover:underline disabled:text-gray-400">
+                          {t('plan.suggestMeal')}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="mt-8 text-center">
+        <button onClick={onBack} className="text-gray-600 font-medium hover:underline">{t('common.back')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default MealPlanner;
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Locale, PantryItem, StorageLocation } from '../types';
+import { isActive, remainingShelfLife } from '../services/pantryService';
+import { createTranslator, DEFAULT_LOCALE, LOCALES, Translate } from '../services/i18n';
+import { FridgeIcon, TrashIcon } from './icons';
+
+interface PantryViewProps {
+  items: PantryItem[];
+  onMarkUsedUp: (id: string) => void;
+  onClearUsedUp: () => void;
+  onCookWithPantry: () => void;
+  onScanMore: () => void;
+  locale?: Locale;
+}
+
+const locations = Object.values(StorageLocation);
+
+const formatAddedAt = (addedAt: string, locale: Locale) => new Date(addedAt).toLocaleDateString(LOCALES[locale].languageTag, { month: 'short', day: 'numeric' });
+
+const describeShelfLife = (days: number | undefined, t: Translate) => {
+  if (days === undefined) return null;
+  if (days < 0) return { label: t('pantry.spoiled'), className: 'bg-gray-200 text-gray-700' };
+  if (days <= 2) return { label: days === 1 ? t('pantry.useWithinDay') : t('pantry.useWithinDays', { days }), className: 'bg-red-100 text-red-700' };
+  if (days <= 5) return { label: t('pantry.useWithinDays', { days }), className: 'bg-yellow-100 text-yellow-700' };
+  return { label: t('pantry.goodFor', { days }), className: 'bg-green-100 text-green-700' };
+};
+
+const PantryView: React.FC<PantryViewProps> = ({ items, onMarkUsedUp, onClearUsedUp, onCookWithPantry, onScanMore, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const activeItems = useMemo(() => items.filter(isActive), [items]);
+  const usedUpItems = useMemo(() => items.filter(item => !isActive(item)), [items]);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+      <div className="text-center mb-6">
+        <FridgeIcon className="mx-auto h-12 w-12 text-blue-500 mb-3" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('pantry.title')}</h2>
+        <p className="text-gray-600">{t('pantry.subtitle')}</p>
+      </div>
+
+      {activeItems.length === 0 && <p className="text-center text-gray-500 py-4">{t('pantry.empty')}</p>}
+
+      {locations.map(location => {
+        const locationItems = activeItems.filter(item => item.location === location);
+        if (locationItems.length === 0) return null;
+        return (
+          <section key={location} className="mb-6">
+            <h3 className="text-xl font-semibold text-gray-700 border-b pb-2 mb-3">{t(`location.${location}`)} <span className="text-gray-400 text-base">({locationItems.length})</span></h3>
+            <ul className="space-y-2">
+              {locationItems.map(item => {
+                const shelfLife = describeShelfLife(remainingShelfLife(item), t);
+                return (
+                  <li key={item.id} className="flex justify-between items-center p-2 rounded-md bg-gray-50">
+                    <div>
+                      <span className="font-medium text-gray-800">{item.name}</span>
+                      <span className="text-gray-500 text-sm"> ({item.quantity} {item.unit})</span>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                        <span>{t('pantry.added', { date: formatAddedAt(item.addedAt, locale) })}</span>
+                        {shelfLife && <span className={`px-2 py-0.5 rounded-full font-medium ${shelfLife.className}`}>{shelfLife.label}</span>}
+                      </div>
+                    </div>
+                    <button onClick={() => onMarkUsedUp(item.id)} className="text-sm text-gray-600 font-medium hover:text-red-500 transition">
+                      {t('pantry.usedUp')}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+
+      {usedUpItems.length > 0 && (
+        <div className="flex justify-between items-center mb-6 p-3 bg-gray-50 text-gray-600 rounded-md">
+          <span>{usedUpItems.length === 1 ? t('pantry.usedUpItem') : t('pantry.usedUpItems', { count: usedUpItems.length })}</span>
+          <button onClick={onClearUsedUp} className="flex items-center gap-1 font-semibold hover:text-red-500 transition">
+            <TrashIcon className="w-4 h-4" /> {t('pantry.clear')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button onClick={onScanMore} className="text-gray-600 font-medium hover:text-gray-800 transition">{t('pantry.scanMore')}</button>
+        <button
+          onClick={onCookWithPantry}
+          disabled={activeItems.length === 0}
+          className="bg-blue-600 text-white font-bold py-3 px-8 rounded-full hover:bg-blue-700 transition-all duration-300 shadow-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {t('pantry.cookWithEverything')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PantryView;
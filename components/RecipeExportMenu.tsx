@@ -0,0 +1,35 @@
+import React from 'react';
+import { Locale, Recipe } from '../types';
+import { downloadFile, printHTML } from '../services/fileUtils';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { exportFileName, recipesToJsonLd, recipesToMarkdown, recipesToPrintHtml } from '../services/recipeFormats';
+import { DownloadIcon, PrinterIcon } from './icons';
+
+interface RecipeExportMenuProps {
+  recipes: Recipe[];
+  locale?: Locale;
+}
+
+const buttonClass = 'flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-1.5 px-3 rounded-md hover:bg-gray-200 transition disabled:text-gray-400';
+
+/** Downloads the recipes as schema.org JSON-LD or Markdown, or prints them on their own. */
+const RecipeExportMenu: React.FC<RecipeExportMenuProps> = ({ recipes, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const disabled = recipes.length === 0;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-500 font-medium">{recipes.length > 1 ? t('export.labelCount', { count: recipes.length }) : t('export.label')}</span>
+      <button onClick={() => downloadFile(exportFileName(recipes, 'jsonld'), recipesToJsonLd(recipes), 'application/ld+json')} disabled={disabled} className={buttonClass}>
+        <DownloadIcon className="w-4 h-4" /> JSON-LD
+      </button>
+      <button onClick={() => downloadFile(exportFileName(recipes, 'md'), recipesToMarkdown(recipes, t), 'text/markdown')} disabled={disabled} className={buttonClass}>
+        <DownloadIcon className="w-4 h-4" /> Markdown
+      </button>
+      <button onClick={() => printHTML(recipesToPrintHtml(recipes, t))} disabled={disabled} className={buttonClass}>
+        <PrinterIcon className="w-4 h-4" /> {t('export.print')}
+      </button>
+    </div>
+  );
+};
+
+export default RecipeExportMenu;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Difficulty, Locale, Recipe, SavedRecipe } from '../types';
+import { EMPTY_LIBRARY_FILTERS, LibraryFilters, searchLibrary } from '../services/recipeLibrary';
+import { matchRecipeIngredients } from '../services/ingredientMatcher';
+import { parseRecipesJsonLd } from '../services/recipeFormats';
+import { readFileAsText } from '../services/fileUtils';
+import { createTranslator, DEFAULT_LOCALE, Translate } from '../services/i18n';
+import RecipeExportMenu from './RecipeExportMenu';
+import { BookmarkIcon, ClockIcon, FireIcon, HeartIcon, SearchIcon, StarIcon, UploadIcon } from './icons';
+
+interface RecipeLibraryProps {
+  items: SavedRecipe[];
+  ownedIngredients: string[];
+  onSelect: (saved: SavedRecipe) => void;
+  onToggleFavorite: (id: string) => void;
+  /** Saves recipes imported from schema.org JSON-LD files. */
+  onImport: (recipes: Recipe[]) => void;
+  onBack: () => void;
+  locale?: Locale;
+}
+
+const difficulties: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const prepTimeOptions = [15, 30, 45, 60];
+const calorieOptions = [300, 500, 700];
+
+const parseOptionalNumber = (value: string) => (value ? Number(value) : undefined);
+
+const OwnedIngredients: React.FC<{ recipe: Recipe; ownedIngredients: string[]; t: Translate }> = ({ recipe, ownedIngredients, t }) => {
+  const { owned, missing } = matchRecipeIngredients(recipe.ingredients, ownedIngredients);
+  return (
+    <p className="mt-2 text-xs text-gray-500" title={missing.length > 0 ? t('library.missing', { ingredients: missing.map(ing => ing.name).join(', ') }) : undefined}>
+      {t('card.ownedIngredients', { owned: owned.length, total: recipe.ingredients.length })}
+    </p>
+  );
+};
+
+const RecipeLibrary: React.FC<RecipeLibraryProps> = ({ items, ownedIngredients, onSelect, onToggleFavorite, onImport, onBack, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const [importResult, setImportResult] = useState<{ message: string; failed: boolean } | null>(null);
+  const results = useMemo(() => searchLibrary(items, filters), [items, filters]);
+
+  const updateFilters = (changes: Partial<LibraryFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []);
+    event.target.value = '';
+    const parsed = await Promise.all(files.map(async file => {
+      try {
+        return { file, ...parseRecipesJsonLd(await readFileAsText(file)) };
+      } catch (err) {
+        console.error(`Could not read ${file.name}:`, err);
+        return { file, recipes: [], issues: [t('library.unreadable')] };
+      }
+    }));
+    const recipes = parsed.flatMap(result => result.recipes);
+    const problems = parsed.filter(result => result.issues.length > 0).map(result => `${result.file.name}: ${result.issues.join('; ')}`);
+    if (recipes.length > 0) onImport(recipes);
+    const imported = recipes.length === 0 ? t('library.importFailed')
+      : recipes.length === 1 ? t('library.importedRecipe') : t('library.importedRecipes', { count: recipes.length });
+    setImportResult({ message: [imported, ...problems].join(' '), failed: recipes.length === 0 });
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+      <div className="text-center mb-6">
+        <BookmarkIcon className="mx-auto h-12 w-12 text-blue-500 mb-3" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('library.title')}</h2>
+        <p className="text-gray-600">{t('library.subtitle')}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative flex-1 min-w-[12rem]">
+          <SearchIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => updateFilters({ query: e.target.value })}
+            placeholder={t('library.search')}
+            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          aria-label={t('library.difficulty')}
+          value={filters.difficulty ?? ''}
+          onChange={e => updateFilters({ difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+          className="py-2 px-3 border border-gray-300 rounded-md"
+        >
+          <option value="">{t('library.anyDifficulty')}</option>
+          {difficulties.map(difficulty => <option key={difficulty} value={difficulty}>{t(`difficulty.${difficulty}`)}</option>)}
+        </select>
+        <select
+          aria-label={t('library.prepTime')}
+          value={filters.maxPrepMinutes ?? ''}
+          onChange={e => updateFilters({ maxPrepMinutes: parseOptionalNumber(e.target.value) })}
+          className="py-2 px-3 border border-gray-300 rounded-md"
+        >
+          <option value="">{t('library.anyPrepTime')}</option>
+          {prepTimeOptions.map(minutes => <option key={minutes} value={minutes}>{t('library.upToMinutes', { minutes })}</option>)}
+        </select>
+        <select
+          aria-label={t('library.calories')}
+          value={filters.maxCalories ?? ''}
+          onChange={e => updateFilters({ maxCalories: parseOptionalNumber(e.target.value) })}
+          className="py-2 px-3 border border-gray-300 rounded-md"
+        >
+          <option value="">{t('library.anyCalories')}</option>
+          {calorieOptions.map(calories => <option key={calories} value={calories}>{t('library.upToCalories', { calories })}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-gray-700 font-medium cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            checked={filters.favoritesOnly}
+            onChange={e => updateFilters({ favoritesOnly: e.target.checked })}
+          />
+          {t('library.favorites')}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <RecipeExportMenu recipes={results.map(saved => saved.recipe)} locale={locale} />
+        <label className="flex items-center gap-1 text-sm bg-gray-100 text-gray-700 font-medium py-1.5 px-3 rounded-md hover:bg-gray-200 transition cursor-pointer">
+          <UploadIcon className="w-4 h-4" /> {t('library.importJsonLd')}
+          <input type="file" accept=".json,.jsonld,application/ld+json,application/json" multiple onChange={handleImport} className="sr-only" aria-label={t('library.importRecipes')} />
+        </label>
+      </div>
+      {importResult && (
+        <p className={`mb-6 text-sm p-3 rounded-md ${importResult.failed ? 'text-red-500 bg-red-100' : 'text-green-700 bg-green-50'}`}>{importResult.message}</p>
+      )}
+
+      {items.length === 0 && <p className="text-center text-gray-500 py-8">{t('library.empty')}</p>}
+      {items.length > 0 && results.length === 0 && <p className="text-center text-gray-500 py-8">{t('library.noMatches')}</p>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+        {results.map(saved => (
+          <div key={saved.id} onClick={() => onSelect(saved)} className="bg-white rounded-xl shadow-md overflow-hidden cursor-pointer hover:shadow-xl transition-all duration-300 border border-gray-100">
+            <div className="relative h-36 bg-gray-200">
+              <img className="w-full h-full object-cover" src={saved.recipe.imageUrl || `https://picsum.photos/seed/${saved.recipe.name}/400/300`} alt={saved.recipe.name} />
+              <button
+                onClick={e => { e.stopPropagation(); onToggleFavorite(saved.id); }}
+                className="absolute top-2 right-2 p-1.5 rounded-full bg-white/80 text-red-500 hover:bg-white transition"
+                aria-label={t(saved.favorite ? 'library.unfavorite' : 'library.favorite', { name: saved.recipe.name })}
+              >
+                <HeartIcon className="w-5 h-5" filled={saved.favorite} />
+              </button>
+            </div>
+            <div className="p-4">
+              <h3 className="font-bold text-gray-800">{saved.recipe.name}</h3>
+              <div className="flex items-center gap-0.5 mt-1 text-yellow-400">
+                {[1, 2, 3, 4, 5].map(star => <span key={star}><StarIcon className="w-4 h-4" filled={(saved.rating ?? 0) >= star} /></span>)}
+              </div>
+              <div className="flex justify-between items-center mt-2 text-sm text-gray-600">
+                <span>{t(`difficulty.${saved.recipe.difficulty as Difficulty}`)}</span>
+                <span className="flex items-center gap-1"><ClockIcon className="w-4 h-4 text-gray-400" /> {saved.recipe.prepTime}</span>
+                <span className="flex items-center gap-1"><FireIcon className="w-4 h-4 text-gray-400" /> {t('card.calories', { calories: saved.recipe.calories })}</span>
+              </div>
+              <OwnedIngredients recipe={saved.recipe} ownedIngredients={ownedIngredients} t={t} />
+              {saved.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {saved.tags.map(tag => <span key={tag} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs font-medium">#{tag}</span>)}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={onBack} className="text-gray-600 font-medium hover:text-gray-800 transition">{t('common.back')}</button>
+    </div>
+  );
+};
+
+export default RecipeLibrary;
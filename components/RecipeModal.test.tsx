@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
+import RecipeModal from './RecipeModal';
+import { Recipe } from '../types';
+
+const recipe: Recipe = {
+  name: 'Chicken Stir Fry',
+  difficulty: 'Medium',
+  prepTime: '25 minutes',
+  servings: 2,
+  calories: 450,
+  ingredients: [
+    { name: 'Chicken Breast', quantity: '2 pieces' },
+    { name: 'Soy Sauce', quantity: '2 tbsp' },
+    { name: 'Bell Pepper', quantity: '1' },
+  ],
+  instructions: ['Slice everything.', 'Stir fry for 10 minutes.'],
+};
+
+const ingredientRow = (name: string) => screen.getByText(name).closest('li')!;
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.unstubAllEnvs();
+});
+
+describe('RecipeModal owned ingredients', () => {
+  it('marks ingredients that contain an owned ingredient as owned, ignoring case', () => {
+    render(<RecipeModal recipe={recipe} onClose={() => {}} ownedIngredients={['chicken', 'bell pepper']} />);
+    expect(ingredientRow('Chicken Breast').className).toContain('bg-green-50');
+    expect(ingredientRow('Bell Pepper').className).toContain('bg-green-50');
+  });
+
+  it('marks ingredients that are not owned as missing', () => {
+    render(<RecipeModal recipe={recipe} onClose={() => {}} ownedIngredients={['chicken']} />);
+    expect(ingredientRow('Soy Sauce').className).toContain('bg-red-50');
+    expect(ingredientRow('Bell Pepper').className).toContain('bg-red-50');
+  });
+
+  it('renders nothing without a recipe', () => {
+    const { container } = render(<RecipeModal recipe={null} onClose={() => {}} ownedIngredients={[]} />);
+    expect(container.innerHTML).toBe('');
+  });
+});
+
+describe('RecipeModal servings and units', () => {
+  it('rescales ingredient quantities and total calories when servings change', () => {
+    render(<RecipeModal recipe={recipe} onClose={() => {}} ownedIngredients={[]} />);
+    fireEvent.click(screen.getByLabelText('More servings'));
+    fireEvent.click(screen.getByLabelText('More servings'));
+    expect(screen.getByTestId('servings-count').textContent).toBe('4');
+    expect(ingredientRow('Chicken Breast').textContent).toContain('(4 pieces)');
+    expect(ingredientRow('Soy Sauce').textContent).toContain('(4 tbsp)');
+    expect(screen.getByText(/450 calories per serving \(1800 total\)/)).toBeTruthy();
+  });
+
+  it('converts units and remembers the chosen system', () => {
+    const withCups: Recipe = { ...recipe, ingredients: [{ name: 'Rice', quantity: '1 cup' }] };
+    render(<RecipeModal recipe={withCups} onClose={() => {}} ownedIngredients={[]} />);
+    fireEvent.click(screen.getByText('Metric'));
+    expect(ingredientRow('Rice').textContent).toContain('(235 ml)');
+    expect(localStorage.getItem('smart-fridge.unit-system')).toBe('"metric"');
+  });
+});
+
+describe('RecipeModal ask the chef', () => {
+  // Keeps the open recipe in state the way the app does, so that replacing it re-renders the modal.
+  const ChefHarness: React.FC<{ onFork?: (original: Recipe, variation: Recipe) => void }> = ({ onFork = () => {} }) => {
+    const [current, setCurrent] = useState(recipe);
+    return <RecipeModal recipe={current} onClose={() => {}} ownedIngredients={[]} onReplaceRecipe={(_, updated) => setCurrent(updated)} onForkRecipe={onFork} />;
+  };
+
+  const ask = async (question: string) => {
+    fireEvent.change(screen.getByLabelText('Ask the chef'), { target: { value: question } });
+    fireEvent.click(screen.getByText('Send'));
+    return screen.findByText(/Here is Chicken Stir Fry/);
+  };
+
+  it('replaces the recipe with the proposed version and highlights the changes', async () => {
+    vi.stubEnv('RECIPE_PROVIDER', 'mock');
+    render(<ChefHarness />);
+    fireEvent.click(screen.getByRole('button', { name: 'Ask the chef' }));
+    await ask('Could I make it without soy sauce?');
+    expect(screen.getByText('Leaves out Soy Sauce')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Use this version'));
+    expect(screen.queryByText('Soy Sauce')).toBeNull();
+    expect(screen.getByText('Changed by the chef')).toBeTruthy();
+    expect(screen.getByText('Recipe updated')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Dismiss'));
+    expect(screen.queryByText('Changed by the chef')).toBeNull();
+  });
+
+  it('forks the recipe under a new name, keeping the original', async () => {
+    vi.stubEnv('RECIPE_PROVIDER', 'mock');
+    const onFork = vi.fn();
+    render(<ChefHarness onFork={onFork} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Ask the chef' }));
+    await ask('without bell pepper please');
+    fireEvent.click(screen.getByText('Keep both'));
+    expect(onFork).toHaveBeenCalledWith(recipe, expect.objectContaining({ name: 'Chicken Stir Fry (variation)' }));
+    expect(onFork.mock.calls[0][1].ingredients.map((ing: { name: string }) => ing.name)).toEqual(['Chicken Breast', 'Soy Sauce']);
+  });
+
+  it('is only offered when the recipe can be replaced and forked', () => {
+    render(<RecipeModal recipe={recipe} onClose={() => {}} ownedIngredients={[]} />);
+    expect(screen.queryByRole('button', { name: 'Ask the chef' })).toBeNull();
+  });
+});
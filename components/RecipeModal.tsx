@@ -1,19 +1,89 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Recipe, RecipeIngredient } from '../types';
-import { ClockIcon, FireIcon, ChefHatIcon, PlayIcon, PauseIcon, StopIcon, XIcon } from './icons';
+import { Recipe, RecipeIngredient, Difficulty, SavedRecipe, ExclusionProfile, Locale, CookedRecipe } from '../types';
+import { isIngredientOwned } from '../services/ingredientMatcher';
+import { adjustQuantity, loadUnitSystem, saveUnitSystem, UnitSystem } from '../services/quantity';
+import { SavedRecipeChanges } from '../services/recipeLibrary';
+import { NUTRIENTS, formatNutrient } from '../services/nutrition';
+import { RecipeChanges, describeRecipeChanges, diffRecipes, forkRecipe } from '../services/chefChat';
+import { createTranslator, createUtterance, DEFAULT_LOCALE, LOCALES } from '../services/i18n';
+import { MessageKey } from '../services/messages';
+import SavedRecipeNotes from './SavedRecipeNotes';
+import CookMode from './CookMode';
+import ChefChat, { ApplyMode } from './ChefChat';
+import RecipeExportMenu from './RecipeExportMenu';
+import CookedItForm from './CookedItForm';
+import { ClockIcon, FireIcon, ChefHatIcon, PlayIcon, PauseIcon, StopIcon, XIcon, CartIcon, BookmarkIcon, ChatIcon, CheckCircleIcon } from './icons';
 
 interface RecipeModalProps {
   recipe: Recipe | null;
   onClose: () => void;
   ownedIngredients: string[];
+  onAddToShoppingList?: (recipe: Recipe, missingIngredients: RecipeIngredient[]) => void;
+  /** The library entry for this recipe, if it has been saved. */
+  savedRecipe?: SavedRecipe;
+  onSave?: (recipe: Recipe) => void;
+  onUpdateSaved?: (id: string, changes: SavedRecipeChanges) => void;
+  onRemoveSaved?: (id: string) => void;
+  /** Exclusion profiles the chef has to respect when proposing changes. */
+  exclusions?: ExclusionProfile[];
+  /** Together with `onForkRecipe`, enables "Ask the chef". */
+  onReplaceRecipe?: (original: Recipe, updated: Recipe) => void;
+  onForkRecipe?: (original: Recipe, variation: Recipe) => void;
+  /** The latest time this dish was logged as cooked, if ever. */
+  lastCooked?: CookedRecipe;
+  /** Enables "Cooked it", which logs the dish to the cooking history. */
+  onCooked?: (recipe: Recipe, cookedOn: string, rating?: number) => void;
+  /** The language for the labels and the read-aloud voice. Defaults to English. */
+  locale?: Locale;
 }
 
-const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredients }) => {
+const DEFAULT_SERVINGS = 2;
+const MAX_SERVINGS = 24;
+
+const UNIT_SYSTEM_OPTIONS: { value: UnitSystem | null; label: MessageKey }[] = [
+  { value: null, label: 'recipe.unitsAsWritten' },
+  { value: 'metric', label: 'recipe.unitsMetric' },
+  { value: 'imperial', label: 'recipe.unitsImperial' },
+];
+
+const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredients, onAddToShoppingList, savedRecipe, onSave, onUpdateSaved, onRemoveSaved, exclusions = [], onReplaceRecipe, onForkRecipe, lastCooked, onCooked, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [addedToList, setAddedToList] = useState(false);
+  const [servings, setServings] = useState(DEFAULT_SERVINGS);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(loadUnitSystem);
+  const [isCooking, setIsCooking] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isLoggingCooked, setIsLoggingCooked] = useState(false);
+  // Remounts the chat, and so forgets the conversation, when a different recipe is opened.
+  const [chatKey, setChatKey] = useState(0);
+  // What the chef changed in the recipe on screen, highlighted until dismissed.
+  const [chefChanges, setChefChanges] = useState<{ recipeName: string; changes: RecipeChanges } | null>(null);
+  // The name of the recipe that the chef's changes turned this one into, so that opening it keeps the conversation.
+  const continuedRecipeRef = useRef<string | null>(null);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
 
+  // Keyed on the name so that a photo arriving for the open recipe doesn't reset it.
+  useEffect(() => {
+    setAddedToList(false);
+    setServings(recipe?.servings ?? DEFAULT_SERVINGS);
+    setIsCooking(false);
+    setIsLoggingCooked(false);
+    if (recipe?.name !== continuedRecipeRef.current) {
+      setIsChatOpen(false);
+      setChatKey(key => key + 1);
+      setChefChanges(null);
+    }
+    continuedRecipeRef.current = null;
+  }, [recipe?.name]);
+
+  const handleUnitSystemChange = (system: UnitSystem | null) => {
+    setUnitSystem(system);
+    saveUnitSystem(system);
+  };
+
   const stopSpeaking = useCallback(() => {
     if (speechSynthesis.speaking) {
       speechSynthesis.cancel();
@@ -30,8 +100,8 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
   useEffect(() => {
     if (isSpeaking && recipe && currentStepIndex < recipe.instructions.length) {
       stopSpeaking();
-      const textToSpeak = `Step ${currentStepIndex + 1}. ${recipe.instructions[currentStepIndex]}`;
-      const utterance = new SpeechSynthesisUtterance(textToSpeak);
+      const textToSpeak = t('recipe.spokenStep', { step: currentStepIndex + 1, text: recipe.instructions[currentStepIndex] });
+      const utterance = createUtterance(textToSpeak, locale);
       utterance.onend = () => {
         if (currentStepIndex < recipe.instructions.length - 1) {
           setCurrentStepIndex(prev => prev + 1);
@@ -42,10 +112,40 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
       utteranceRef.current = utterance;
       speechSynthesis.speak(utterance);
     }
-  }, [isSpeaking, currentStepIndex, recipe, stopSpeaking]);
+  }, [isSpeaking, currentStepIndex, recipe, stopSpeaking, locale]);
 
   if (!recipe) return null;
 
+  if (isCooking) {
+    return <CookMode recipe={recipe} onExit={() => setIsCooking(false)} locale={locale} />;
+  }
+
+  const baseServings = recipe.servings ?? DEFAULT_SERVINGS;
+  const scale = servings / baseServings;
+  const ingredients = recipe.ingredients.map(ing => ({ ...ing, quantity: adjustQuantity(ing.quantity, scale, unitSystem ?? undefined) }));
+  const missingIngredients = ingredients.filter(ing => !isIngredientOwned(ing, ownedIngredients));
+
+  const handleApplyChefRecipe = (proposal: Recipe, mode: ApplyMode) => {
+    const next = { ...(mode === 'fork' ? forkRecipe(recipe, proposal, t) : proposal), imageUrl: recipe.imageUrl };
+    continuedRecipeRef.current = next.name;
+    setChefChanges({ recipeName: next.name, changes: diffRecipes(recipe, proposal) });
+    if (mode === 'fork') onForkRecipe?.(recipe, next);
+    else onReplaceRecipe?.(recipe, next);
+  };
+
+  const changes = chefChanges?.recipeName === recipe.name ? chefChanges.changes : null;
+  const isChangedIngredient = (name: string) => !!changes && (changes.addedIngredients.includes(name) || changes.changedQuantities.includes(name));
+
+  const handleCooked = (cookedOn: string, rating?: number) => {
+    onCooked?.(recipe, cookedOn, rating);
+    setIsLoggingCooked(false);
+  };
+
+  const handleAddToShoppingList = () => {
+    onAddToShoppingList?.(recipe, missingIngredients);
+    setAddedToList(true);
+  };
+
   const handlePlayPause = () => {
     if (isSpeaking) {
       speechSynthesis.pause();
@@ -67,7 +167,7 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
     setCurrentStepIndex(0);
   };
 
-  const getDifficultyColor = (difficulty: 'Easy' | 'Medium' | 'Hard') => {
+  const getDifficultyColor = (difficulty: Difficulty) => {
     switch (difficulty) {
       case 'Easy': return 'text-green-500';
       case 'Medium': return 'text-yellow-500';
@@ -81,16 +181,59 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col animate-fade-in-up">
         <div className="p-6 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-3xl font-bold text-gray-800">{recipe.name}</h2>
-          <button onClick={() => { stopSpeaking(); onClose(); }} className="text-gray-400 hover:text-gray-600 transition-colors">
-            <XIcon />
-          </button>
+          <div className="flex items-center gap-4">
+            {onReplaceRecipe && onForkRecipe && (
+              <button onClick={() => setIsChatOpen(prev => !prev)} aria-expanded={isChatOpen} className="flex items-center gap-1.5 font-medium text-blue-600 hover:text-blue-800 transition">
+                <ChatIcon />
+                {t('recipe.askChef')}
+              </button>
+            )}
+            {onCooked && (
+              <button onClick={() => setIsLoggingCooked(prev => !prev)} aria-expanded={isLoggingCooked} className="flex items-center gap-1.5 font-medium text-green-600 hover:text-green-800 transition">
+                <CheckCircleIcon />
+                {t('recipe.cookedIt')}
+              </button>
+            )}
+            {onSave && (
+              <button onClick={() => onSave(recipe)} disabled={!!savedRecipe} className="flex items-center gap-1.5 font-medium text-blue-600 hover:text-blue-800 transition disabled:text-green-600">
+                <BookmarkIcon className="w-5 h-5" filled={!!savedRecipe} />
+                {savedRecipe ? t('recipe.saved') : t('recipe.save')}
+              </button>
+            )}
+            <button onClick={() => { stopSpeaking(); onClose(); }} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XIcon />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 overflow-y-auto">
+          {isLoggingCooked && <CookedItForm onSubmit={handleCooked} onCancel={() => setIsLoggingCooked(false)} locale={locale} />}
+          {savedRecipe && onUpdateSaved && onRemoveSaved && (
+            <SavedRecipeNotes saved={savedRecipe} onUpdate={onUpdateSaved} onRemove={onRemoveSaved} locale={locale} />
+          )}
+          {onReplaceRecipe && onForkRecipe && (
+            <div hidden={!isChatOpen} className="mb-6 p-4 rounded-lg border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-700 mb-3">{t('recipe.askChef')}</h3>
+              <ChefChat key={chatKey} recipe={recipe} ownedIngredients={ownedIngredients} exclusions={exclusions} onApply={handleApplyChefRecipe} locale={locale} />
+            </div>
+          )}
+          {changes && (
+            <div className="mb-6 p-4 rounded-lg bg-yellow-50 border border-yellow-200 flex justify-between items-start gap-4">
+              <div>
+                <p className="font-semibold text-gray-800">{t('recipe.changedByChef')}</p>
+                <ul className="mt-1 text-sm text-gray-700 list-disc list-inside">
+                  {describeRecipeChanges(changes, recipe, t).map(line => <li key={line}>{line}</li>)}
+                </ul>
+              </div>
+              <button onClick={() => setChefChanges(null)} className="text-sm text-gray-500 font-medium hover:text-gray-700 transition">
+                {t('recipe.dismiss')}
+              </button>
+            </div>
+          )}
           <div className="flex flex-wrap gap-6 mb-6 text-gray-600">
             <div className={`flex items-center gap-2 font-medium ${getDifficultyColor(recipe.difficulty)}`}>
               <ChefHatIcon className="w-5 h-5" />
-              <span>{recipe.difficulty}</span>
+              <span>{t(`difficulty.${recipe.difficulty as Difficulty}`)}</span>
             </div>
             <div className="flex items-center gap-2">
               <ClockIcon className="w-5 h-5" />
@@ -98,19 +241,69 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
             </div>
             <div className="flex items-center gap-2">
               <FireIcon className="w-5 h-5" />
-              <span>{recipe.calories} calories</span>
+              <span>{t('recipe.calories', { calories: recipe.calories, total: recipe.calories * servings })}</span>
+            </div>
+            {lastCooked && (
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircleIcon />
+                <span>{t('recipe.lastCooked', { date: new Date(`${lastCooked.cookedOn}T00:00:00`).toLocaleDateString(LOCALES[locale].languageTag, { dateStyle: 'medium' }) })}</span>
+              </div>
+            )}
+          </div>
+
+          {recipe.nutrition && (
+            <div className="grid grid-cols-3 sm:grid-cols-7 gap-2 mb-6" aria-label={t('recipe.nutritionPerServing')}>
+              <div className="p-2 rounded-lg bg-orange-50 text-center">
+                <p className="text-xs text-gray-500">{t('nutrient.calories')}</p>
+                <p className="font-semibold text-gray-800">{recipe.calories}</p>
+              </div>
+              {NUTRIENTS.map(({ key }) => (
+                <div key={key} className="p-2 rounded-lg bg-gray-50 text-center">
+                  <p className="text-xs text-gray-500">{t(`nutrient.${key}`)}</p>
+                  <p className="font-semibold text-gray-800">{formatNutrient(recipe.nutrition!, key)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6 mb-6">
+            <div className="flex items-center gap-3">
+              <span className="text-gray-700 font-medium">{t('recipe.servings')}</span>
+              <button onClick={() => setServings(prev => Math.max(1, prev - 1))} disabled={servings <= 1} className="w-8 h-8 rounded-full bg-gray-100 text-gray-700 font-bold hover:bg-gray-200 transition disabled:text-gray-300" aria-label={t('recipe.fewerServings')}>-</button>
+              <span className="w-6 text-center font-semibold text-gray-800" data-testid="servings-count">{servings}</span>
+              <button onClick={() => setServings(prev => Math.min(MAX_SERVINGS, prev + 1))} disabled={servings >= MAX_SERVINGS} className="w-8 h-8 rounded-full bg-gray-100 text-gray-700 font-bold hover:bg-gray-200 transition disabled:text-gray-300" aria-label={t('recipe.moreServings')}>+</button>
+            </div>
+            <div className="flex rounded-full bg-gray-100 p-1 text-sm">
+              {UNIT_SYSTEM_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => handleUnitSystemChange(option.value)}
+                  className={`px-3 py-1 rounded-full font-medium transition ${unitSystem === option.value ? 'bg-white text-blue-600 shadow' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  {t(option.label)}
+                </button>
+              ))}
             </div>
           </div>
 
           <div className="grid md:grid-cols-2 gap-8">
             <div>
-              <h3 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Ingredients</h3>
+              <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-xl font-semibold text-gray-700">{t('recipe.ingredients')}</h3>
+                {onAddToShoppingList && missingIngredients.length > 0 && (
+                  <button onClick={handleAddToShoppingList} disabled={addedToList} className="flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 transition disabled:text-green-600">
+                    <CartIcon className="w-5 h-5" />
+                    {addedToList ? t('recipe.addedToList') : t('recipe.addMissing', { count: missingIngredients.length })}
+                  </button>
+                )}
+              </div>
               <ul className="space-y-2">
-                {recipe.ingredients.map((ing: RecipeIngredient, index: number) => {
-                  const isOwned = ownedIngredients.some(ownedIng => ing.name.toLowerCase().includes(ownedIng));
+                {ingredients.map((ing: RecipeIngredient, index: number) => {
+                  const owned = isIngredientOwned(ing, ownedIngredients);
                   return (
-                    <li key={index} className={`flex justify-between items-center p-2 rounded-md ${isOwned ? 'bg-green-50 text-gray-700' : 'bg-red-50 text-gray-600'}`}>
+                    <li key={index} className={`flex justify-between items-center p-2 rounded-md ${owned ? 'bg-green-50 text-gray-700' : 'bg-red-50 text-gray-600'} ${isChangedIngredient(ing.name) ? 'ring-2 ring-yellow-400' : ''}`}>
                       <span className="font-medium">{ing.name} <span className="text-gray-500 text-sm">({ing.quantity})</span></span>
+                      {isChangedIngredient(ing.name) && <span className="text-xs font-semibold text-yellow-700">{changes!.addedIngredients.includes(ing.name) ? t('recipe.newIngredient') : t('recipe.changedIngredient')}</span>}
                     </li>
                   );
                 })}
@@ -119,8 +312,11 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
 
             <div>
               <div className="flex justify-between items-center mb-4 border-b pb-2">
-                <h3 className="text-xl font-semibold text-gray-700">Instructions</h3>
+                <h3 className="text-xl font-semibold text-gray-700">{t('recipe.instructions')}</h3>
                 <div className="flex items-center gap-2">
+                  <button onClick={() => { handleStop(); setIsCooking(true); }} className="mr-2 text-sm font-medium bg-blue-600 text-white py-1.5 px-4 rounded-full hover:bg-blue-700 transition">
+                    {t('recipe.cookMode')}
+                  </button>
                   <button onClick={handlePlayPause} className="text-gray-600 hover:text-blue-500 transition">
                     {isSpeaking ? <PauseIcon /> : <PlayIcon />}
                   </button>
@@ -131,13 +327,17 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ recipe, onClose, ownedIngredi
               </div>
               <ol className="space-y-4 list-decimal list-inside text-gray-800">
                 {recipe.instructions.map((step, index) => (
-                  <li key={index} className={`p-3 rounded-lg transition-all duration-300 text-lg leading-relaxed ${isSpeaking && index === currentStepIndex ? 'bg-blue-100 ring-2 ring-blue-400' : 'bg-gray-50'}`}>
+                  <li key={index} className={`p-3 rounded-lg transition-all duration-300 text-lg leading-relaxed ${isSpeaking && index === currentStepIndex ? 'bg-blue-100 ring-2 ring-blue-400' : changes?.changedSteps.includes(index) ? 'bg-yellow-50 ring-2 ring-yellow-400' : 'bg-gray-50'}`}>
                     {step}
                   </li>
                 ))}
               </ol>
             </div>
           </div>
+
+          <div className="mt-8 pt-4 border-t border-gray-200">
+            <RecipeExportMenu recipes={[recipe]} locale={locale} />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Locale } from '../types';
+import { NutritionFilters, RecipeSortKey } from '../services/nutrition';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { MessageKey } from '../services/messages';
+
+interface ResultsToolbarProps {
+  sortKey: RecipeSortKey;
+  onSortChange: (sortKey: RecipeSortKey) => void;
+  filters: NutritionFilters;
+  onFiltersChange: (filters: NutritionFilters) => void;
+  shownCount: number;
+  totalCount: number;
+  locale?: Locale;
+}
+
+const sortOptions: RecipeSortKey[] = ['default', 'calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+const limitInputs: { key: keyof NutritionFilters; label: MessageKey }[] = [
+  { key: 'maxCalories', label: 'toolbar.maxCalories' },
+  { key: 'minProtein', label: 'toolbar.minProtein' },
+  { key: 'maxCarbs', label: 'toolbar.maxCarbs' },
+  { key: 'maxFat', label: 'toolbar.maxFat' },
+];
+
+/** Client-side sorting and nutrition limits for the generated recipes. */
+const ResultsToolbar: React.FC<ResultsToolbarProps> = ({ sortKey, onSortChange, filters, onFiltersChange, shownCount, totalCount, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  return (
+    <div className="flex flex-wrap items-end gap-4 mb-6 p-4 bg-white rounded-xl shadow-sm border border-gray-200">
+      <label className="flex flex-col text-sm text-gray-600">
+        {t('toolbar.sortBy')}
+        <select value={sortKey} onChange={e => onSortChange(e.target.value as RecipeSortKey)} className="mt-1 py-1.5 px-2 border border-gray-300 rounded-md text-gray-800">
+          {sortOptions.map(option => <option key={option} value={option}>{t(`toolbar.sort.${option}`)}</option>)}
+        </select>
+      </label>
+      {limitInputs.map(({ key, label }) => (
+        <label key={key} className="flex flex-col text-sm text-gray-600">
+          {t(label)}
+          <input
+            type="number"
+            min={0}
+            value={filters[key] ?? ''}
+            onChange={e => onFiltersChange({ ...filters, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className="mt-1 w-28 py-1.5 px-2 border border-gray-300 rounded-md text-gray-800"
+          />
+        </label>
+      ))}
+      {shownCount < totalCount && (
+        <p className="text-sm text-gray-500 pb-2">
+          {t('toolbar.showing', { shown: shownCount, total: totalCount })}{' '}
+          <button onClick={() => onFiltersChange({})} className="text-blue-600 font-medium hover:underline">{t('toolbar.clearLimits')}</button>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResultsToolbar;
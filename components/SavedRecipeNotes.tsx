@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Locale, SavedRecipe } from '../types';
+import { parseTags, SavedRecipeChanges } from '../services/recipeLibrary';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { HeartIcon, StarIcon } from './icons';
+
+interface SavedRecipeNotesProps {
+  saved: SavedRecipe;
+  onUpdate: (id: string, changes: SavedRecipeChanges) => void;
+  onRemove: (id: string) => void;
+  locale?: Locale;
+}
+
+/** Favorite, rating, notes and tags for a recipe in the library. Text fields are committed on blur. */
+const SavedRecipeNotes: React.FC<SavedRecipeNotesProps> = ({ saved, onUpdate, onRemove, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [notes, setNotes] = useState(saved.notes);
+  const [tagsText, setTagsText] = useState(saved.tags.join(', '));
+
+  useEffect(() => {
+    setNotes(saved.notes);
+    setTagsText(saved.tags.join(', '));
+  }, [saved.id, saved.notes, saved.tags]);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-blue-50 border border-blue-100">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => onUpdate(saved.id, { favorite: !saved.favorite })}
+            className="flex items-center gap-1.5 text-red-500 font-medium hover:text-red-600 transition"
+          >
+            <HeartIcon className="w-5 h-5" filled={saved.favorite} />
+            {saved.favorite ? t('notes.favorite') : t('notes.addToFavorites')}
+          </button>
+          <div className="flex items-center gap-0.5 text-yellow-400" role="radiogroup" aria-label={t('notes.rating')}>
+            {[1, 2, 3, 4, 5].map(star => (
+              <button
+                key={star}
+                role="radio"
+                aria-checked={saved.rating === star}
+                aria-label={star === 1 ? t('notes.star') : t('notes.stars', { count: star })}
+                onClick={() => onUpdate(saved.id, { rating: saved.rating === star ? undefined : star })}
+                className="hover:scale-110 transition"
+              >
+                <StarIcon filled={(saved.rating ?? 0) >= star} />
+              </button>
+            ))}
+          </div>
+        </div>
+        <button onClick={() => onRemove(saved.id)} className="text-sm text-gray-500 font-medium hover:text-red-500 transition">
+          {t('notes.remove')}
+        </button>
+      </div>
+      <textarea
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        onBlur={() => notes !== saved.notes && onUpdate(saved.id, { notes })}
+        placeholder={t('notes.notesPlaceholder')}
+        rows={2}
+        className="w-full p-2 border border-gray-300 rounded-md text-gray-700 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <input
+        value={tagsText}
+        onChange={e => setTagsText(e.target.value)}
+        onBlur={() => onUpdate(saved.id, { tags: parseTags(tagsText) })}
+        placeholder={t('notes.tagsPlaceholder')}
+        className="w-full mt-2 p-2 border border-gray-300 rounded-md text-gray-700 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+  );
+};
+
+export default SavedRecipeNotes;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Locale, ShoppingListItem } from '../types';
+import { groupByCategory, shoppingListToText, shoppingListToMarkdown } from '../services/shoppingList';
+import { combineQuantities } from '../services/quantity';
+import { downloadFile } from '../services/fileUtils';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { CartIcon, ClipboardIcon, DownloadIcon, TrashIcon, XIcon } from './icons';
+
+interface ShoppingListProps {
+  isOpen: boolean;
+  items: ShoppingListItem[];
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearChecked: () => void;
+  onClose: () => void;
+  locale?: Locale;
+}
+
+const ShoppingList: React.FC<ShoppingListProps> = ({ isOpen, items, onToggle, onRemove, onClearChecked, onClose, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const [copied, setCopied] = useState(false);
+
+  if (!isOpen) return null;
+
+  const checkedCount = items.filter(item => item.checked).length;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shoppingListToText(items, t));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Could not copy shopping list:", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 transition-opacity duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-up">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="flex items-center gap-3 text-3xl font-bold text-gray-800"><CartIcon className="w-8 h-8 text-blue-500" /> {t('shopping.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <XIcon />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {items.length === 0 && (
+            <p className="text-center text-gray-500 py-8">{t('shopping.empty')}</p>
+          )}
+          {groupByCategory(items).map(([category, categoryItems]) => (
+            <section key={category} className="mb-6">
+              <h3 className="text-xl font-semibold text-gray-700 border-b pb-2 mb-3">{t(`category.${category}`)}</h3>
+              <ul className="space-y-2">
+                {categoryItems.map(item => (
+                  <li key={item.id} className="flex justify-between items-center p-2 rounded-md bg-gray-50">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="mt-1 h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={item.checked}
+                        onChange={() => onToggle(item.id)}
+                      />
+                      <span className={item.checked ? 'line-through text-gray-400' : 'text-gray-800'}>
+                        <span className="font-medium">{item.name}</span>
+                        <span className="text-gray-500 text-sm"> ({combineQuantities(item.quantities).join(' + ')})</span>
+                        <span className="block text-xs text-gray-400">{t('shopping.forRecipes', { recipes: item.recipes.join(', ') })}</span>
+                      </span>
+                    </label>
+                    <button onClick={() => onRemove(item.id)} className="text-gray-400 hover:text-red-500 transition" aria-label={t('shopping.remove', { name: item.name })}>
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        {items.length > 0 && (
+          <div className="p-6 border-t border-gray-200 flex flex-wrap justify-between items-center gap-3">
+            <button onClick={onClearChecked} disabled={checkedCount === 0} className="text-gray-600 font-medium hover:text-red-500 transition disabled:text-gray-300">
+              {t('shopping.clearChecked', { count: checkedCount })}
+            </button>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={handleCopy} className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition">
+                <ClipboardIcon /> {copied ? t('shopping.copied') : t('shopping.copy')}
+              </button>
+              <button onClick={() => downloadFile('shopping-list.txt', shoppingListToText(items, t), 'text/plain')} className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition">
+                <DownloadIcon /> {t('shopping.text')}
+              </button>
+              <button onClick={() => downloadFile('shopping-list.md', shoppingListToMarkdown(items, t), 'text/markdown')} className="flex items-center gap-1 bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-md hover:bg-gray-200 transition">
+                <DownloadIcon /> Markdown
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingList;
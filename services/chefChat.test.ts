@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Recipe } from '../types';
+import { describeRecipeChanges, diffRecipes, forkRecipe, hasChanges, parseChefReply } from './chefChat';
+import { createTranslator } from './i18n';
+
+const recipe: Recipe = {
+  name: 'Creamy Tomato Pasta',
+  difficulty: 'Easy',
+  prepTime: '20 minutes',
+  servings: 2,
+  calories: 600,
+  ingredients: [
+    { name: 'Pasta', quantity: '200 g' },
+    { name: 'Tomatoes', quantity: '3' },
+    { name: 'Heavy cream', quantity: '100 ml' },
+  ],
+  instructions: ['Boil the pasta.', 'Simmer the tomatoes with the cream.', 'Toss together.'],
+};
+
+const dairyFree: Recipe = {
+  ...recipe,
+  calories: 480,
+  ingredients: [
+    { name: 'pasta', quantity: '200 g' },
+    { name: 'tomato', quantity: '4' },
+    { name: 'Coconut milk', quantity: '100 ml' },
+  ],
+  instructions: ['Boil the pasta', 'Simmer the tomatoes with the coconut milk.', 'Toss together.'],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseChefReply', () => {
+  it('reads the reply and a valid proposed recipe', () => {
+    const reply = parseChefReply(JSON.stringify({ reply: 'Swap the cream for coconut milk.', recipe: dairyFree }));
+    expect(reply).toMatchObject({ role: 'chef', text: 'Swap the cream for coconut milk.', recipe: { name: 'Creamy Tomato Pasta', prepTimeMinutes: 20 } });
+  });
+
+  it('keeps the answer but drops a proposed recipe that fails validation', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const reply = parseChefReply(JSON.stringify({ reply: 'Sure.', recipe: { name: 'Broken' } }));
+    expect(reply).toEqual({ role: 'chef', text: 'Sure.' });
+  });
+
+  it('shows a reply that is not JSON as it is', () => {
+    expect(parseChefReply(' Yes, Greek yogurt works. ')).toEqual({ role: 'chef', text: 'Yes, Greek yogurt works.' });
+  });
+
+  it('falls back to an apology for an empty reply', () => {
+    expect(parseChefReply('{}').text).toContain("don't have an answer");
+    expect(parseChefReply('', createTranslator('es')).text).toContain('no tengo respuesta');
+  });
+});
+
+describe('diffRecipes', () => {
+  it('matches ingredients and steps loosely and reports what really changed', () => {
+    const changes = diffRecipes(recipe, dairyFree);
+    expect(changes).toEqual({
+      addedIngredients: ['Coconut milk'],
+      removedIngredients: ['Heavy cream'],
+      changedQuantities: ['tomato'],
+      changedSteps: [1],
+      changedDetails: ['calories'],
+    });
+    expect(hasChanges(changes)).toBe(true);
+    expect(hasChanges(diffRecipes(recipe, recipe))).toBe(false);
+  });
+});
+
+describe('describeRecipeChanges', () => {
+  it('summarizes each kind of change in a line', () => {
+    expect(describeRecipeChanges(diffRecipes(recipe, dairyFree), dairyFree)).toEqual([
+      'Uses Coconut milk instead of Heavy cream',
+      'Different amounts of tomato',
+      'New or rewritten step 2',
+      'Calories per serving are now 480',
+    ]);
+  });
+
+  it('lists several items naturally', () => {
+    const shorter = { ...recipe, ingredients: recipe.ingredients.slice(0, 1), instructions: ['Boil.', 'Drain.'] };
+    expect(describeRecipeChanges(diffRecipes(recipe, shorter), shorter)).toEqual([
+      'Leaves out Tomatoes and Heavy cream',
+      'New or rewritten steps 1 and 2',
+    ]);
+  });
+});
+
+describe('forkRecipe', () => {
+  it('names a variation that kept the original name', () => {
+    expect(forkRecipe(recipe, dairyFree).name).toBe('Creamy Tomato Pasta (variation)');
+    expect(forkRecipe(recipe, { ...dairyFree, name: 'Coconut Tomato Pasta' }).name).toBe('Coconut Tomato Pasta');
+  });
+
+  it('names the variation in the given language', () => {
+    expect(forkRecipe(recipe, dairyFree, createTranslator('de')).name).toBe('Creamy Tomato Pasta (Variante)');
+  });
+});
@@ -0,0 +1,90 @@
+import { ChefMessage, Recipe } from '../types';
+import { validateRecipe } from './recipeValidation';
+import { itemKey, normalizeItemName } from './pantryService';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+
+/**
+ * Parses the chef's JSON reply. A reply that isn't JSON is shown as it is, and a proposed recipe
+ * that fails validation is dropped so that the answer itself still gets through.
+ */
+export const parseChefReply = (text: string | undefined, t: Translate = createTranslator(DEFAULT_LOCALE)): ChefMessage => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text?.trim() ?? '');
+  } catch {
+    return { role: 'chef', text: text?.trim() || t('chef.emptyReply') };
+  }
+  const raw = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  const reply = (typeof raw.reply === 'string' ? raw.reply.trim() : '') || t('chef.emptyReply');
+  if (raw.recipe === undefined || raw.recipe === null) return { role: 'chef', text: reply };
+  const { recipe, issues } = validateRecipe(raw.recipe);
+  if (!recipe) {
+    console.warn("Dropped the modified recipe from the chef's reply:", issues);
+    return { role: 'chef', text: reply };
+  }
+  return { role: 'chef', text: reply, recipe };
+};
+
+export type RecipeDetail = 'name' | 'difficulty' | 'prepTime' | 'servings' | 'calories';
+
+const DETAILS: RecipeDetail[] = ['name', 'difficulty', 'prepTime', 'servings', 'calories'];
+
+export interface RecipeChanges {
+  /** Names of the ingredients that are new in the modified recipe. */
+  addedIngredients: string[];
+  /** Names of the original ingredients that the modified recipe no longer uses. */
+  removedIngredients: string[];
+  /** Names of the ingredients that are kept with a different quantity. */
+  changedQuantities: string[];
+  /** Indexes of the modified recipe's steps that aren't in the original. */
+  changedSteps: number[];
+  changedDetails: RecipeDetail[];
+}
+
+const normalizeStep = (step: string) => normalizeItemName(step).replace(/[.!]+$/, '');
+
+/** What a modified recipe changed, matching ingredients by name so that "Tomatoes" and "tomato" count as the same. */
+export const diffRecipes = (before: Recipe, after: Recipe): RecipeChanges => {
+  const beforeIngredients = new Map(before.ingredients.map(ing => [itemKey(ing.name), ing]));
+  const afterKeys = new Set(after.ingredients.map(ing => itemKey(ing.name)));
+  const beforeSteps = new Set(before.instructions.map(normalizeStep));
+  return {
+    addedIngredients: after.ingredients.filter(ing => !beforeIngredients.has(itemKey(ing.name))).map(ing => ing.name),
+    removedIngredients: before.ingredients.filter(ing => !afterKeys.has(itemKey(ing.name))).map(ing => ing.name),
+    changedQuantities: after.ingredients
+      .filter(ing => {
+        const original = beforeIngredients.get(itemKey(ing.name));
+        return original !== undefined && normalizeItemName(original.quantity) !== normalizeItemName(ing.quantity);
+      })
+      .map(ing => ing.name),
+    changedSteps: after.instructions.flatMap((step, index) => (beforeSteps.has(normalizeStep(step)) ? [] : [index])),
+    changedDetails: DETAILS.filter(detail => before[detail] !== after[detail]),
+  };
+};
+
+export const hasChanges = (changes: RecipeChanges) =>
+  Object.values(changes).some(list => list.length > 0);
+
+/** One short line per kind of change, e.g. "Uses greek yogurt instead of heavy cream" or "New or rewritten steps 2 and 3". */
+export const describeRecipeChanges = (changes: RecipeChanges, after: Recipe, t: Translate = createTranslator(DEFAULT_LOCALE)): string[] => {
+  const list = (items: string[]) => (items.length > 1 ? `${items.slice(0, -1).join(', ')} ${t('changes.and')} ${items[items.length - 1]}` : items[0]);
+  const lines: string[] = [];
+  const { addedIngredients: added, removedIngredients: removed } = changes;
+  if (added.length > 0 && removed.length > 0) lines.push(t('changes.usesInstead', { added: list(added), removed: list(removed) }));
+  else if (added.length > 0) lines.push(t('changes.adds', { added: list(added) }));
+  else if (removed.length > 0) lines.push(t('changes.leavesOut', { removed: list(removed) }));
+  if (changes.changedQuantities.length > 0) lines.push(t('changes.amounts', { ingredients: list(changes.changedQuantities) }));
+  if (changes.changedSteps.length > 0) {
+    const steps = changes.changedSteps.map(index => String(index + 1));
+    lines.push(t(steps.length > 1 ? 'changes.steps' : 'changes.step', { steps: list(steps) }));
+  }
+  for (const detail of changes.changedDetails) {
+    const value = detail === 'difficulty' ? t(`difficulty.${after.difficulty}`) : after[detail] ?? t('changes.unspecified');
+    lines.push(t(`changes.${detail}`, { value }));
+  }
+  return lines;
+};
+
+/** A fork keeps the original alongside it, so it needs a name of its own. */
+export const forkRecipe = (original: Recipe, modified: Recipe, t: Translate = createTranslator(DEFAULT_LOCALE)): Recipe =>
+  normalizeItemName(modified.name) === normalizeItemName(original.name) ? { ...modified, name: t('chef.variationName', { name: original.name }) } : modified;
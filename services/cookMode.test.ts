@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { collectFinishedTimers, describeDuration, extractDurations, formatCountdown, parseVoiceCommand, startTimer } from './cookMode';
+import { createTranslator } from './i18n';
+
+describe('extractDurations', () => {
+  it('finds durations with their position in the step', () => {
+    expect(extractDurations('Simmer for 10 minutes, then rest 30 seconds.')).toEqual([
+      { text: '10 minutes', index: 11, seconds: 600 },
+      { text: '30 seconds', index: 33, seconds: 30 },
+    ]);
+  });
+
+  it('uses the upper bound of ranges and understands number words', () => {
+    expect(extractDurations('Bake for 25-30 mins')[0].seconds).toBe(1800);
+    expect(extractDurations('Cook for two to three minutes')[0]).toMatchObject({ text: 'two to three minutes', seconds: 180 });
+    expect(extractDurations('Roast for 1.5 hours')[0].seconds).toBe(5400);
+  });
+
+  it('reads "half an hour" as thirty minutes', () => {
+    expect(extractDurations('Let the dough rise for half an hour.')).toEqual([{ text: 'half an hour', index: 23, seconds: 1800 }]);
+  });
+
+  it('reads durations in Spanish and German', () => {
+    expect(extractDurations('Hornear durante 20 minutos', 'es')).toEqual([{ text: '20 minutos', index: 16, seconds: 1200 }]);
+    expect(extractDurations('Cocer de 10 a 12 minutos y reposar media hora', 'es').map(duration => duration.seconds)).toEqual([720, 1800]);
+    expect(extractDurations('1,5 Stunden schmoren, dann fünf Minuten ruhen lassen', 'de').map(duration => duration.seconds)).toEqual([5400, 300]);
+    expect(extractDurations('Den Teig eine halbe Stunde gehen lassen', 'de')[0]).toMatchObject({ text: 'eine halbe Stunde', seconds: 1800 });
+  });
+
+  it('returns nothing for steps without a duration', () => {
+    expect(extractDurations('Season to taste.')).toEqual([]);
+  });
+});
+
+describe('parseVoiceCommand', () => {
+  it.each([
+    ['Next', { type: 'next' }],
+    ['next step please', { type: 'next' }],
+    ['go back', { type: 'back' }],
+    ['repeat that', { type: 'repeat' }],
+    ['set timer for 10 minutes', { type: 'timer', seconds: 600 }],
+    ['set a timer for one hour and five minutes', { type: 'timer', seconds: 3900 }],
+  ])('understands "%s"', (transcript, expected) => {
+    expect(parseVoiceCommand(transcript)).toEqual(expected);
+  });
+
+  it.each([
+    ['siguiente', 'es', { type: 'next' }],
+    ['vuelve atrás', 'es', { type: 'back' }],
+    ['pon un temporizador de cinco minutos', 'es', { type: 'timer', seconds: 300 }],
+    ['Nächster Schritt', 'de', { type: 'next' }],
+    ['zurück', 'de', { type: 'back' }],
+    ['Timer auf eine Stunde', 'de', { type: 'timer', seconds: 3600 }],
+  ] as const)('understands "%s" in %s', (transcript, locale, expected) => {
+    expect(parseVoiceCommand(transcript, locale)).toEqual(expected);
+  });
+
+  it('ignores unrelated speech and timers without a duration', () => {
+    expect(parseVoiceCommand('this smells great')).toBeNull();
+    expect(parseVoiceCommand('set a timer')).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('formats minutes and hours', () => {
+    expect(formatCountdown(65)).toBe('1:05');
+    expect(formatCountdown(3725)).toBe('1:02:05');
+    expect(formatCountdown(-3)).toBe('0:00');
+  });
+
+  it('describes whole minutes and hours in words', () => {
+    expect(describeDuration(600)).toBe('10 minutes');
+    expect(describeDuration(3600)).toBe('1 hour');
+    expect(describeDuration(90)).toBe('1:30');
+    expect(describeDuration(600, createTranslator('de'))).toBe('10 Minuten');
+  });
+});
+
+describe('timers', () => {
+  it('reports each finished timer exactly once', () => {
+    const timers = startTimer(startTimer([], 'Pasta', 60, 0), 'Sauce', 120, 0);
+    const first = collectFinishedTimers(timers, 90_000);
+    expect(first.finished.map(timer => timer.label)).toEqual(['Pasta']);
+    const second = collectFinishedTimers(first.timers, 100_000);
+    expect(second.finished).toEqual([]);
+    expect(second.timers).toBe(first.timers);
+  });
+});
@@ -0,0 +1,175 @@
+import { Locale } from '../types';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+
+export interface StepDuration {
+  /** The exact text in the step, e.g. "10-12 minutes". */
+  text: string;
+  index: number;
+  seconds: number;
+}
+
+export type VoiceCommand =
+  | { type: 'next' | 'back' | 'repeat' | 'exit' }
+  | { type: 'timer'; seconds: number };
+
+export interface CookTimer {
+  id: string;
+  label: string;
+  seconds: number;
+  /** Epoch milliseconds when the timer runs out. */
+  endsAt: number;
+  /** Set once the alarm has gone off. */
+  rang: boolean;
+}
+
+/** The words a language uses to say how long a step takes. */
+interface DurationWords {
+  numbers: Record<string, number>;
+  /** Words that join the two ends of a range, as in "10 to 12 minutes". */
+  range: string;
+  /** Unit spellings as regular expression alternatives, longest first. */
+  units: { pattern: string; seconds: number }[];
+  halfHour: RegExp;
+}
+
+const DURATION_WORDS: Record<Locale, DurationWords> = {
+  en: {
+    numbers: {
+      a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+      eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45, fifty: 50, sixty: 60, ninety: 90,
+    },
+    range: 'to|or',
+    units: [
+      { pattern: 'hours?|hrs?', seconds: 3600 },
+      { pattern: 'minutes?|mins?', seconds: 60 },
+      { pattern: 'seconds?|secs?', seconds: 1 },
+    ],
+    halfHour: /\bhalf an? hour\b/i,
+  },
+  es: {
+    numbers: {
+      un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10,
+      once: 11, doce: 12, quince: 15, veinte: 20, treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60, noventa: 90,
+    },
+    range: 'a|o',
+    units: [
+      { pattern: 'horas?|hrs?', seconds: 3600 },
+      { pattern: 'minutos?|mins?', seconds: 60 },
+      { pattern: 'segundos?|segs?', seconds: 1 },
+    ],
+    halfHour: /\bmedia hora\b/i,
+  },
+  de: {
+    numbers: {
+      ein: 1, eine: 1, einen: 1, einer: 1, zwei: 2, drei: 3, vier: 4, 'fünf': 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10,
+      elf: 11, 'zwölf': 12, 'fünfzehn': 15, zwanzig: 20, 'dreißig': 30, vierzig: 40, 'fünfzig': 50, sechzig: 60, neunzig: 90,
+    },
+    range: 'bis|oder',
+    units: [
+      { pattern: 'stunden?|std', seconds: 3600 },
+      { pattern: 'minuten?|min', seconds: 60 },
+      { pattern: 'sekunden?|sek', seconds: 1 },
+    ],
+    halfHour: /\b(?:eine[rn]? )?halben? stunde\b/i,
+  },
+};
+
+/** Voice commands in each language. Timers are checked first, since "set a timer" isn't a step command. */
+const VOICE_COMMANDS: Record<Locale, { timer: RegExp; next: RegExp; back: RegExp; repeat: RegExp; exit: RegExp }> = {
+  en: {
+    timer: /\btimer\b/,
+    next: /\b(?:next|continue|forward)\b/,
+    back: /\b(?:back|previous)\b/,
+    repeat: /\b(?:repeat|again|what)\b/,
+    exit: /\b(?:exit|stop cooking|close)\b/,
+  },
+  es: {
+    timer: /\btemporizador\b/,
+    next: /\b(?:siguiente|sigue|adelante|continúa|continua)\b/,
+    back: /\b(?:atrás|atras|anterior|vuelve)\b/,
+    repeat: /\b(?:repite|repetir|otra vez)\b/,
+    exit: /\b(?:salir|terminar|cerrar)\b/,
+  },
+  de: {
+    timer: /\b(?:timer|wecker)\b/,
+    next: /\b(?:weiter|nächster|nächste)\b/,
+    back: /\b(?:zurück|vorheriger|vorherige)\b/,
+    repeat: /\b(?:wiederholen|wiederhole|nochmal|noch einmal)\b/,
+    exit: /\b(?:beenden|schließen)\b/,
+  },
+};
+
+const STEP_COMMANDS = ['next', 'back', 'repeat', 'exit'] as const;
+
+const durationPattern = ({ numbers, range, units }: DurationWords) => {
+  const amount = String.raw`\d+(?:[.,]\d+)?|${Object.keys(numbers).sort((a, b) => b.length - a.length).join('|')}`;
+  const unit = units.map(({ pattern }) => pattern).join('|');
+  return new RegExp(String.raw`\b(${amount})(?:\s*(?:-|${range})\s*(${amount}))?\s*(${unit})\b`, 'gi');
+};
+
+const parseAmount = (text: string, { numbers }: DurationWords) => numbers[text.toLowerCase()] ?? Number(text.replace(',', '.'));
+
+const unitSeconds = (unit: string, { units }: DurationWords) =>
+  units.find(({ pattern }) => new RegExp(`^(?:${pattern})$`, 'i').test(unit))?.seconds ?? 60;
+
+/**
+ * Finds the durations mentioned in an instruction, such as "simmer for 10-12 minutes" or
+ * "rest for half an hour", in the given language. Ranges resolve to their upper bound.
+ */
+export const extractDurations = (step: string, locale: Locale = DEFAULT_LOCALE): StepDuration[] => {
+  const words = DURATION_WORDS[locale];
+  const durations: StepDuration[] = [];
+  for (const match of step.matchAll(durationPattern(words))) {
+    const amount = parseAmount(match[2] ?? match[1], words);
+    if (!Number.isFinite(amount) || amount <= 0) continue;
+    durations.push({ text: match[0], index: match.index ?? 0, seconds: Math.round(amount * unitSeconds(match[3], words)) });
+  }
+  const halfHour = step.match(words.halfHour);
+  if (!halfHour) return durations;
+  const start = halfHour.index ?? 0;
+  return [
+    ...durations.filter(duration => duration.index < start || duration.index >= start + halfHour[0].length),
+    { text: halfHour[0], index: start, seconds: 1800 },
+  ].sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Interprets a speech recognition transcript such as "next step" or "set a timer for 10 minutes",
+ * spoken in the given language.
+ */
+export const parseVoiceCommand = (transcript: string, locale: Locale = DEFAULT_LOCALE): VoiceCommand | null => {
+  const text = transcript.toLowerCase().trim();
+  const commands = VOICE_COMMANDS[locale];
+  if (commands.timer.test(text)) {
+    const seconds = extractDurations(text, locale).reduce((total, duration) => total + duration.seconds, 0);
+    return seconds > 0 ? { type: 'timer', seconds } : null;
+  }
+  const type = STEP_COMMANDS.find(command => commands[command].test(text));
+  return type ? { type } : null;
+};
+
+export const formatCountdown = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+export const describeDuration = (seconds: number, t: Translate = createTranslator(DEFAULT_LOCALE)) => {
+  if (seconds % 3600 === 0) return t(seconds === 3600 ? 'cook.hour' : 'cook.hours', { count: seconds / 3600 });
+  if (seconds >= 60 && seconds % 60 === 0) return t(seconds === 60 ? 'cook.minute' : 'cook.minutes', { count: seconds / 60 });
+  return formatCountdown(seconds);
+};
+
+export const startTimer = (timers: CookTimer[], label: string, seconds: number, now = Date.now()): CookTimer[] =>
+  [...timers, { id: crypto.randomUUID(), label, seconds, endsAt: now + seconds * 1000, rang: false }];
+
+/** Marks timers that have run out as rung, returning the ones that just finished. */
+export const collectFinishedTimers = (timers: CookTimer[], now = Date.now()) => {
+  const finished = timers.filter(timer => !timer.rang && timer.endsAt <= now);
+  return {
+    timers: finished.length > 0 ? timers.map(timer => (finished.includes(timer) ? { ...timer, rang: true } : timer)) : timers,
+    finished,
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { CookedRecipe, Recipe } from '../types';
+import { findLastCooked, inferCookingPreferences, logCookedRecipe, updateCookedRecipe } from './cookingHistory';
+import { makeRecipe } from './testFixtures';
+
+const cooked = (name: string, cookedOn: string, rating?: number, overrides: Partial<Recipe> = {}): CookedRecipe =>
+  ({ id: `${name}-${cookedOn}`, recipe: makeRecipe({ name, ingredients: [{ name: 'salt', quantity: 'to taste' }], ...overrides }), cookedOn, rating });
+
+const today = new Date(2024, 4, 20);
+
+describe('logCookedRecipe', () => {
+  it('keeps the history newest first and leaves out the photo', () => {
+    const history = [cooked('Paella', '2024-05-18'), cooked('Risotto', '2024-05-10')];
+    const logged = logCookedRecipe(history, makeRecipe({ name: 'Tacos', imageUrl: 'data:image/png;base64,abc' }), '2024-05-12', 4);
+    expect(logged.map(entry => [entry.recipe.name, entry.cookedOn, entry.rating])).toEqual([
+      ['Paella', '2024-05-18', undefined],
+      ['Tacos', '2024-05-12', 4],
+      ['Risotto', '2024-05-10', undefined],
+    ]);
+    expect(logged[1].recipe).not.toHaveProperty('imageUrl');
+  });
+
+  it('moves an entry when its date changes', () => {
+    const history = [cooked('Paella', '2024-05-18'), cooked('Risotto', '2024-05-10')];
+    expect(updateCookedRecipe(history, 'Risotto-2024-05-10', { cookedOn: '2024-05-19' }).map(entry => entry.recipe.name)).toEqual(['Risotto', 'Paella']);
+  });
+});
+
+describe('findLastCooked', () => {
+  it('finds the latest time a dish with the same name was cooked', () => {
+    const history = [cooked('Paella', '2024-05-18', 5), cooked('paella ', '2024-04-01', 2)];
+    expect(findLastCooked(history, makeRecipe({ name: 'Paella' }))?.cookedOn).toBe('2024-05-18');
+    expect(findLastCooked(history, makeRecipe({ name: 'Tacos' }))).toBeUndefined();
+  });
+});
+
+describe('inferCookingPreferences', () => {
+  it('finds nothing in an empty history', () => {
+    expect(inferCookingPreferences([], today)).toEqual({ favoriteCuisines: [], dislikedIngredients: [], prepTimeBudget: undefined, recentDishes: [] });
+  });
+
+  it('favors cuisines that were cooked often or rated highly', () => {
+    const history = [
+      cooked('Pad Thai', '2024-04-01', 5, { cuisine: 'Thai' }),
+      cooked('Risotto', '2024-04-02', undefined, { cuisine: 'Italian' }),
+      cooked('Lasagna', '2024-04-03', undefined, { cuisine: 'italian' }),
+      cooked('Tacos', '2024-04-04', 3, { cuisine: 'Mexican' }),
+      cooked('Burrito', '2024-04-05', 4, { cuisine: 'Mexican' }),
+      cooked('Bratwurst', '2024-04-06', 1, { cuisine: 'German' }),
+      cooked('Schnitzel', '2024-04-07', undefined, { cuisine: 'German' }),
+    ];
+    expect(inferCookingPreferences(history, today).favoriteCuisines).toEqual(['thai', 'italian']);
+  });
+
+  it('blames ingredients that only turn up in poorly rated dishes', () => {
+    const withIngredients = (...names: string[]) => ({ ingredients: names.map(name => ({ name, quantity: '1' })) });
+    const history = [
+      cooked('Mushroom Risotto', '2024-04-01', 1, withIngredients('button mushrooms', 'rice', 'salt')),
+      cooked('Mushroom Soup', '2024-04-02', 2, withIngredients('Mushroom', 'cream', 'salt')),
+      cooked('Fried Rice', '2024-04-03', 5, withIngredients('rice', 'eggs', 'salt')),
+      cooked('Cream Tart', '2024-04-04', 2, withIngredients('heavy cream', 'sugar')),
+    ];
+    expect(inferCookingPreferences(history, today).dislikedIngredients).toEqual(['mushroom', 'cream']);
+  });
+
+  it('sets the prep time budget to what most dishes fit within', () => {
+    const history = [10, 20, 25, 30, 90].map((minutes, index) => cooked(`Dish ${index}`, '2024-04-01', undefined, { prepTimeMinutes: minutes }));
+    expect(inferCookingPreferences(history, today).prepTimeBudget).toBe(30);
+    expect(inferCookingPreferences(history.slice(0, 2), today).prepTimeBudget).toBeUndefined();
+  });
+
+  it('lists each dish cooked in the last two weeks once, most recent first', () => {
+    const history = [
+      cooked('Tacos', '2024-05-19'),
+      cooked('Paella', '2024-05-12'),
+      cooked('tacos', '2024-05-08'),
+      cooked('Risotto', '2024-05-01'),
+    ];
+    expect(inferCookingPreferences(history, today).recentDishes).toEqual(['Tacos', 'Paella']);
+  });
+});
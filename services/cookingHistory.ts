@@ -0,0 +1,106 @@
+import { CookedRecipe, CookingPreferences, Recipe } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { normalizeItemName } from './pantryService';
+import { mentionsIngredient, normalizeIngredient } from './ingredientMatcher';
+import { toDateKey } from './mealPlan';
+
+const HISTORY_STORAGE_KEY = 'smart-fridge.cooking-history';
+
+// Dishes cooked within this many days count as recent and shouldn't be suggested again.
+const RECENT_DAYS = 14;
+const MAX_RECENT_DISHES = 10;
+const MAX_FAVORITE_CUISINES = 3;
+// A cuisine becomes a favorite at this score, e.g. two unrated dishes or one five-star dish.
+const FAVORITE_CUISINE_SCORE = 2;
+// An ingredient counts as disliked after turning up in this many poorly rated dishes and in no others.
+const DISLIKED_INGREDIENT_COUNT = 2;
+const POOR_RATING = 2;
+// The prep time budget covers this share of the cooked dishes, once there are enough of them to tell.
+const PREP_TIME_SHARE = 0.8;
+const MIN_PREP_TIME_SAMPLES = 3;
+
+export type CookedRecipeChanges = Partial<Pick<CookedRecipe, 'cookedOn' | 'rating'>>;
+
+export const loadCookingHistory = (): CookedRecipe[] => loadJSON<CookedRecipe[]>(HISTORY_STORAGE_KEY, []);
+
+export const saveCookingHistory = (history: CookedRecipe[]) => saveJSON(HISTORY_STORAGE_KEY, history);
+
+const newestFirst = (history: CookedRecipe[]) => [...history].sort((a, b) => b.cookedOn.localeCompare(a.cookedOn));
+
+/**
+ * Logs a cooked dish, keeping the history newest first. The photo is left out because the same
+ * dish can be logged many times and generated photos are large.
+ */
+export const logCookedRecipe = (history: CookedRecipe[], { imageUrl, ...recipe }: Recipe, cookedOn = toDateKey(new Date()), rating?: number): CookedRecipe[] =>
+  newestFirst([{ id: crypto.randomUUID(), recipe, cookedOn, ...(rating ? { rating } : {}) }, ...history]);
+
+export const updateCookedRecipe = (history: CookedRecipe[], id: string, changes: CookedRecipeChanges): CookedRecipe[] =>
+  newestFirst(history.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+export const removeCookedRecipe = (history: CookedRecipe[], id: string): CookedRecipe[] => history.filter(entry => entry.id !== id);
+
+/** The most recent time a dish with this name was cooked. */
+export const findLastCooked = (history: CookedRecipe[], recipe: Recipe | null) =>
+  recipe ? history.find(entry => normalizeItemName(entry.recipe.name) === normalizeItemName(recipe.name)) : undefined;
+
+/** Unrated dishes count as mildly liked, since they were cooked at all; three stars is neutral. */
+const cuisineScore = (rating?: number) => (rating === undefined ? 1 : rating - 3);
+
+const inferFavoriteCuisines = (history: CookedRecipe[]) => {
+  const scores = new Map<string, number>();
+  for (const { recipe, rating } of history) {
+    if (!recipe.cuisine) continue;
+    const cuisine = normalizeItemName(recipe.cuisine);
+    scores.set(cuisine, (scores.get(cuisine) ?? 0) + cuisineScore(rating));
+  }
+  return [...scores]
+    .filter(([, score]) => score >= FAVORITE_CUISINE_SCORE)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_FAVORITE_CUISINES)
+    .map(([cuisine]) => cuisine);
+};
+
+const isPoorlyRated = ({ rating }: CookedRecipe) => rating !== undefined && rating <= POOR_RATING;
+
+const dishIngredients = ({ recipe }: CookedRecipe) => recipe.ingredients.map(ing => ing.englishName ?? ing.name);
+
+/**
+ * Staples like salt turn up in liked dishes too, so only ingredients that never do are blamed.
+ * A generic name covers its varieties, so "mushroom" is blamed for "button mushrooms" too.
+ */
+const inferDislikedIngredients = (history: CookedRecipe[]) => {
+  const poor = history.filter(isPoorlyRated).map(dishIngredients);
+  const others = history.filter(entry => !isPoorlyRated(entry)).map(dishIngredients);
+  const uses = (dish: string[], term: string) => dish.some(name => mentionsIngredient(name, term));
+  const candidates = new Set(poor.flat().map(normalizeIngredient).filter(Boolean));
+  return [...candidates].filter(term =>
+    poor.filter(dish => uses(dish, term)).length >= DISLIKED_INGREDIENT_COUNT && !others.some(dish => uses(dish, term)));
+};
+
+/** The prep time that most cooked dishes fit within, rounded up to five minutes. */
+const inferPrepTimeBudget = (history: CookedRecipe[]) => {
+  const minutes = history.flatMap(({ recipe }) => (recipe.prepTimeMinutes ? [recipe.prepTimeMinutes] : [])).sort((a, b) => a - b);
+  if (minutes.length < MIN_PREP_TIME_SAMPLES) return undefined;
+  return Math.ceil(minutes[Math.ceil(minutes.length * PREP_TIME_SHARE) - 1] / 5) * 5;
+};
+
+const inferRecentDishes = (history: CookedRecipe[], today: Date) => {
+  const since = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - RECENT_DAYS));
+  const recent = new Map<string, string>();
+  for (const { recipe, cookedOn } of newestFirst(history)) {
+    const key = normalizeItemName(recipe.name);
+    if (cookedOn >= since && !recent.has(key)) recent.set(key, recipe.name);
+  }
+  return [...recent.values()].slice(0, MAX_RECENT_DISHES);
+};
+
+/** Works out the user's taste from what they cooked and how they rated it. */
+export const inferCookingPreferences = (history: CookedRecipe[], today = new Date()): CookingPreferences => ({
+  favoriteCuisines: inferFavoriteCuisines(history),
+  dislikedIngredients: inferDislikedIngredients(history),
+  prepTimeBudget: inferPrepTimeBudget(history),
+  recentDishes: inferRecentDishes(history, today),
+});
+
+export const hasCookingPreferences = ({ favoriteCuisines, dislikedIngredients, prepTimeBudget, recentDishes }: CookingPreferences) =>
+  favoriteCuisines.length > 0 || dislikedIngredients.length > 0 || prepTimeBudget !== undefined || recentDishes.length > 0;
@@ -0,0 +1,101 @@
+import { Translate } from './i18n';
+import { MessageKey } from './messages';
+
+/** Thrown when the model keeps returning recipes that fail validation, even after a corrective retry. */
+export class RecipeValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Recipe response failed validation: ${issues.join('; ')}`);
+    this.name = 'RecipeValidationError';
+  }
+}
+
+/** Thrown when every suggested recipe contains something a strict exclusion profile rules out. */
+export class ExclusionViolationError extends Error {
+  constructor(public readonly violations: string[]) {
+    super(`Every recipe broke a strict exclusion profile: ${violations.join('; ')}`);
+    this.name = 'ExclusionViolationError';
+  }
+}
+
+/**
+ * A failed call to the recipe service, classified so that callers know whether retrying can help
+ * and `describeError` can tell users what to do about it. The message itself is only for the logs.
+ */
+export class ServiceError extends Error {
+  constructor(message: string, public readonly retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ServiceError';
+  }
+}
+
+/** Too many requests in a short time (HTTP 429). Worth retrying after a pause. */
+export class RateLimitError extends ServiceError {
+  constructor(public readonly retryAfterMs?: number, cause?: unknown) {
+    super(retryAfterMs ? `Rate limited, retry after ${retryAfterMs} ms` : 'Rate limited', true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The API key's daily or billing quota is used up, so retrying today won't help. */
+export class QuotaExceededError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('API quota exceeded', false, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** The API key is missing, invalid or not allowed to use the model. */
+export class AuthenticationError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('API key rejected', false, cause);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** The prompt or the response was blocked by the model's safety filters. */
+export class SafetyBlockError extends ServiceError {
+  constructor(public readonly reason?: string) {
+    super(reason ? `Blocked by safety filters: ${reason}` : 'Blocked by safety filters', false);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+/** The service could not be reached at all. */
+export class NetworkError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('Could not reach the AI service', true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The service answered with a server error (HTTP 5xx) or timed out. */
+export class ServiceUnavailableError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('AI service unavailable', true, cause);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Whether a provider should pass an error on as it is: these already tell the user what went wrong,
+ * while anything else is logged and replaced with the provider's generic failure.
+ */
+export const isReportable = (error: unknown) => error instanceof RecipeValidationError || error instanceof ServiceError;
+
+/**
+ * The message to show the user for an error, in their language. The app's own errors each have
+ * one; anything else only has an English message for the logs, so it gets `fallback` instead.
+ */
+export const describeError = (error: unknown, t: Translate, fallback: MessageKey = 'error.unknown'): string => {
+  if (error instanceof RecipeValidationError) return t('error.malformedRecipes');
+  if (error instanceof ExclusionViolationError) return t('error.allExcluded');
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs ? t('error.rateLimitedFor', { seconds: Math.ceil(error.retryAfterMs / 1000) }) : t('error.rateLimited');
+  }
+  if (error instanceof QuotaExceededError) return t('error.quotaExceeded');
+  if (error instanceof AuthenticationError) return t('error.authentication');
+  if (error instanceof SafetyBlockError) return t('error.safetyBlock');
+  if (error instanceof NetworkError) return t('error.network');
+  if (error instanceof ServiceUnavailableError) return t('error.serviceUnavailable');
+  return t(fallback);
+};
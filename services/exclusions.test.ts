@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Allergen, ExclusionProfile } from '../types';
+import { containsAllergen, createExclusionProfile, enforceExclusions, findExclusionViolations } from './exclusions';
+import { makeRecipe } from './testFixtures';
+
+const profile = (overrides: Partial<ExclusionProfile>): ExclusionProfile => ({ ...createExclusionProfile('Test'), ...overrides });
+
+describe('containsAllergen', () => {
+  it.each([
+    ['toasted sesame oil', Allergen.Sesame],
+    ['Tahini', Allergen.Sesame],
+    ['chopped walnuts', Allergen.TreeNuts],
+    ['pine nuts', Allergen.TreeNuts],
+    ['Thai fish sauce', Allergen.Fish],
+    ['king prawns', Allergen.Shellfish],
+    ['unsalted butter', Allergen.Dairy],
+    ['soy sauce', Allergen.Gluten],
+    ['mayonnaise', Allergen.Eggs],
+  ])('finds the allergen in "%s"', (name, allergen) => {
+    expect(containsAllergen(name, allergen)).toBe(true);
+  });
+
+  it.each([
+    ['nutmeg', Allergen.TreeNuts],
+    ['butternut squash', Allergen.TreeNuts],
+    ['water chestnuts', Allergen.TreeNuts],
+    ['coconut milk', Allergen.TreeNuts],
+    ['coconut milk', Allergen.Dairy],
+    ['peanut butter', Allergen.Dairy],
+    ['vegan cheese', Allergen.Dairy],
+    ['eggplant', Allergen.Eggs],
+    ['rice noodles', Allergen.Gluten],
+    ['gluten-free pasta', Allergen.Gluten],
+    ['shellfish stock', Allergen.Fish],
+  ])('does not flag "%s" as %s', (name, allergen) => {
+    expect(containsAllergen(name, allergen)).toBe(false);
+  });
+});
+
+describe('findExclusionViolations', () => {
+  it('reports allergens and avoided ingredients with the profile that excluded them', () => {
+    const sam = profile({ name: 'Sam', allergens: [Allergen.Peanuts] });
+    const dislikes = profile({ name: 'Dislikes', avoidIngredients: ['cilantro'], strict: false });
+    const violations = findExclusionViolations(makeRecipe({ name: 'Satay', ingredients: ['peanut sauce', 'fresh coriander', 'rice'].map(name => ({ name, quantity: '1' })) }), [sam, dislikes]);
+    expect(violations.map(({ ingredient, excluded, profile }) => [ingredient, excluded, profile.name])).toEqual([
+      ['peanut sauce', Allergen.Peanuts, 'Sam'],
+      ['fresh coriander', 'cilantro', 'Dislikes'],
+    ]);
+  });
+
+  it('finds allergens in ingredients written in another language', () => {
+    const sam = profile({ name: 'Sam', allergens: [Allergen.Dairy, Allergen.Eggs] });
+    const violations = findExclusionViolations(makeRecipe({ name: 'Flan', ingredients: ['Leche entera', 'Huevos', 'Azúcar'].map(name => ({ name, quantity: '1' })) }), [sam]);
+    expect(violations.map(({ ingredient, excluded }) => [ingredient, excluded])).toEqual([
+      ['Leche entera', Allergen.Dairy],
+      ['Huevos', Allergen.Eggs],
+    ]);
+  });
+});
+
+describe('enforceExclusions', () => {
+  const curry = makeRecipe({ name: 'Prawn Curry', ingredients: ['prawns', 'coconut milk', 'cilantro'].map(name => ({ name, quantity: '1' })) });
+  const salad = makeRecipe({ name: 'Herb Salad', ingredients: ['lettuce', 'cilantro'].map(name => ({ name, quantity: '1' })) });
+  const pasta = makeRecipe({ name: 'Pasta', ingredients: ['pasta', 'tomatoes'].map(name => ({ name, quantity: '1' })) });
+
+  it('rejects recipes that break a strict profile and warns about the rest', () => {
+    const { allowed, rejected } = enforceExclusions([curry, salad, pasta], [
+      profile({ allergens: [Allergen.Shellfish] }),
+      profile({ avoidIngredients: ['cilantro'], strict: false }),
+    ]);
+    expect(rejected.map(({ recipe }) => recipe.name)).toEqual(['Prawn Curry']);
+    expect(allowed.map(({ recipe, warnings }) => [recipe.name, warnings.length])).toEqual([['Herb Salad', 1], ['Pasta', 0]]);
+  });
+
+  it('ignores disabled profiles', () => {
+    const { rejected } = enforceExclusions([curry], [profile({ allergens: [Allergen.Shellfish], enabled: false })]);
+    expect(rejected).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { Allergen, ExclusionProfile, Recipe } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { ingredientNames, mentionsIngredient, translateIngredient } from './ingredientMatcher';
+import { normalizeItemName } from './pantryService';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+
+const PROFILES_STORAGE_KEY = 'smart-fridge.exclusion-profiles';
+
+/**
+ * Ingredient keywords that signal each allergen, look-alikes that don't ("peanut butter" is not
+ * dairy), and qualifiers that rule the allergen out entirely ("vegan cheese").
+ */
+const ALLERGEN_KEYWORDS: Record<Allergen, { keywords: string[]; except: string[]; freeOf?: string[] }> = {
+  [Allergen.Peanuts]: { keywords: ['peanut', 'groundnut', 'satay'], except: [] },
+  [Allergen.TreeNuts]: {
+    keywords: ['nut', 'almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'chestnut', 'praline', 'marzipan', 'nutella', 'frangipane'],
+    except: ['water chestnut'],
+  },
+  [Allergen.Dairy]: {
+    keywords: ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'ghee', 'parmesan', 'mozzarella', 'feta', 'ricotta', 'cheddar', 'whey', 'buttermilk', 'custard', 'mascarpone', 'paneer'],
+    except: ['peanut butter', 'almond butter', 'cashew butter', 'cocoa butter', 'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'cream of tartar'],
+    freeOf: ['dairy-free', 'dairy free', 'vegan', 'plant-based'],
+  },
+  [Allergen.Eggs]: { keywords: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli'], except: [], freeOf: ['egg-free', 'egg free', 'vegan'] },
+  [Allergen.Gluten]: {
+    keywords: ['flour', 'wheat', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'penne', 'noodle', 'couscous', 'barley', 'rye', 'bulgur', 'seitan', 'tortilla', 'pita', 'soy sauce', 'beer'],
+    except: ['rice noodle', 'rice flour', 'almond flour', 'coconut flour', 'corn tortilla', 'chickpea flour', 'corn flour'],
+    freeOf: ['gluten-free', 'gluten free'],
+  },
+  [Allergen.Soy]: { keywords: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'], except: [] },
+  [Allergen.Fish]: {
+    keywords: ['fish', 'salmon', 'tuna', 'cod', 'anchovy', 'anchovies', 'sardine', 'trout', 'halibut', 'tilapia', 'mackerel', 'haddock', 'worcestershire'],
+    except: [],
+  },
+  [Allergen.Shellfish]: {
+    keywords: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'langoustine', 'scallop', 'clam', 'mussel', 'oyster', 'squid', 'calamari', 'octopus'],
+    except: [],
+  },
+  [Allergen.Sesame]: { keywords: ['sesame', 'tahini', 'halva', 'halvah'], except: [] },
+};
+
+export interface ExclusionViolation {
+  ingredient: string;
+  /** What was matched: an allergen or one of the profile's avoided ingredients. */
+  excluded: string;
+  profile: ExclusionProfile;
+}
+
+export const loadExclusionProfiles = (): ExclusionProfile[] => loadJSON<ExclusionProfile[]>(PROFILES_STORAGE_KEY, []);
+
+export const saveExclusionProfiles = (profiles: ExclusionProfile[]) => saveJSON(PROFILES_STORAGE_KEY, profiles);
+
+export const createExclusionProfile = (name: string): ExclusionProfile =>
+  ({ id: crypto.randomUUID(), name, allergens: [], avoidIngredients: [], strict: true, enabled: true });
+
+export const updateExclusionProfile = (profiles: ExclusionProfile[], id: string, changes: Partial<Omit<ExclusionProfile, 'id'>>): ExclusionProfile[] =>
+  profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile));
+
+export const removeExclusionProfile = (profiles: ExclusionProfile[], id: string): ExclusionProfile[] => profiles.filter(profile => profile.id !== id);
+
+export const activeProfiles = (profiles: ExclusionProfile[]) => profiles.filter(profile => profile.enabled);
+
+const matchesKeyword = (name: string, keyword: string) => new RegExp(`\\b${keyword}(?:s|es)?\\b`).test(name);
+
+/** Whether an ingredient name contains the allergen, e.g. "tahini" contains sesame but "nutmeg" has no tree nuts. */
+export const containsAllergen = (ingredientName: string, allergen: Allergen) => {
+  const { keywords, except, freeOf = [] } = ALLERGEN_KEYWORDS[allergen];
+  const normalized = normalizeItemName(ingredientName);
+  if (freeOf.some(qualifier => normalized.includes(qualifier))) return false;
+  const name = except.reduce((text, phrase) => text.replace(new RegExp(`\\b${phrase}s?\\b`, 'g'), ' '), normalized);
+  return keywords.some(keyword => matchesKeyword(name, keyword));
+};
+
+/**
+ * Scans a recipe's ingredients against every given profile. Ingredients in a recipe written in
+ * another language are also checked by their English name, given or translated.
+ */
+export const findExclusionViolations = (recipe: Recipe, profiles: ExclusionProfile[]): ExclusionViolation[] =>
+  recipe.ingredients.flatMap(ingredient => {
+    const names = [...new Set([...ingredientNames(ingredient), translateIngredient(ingredient.name)])];
+    return profiles.flatMap(profile => [
+      ...profile.allergens.filter(allergen => names.some(name => containsAllergen(name, allergen))),
+      ...profile.avoidIngredients.filter(term => names.some(name => mentionsIngredient(name, term))),
+    ].map(excluded => ({ ingredient: ingredient.name, excluded, profile })));
+  });
+
+const isAllergen = (excluded: string): excluded is Allergen => excluded in ALLERGEN_KEYWORDS;
+
+export const describeViolation = ({ ingredient, excluded, profile }: ExclusionViolation, t: Translate = createTranslator(DEFAULT_LOCALE)) =>
+  `${ingredient} (${isAllergen(excluded) ? t(`allergen.${excluded}`) : excluded}, ${profile.name})`;
+
+/**
+ * Splits recipes into those that are safe to show, with warnings for non-strict profiles, and
+ * those that break a strict profile and must not be shown at all.
+ */
+export const enforceExclusions = (recipes: Recipe[], profiles: ExclusionProfile[]) => {
+  const allowed: { recipe: Recipe; warnings: ExclusionViolation[] }[] = [];
+  const rejected: { recipe: Recipe; violations: ExclusionViolation[] }[] = [];
+  for (const recipe of recipes) {
+    const violations = findExclusionViolations(recipe, activeProfiles(profiles));
+    if (violations.some(violation => violation.profile.strict)) {
+      rejected.push({ recipe, violations });
+    } else {
+      allowed.push({ recipe, warnings: violations });
+    }
+  }
+  return { allowed, rejected };
+};
@@ -0,0 +1,49 @@
+export const readFileAsDataURL = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = (err) => reject(err);
+  reader.readAsDataURL(file);
+});
+
+export const readFileAsText = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = (err) => reject(err);
+  reader.readAsText(file);
+});
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Decodes a base64 or URL-encoded data URL, so that it can be stored as binary rather than text. */
+export const dataURLToBlob = (dataUrl: string) => {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) throw new Error('Not a data URL');
+  const [, mimeType, base64, data] = match;
+  if (!base64) return new Blob([decodeURIComponent(data)], { type: mimeType });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType.split(';')[0] });
+};
+
+/** Prints a standalone HTML document from a hidden frame, so that none of the app's own layout ends up on paper. */
+export const printHTML = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+  frame.onload = () => {
+    const printWindow = frame.contentWindow!;
+    printWindow.onafterprint = () => frame.remove();
+    printWindow.focus();
+    printWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
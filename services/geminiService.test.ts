@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Allergen, DietaryRestriction, Equipment, IngredientCategory, InventoryItem, Recipe } from '../types';
+
+const { generateContent, generateContentStream, createChat } = vi.hoisted(() => ({ generateContent: vi.fn(), generateContentStream: vi.fn(), createChat: vi.fn() }));
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  return { ...actual, GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream }, chats: { create: createChat } })) };
+});
+
+/** Streams a response's text in chunks of `size` characters. */
+async function* streamText(text: string, size = 40) {
+  for (let i = 0; i < text.length; i += size) {
+    yield { text: text.slice(i, i + size) };
+  }
+}
+
+import { fileToGenerativePart, getRecipes, generateRecipeImage, startChefChat } from './geminiService';
+import { AuthenticationError, RateLimitError, RecipeValidationError, SafetyBlockError } from './errors';
+
+const ingredients: InventoryItem[] = [
+  { name: 'eggs', quantity: 6, unit: 'pieces', category: IngredientCategory.Dairy, confidence: 0.9, shelfLifeDays: 14 },
+];
+
+const validRecipe = {
+  name: 'Omelette',
+  difficulty: 'Easy',
+  prepTime: '10 minutes',
+  calories: 300,
+  ingredients: [{ name: 'eggs', quantity: '3' }],
+  instructions: ['Whisk the eggs.', 'Cook them.'],
+};
+
+beforeEach(() => {
+  vi.stubEnv('API_KEY', 'test-key');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  generateContent.mockReset();
+  // Chats answer each message with whatever the plain mock is set up to return.
+  createChat.mockReset().mockImplementation(() => ({ sendMessage: generateContent }));
+  // Streamed calls answer with whatever the plain mock is set up to return.
+  generateContentStream.mockReset().mockImplementation(async (params) => streamText((await generateContent(params)).text ?? ''));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('fileToGenerativePart', () => {
+  it('encodes the file as base64 inline data with its mime type', async () => {
+    const file = new File(['hello'], 'fridge.png', { type: 'image/png' });
+    await expect(fileToGenerativePart(file)).resolves.toEqual({
+      inlineData: { data: btoa('hello'), mimeType: 'image/png' },
+    });
+  });
+});
+
+describe('getRecipes', () => {
+  it('parses the recipes from the JSON response', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    await expect(getRecipes(ingredients, [])).resolves.toEqual([{ ...validRecipe, prepTimeMinutes: 10 }]);
+  });
+
+  it('retries with a corrective prompt after malformed JSON', async () => {
+    generateContent
+      .mockResolvedValueOnce({ text: '{"recipes": [' })
+      .mockResolvedValueOnce({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    const recipes = await getRecipes(ingredients, []);
+    expect(recipes.map(recipe => recipe.name)).toEqual(['Omelette']);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(generateContent.mock.calls[1][0].contents).toContain('response is not valid JSON');
+  });
+
+  it('throws a RecipeValidationError when the model keeps returning malformed JSON', async () => {
+    generateContent.mockResolvedValue({ text: '{"recipes": [' });
+    await expect(getRecipes(ingredients, [])).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('drops recipes with missing fields and keeps the valid ones', async () => {
+    const { instructions, ...withoutInstructions } = validRecipe;
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [{ ...withoutInstructions, name: 'Broken' }, validRecipe] }) });
+    const recipes = await getRecipes(ingredients, []);
+    expect(recipes.map(recipe => recipe.name)).toEqual(['Omelette']);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('normalizes the casing of difficulty values', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [{ ...validRecipe, difficulty: 'easy' }] }) });
+    const [recipe] = await getRecipes(ingredients, []);
+    expect(recipe.difficulty).toBe('Easy');
+  });
+
+  it('rejects unknown difficulty values', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [{ ...validRecipe, difficulty: 'Impossible' }] }) });
+    await expect(getRecipes(ingredients, [])).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('wraps transport errors in a friendly message', async () => {
+    generateContent.mockRejectedValue(new Error('socket hang up'));
+    await expect(getRecipes(ingredients, [])).rejects.toThrow('Failed to generate recipes with Gemini API.');
+  });
+
+  it('retries server errors and returns the recipes from the attempt that succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    generateContent
+      .mockRejectedValueOnce(Object.assign(new Error('{"error":{"code":503,"status":"UNAVAILABLE"}}'), { status: 503 }))
+      .mockResolvedValueOnce({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    const recipes = await getRecipes(ingredients, []);
+    expect(recipes.map(recipe => recipe.name)).toEqual(['Omelette']);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a rate limit once the retries are used up', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    generateContent.mockRejectedValue(Object.assign(new Error('RESOURCE_EXHAUSTED'), { status: 429 }));
+    await expect(getRecipes(ingredients, [])).rejects.toBeInstanceOf(RateLimitError);
+    expect(generateContent).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry a rejected API key', async () => {
+    generateContent.mockRejectedValue(Object.assign(new Error('API key not valid'), { status: 400 }));
+    await expect(getRecipes(ingredients, [])).rejects.toBeInstanceOf(AuthenticationError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a response stopped by the safety filters', async () => {
+    generateContentStream.mockImplementation(async function* () {
+      yield { text: '{"recipes": [', candidates: [{ finishReason: 'SAFETY' }] };
+    });
+    await expect(getRecipes(ingredients, [])).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it('passes each recipe on as soon as it has streamed in', async () => {
+    const second = { ...validRecipe, name: 'Frittata' };
+    const text = JSON.stringify({ recipes: [validRecipe, second] });
+    const seen: string[][] = [];
+    const names: string[] = [];
+    generateContentStream.mockImplementation(async function* () {
+      for await (const chunk of streamText(text)) {
+        seen.push([...names]);
+        yield chunk;
+      }
+    });
+    const recipes = await getRecipes(ingredients, [], [], { onRecipe: recipe => names.push(recipe.name) });
+    expect(names).toEqual(['Omelette', 'Frittata']);
+    expect(seen.some(snapshot => snapshot.length === 1)).toBe(true);
+    expect(recipes.map(recipe => recipe.name)).toEqual(names);
+  });
+
+  it('keeps the complete recipes from a response that was cut off', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe, validRecipe] }).slice(0, -40) });
+    const recipes = await getRecipes(ingredients, []);
+    expect(recipes.map(recipe => recipe.name)).toEqual(['Omelette']);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with the abort reason instead of a friendly error when cancelled', async () => {
+    const controller = new AbortController();
+    generateContent.mockImplementation(({ config }) => new Promise((_, reject) => {
+      config.abortSignal.addEventListener('abort', () => reject(new Error('request aborted')));
+    }));
+    const request = getRecipes(ingredients, [], [], { signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('includes the dietary restrictions in the prompt', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    await getRecipes(ingredients, [DietaryRestriction.Vegan]);
+    expect(generateContent.mock.calls[0][0].contents).toContain('dietary restrictions: Vegan');
+  });
+
+  it('includes active exclusion profiles in the prompt', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    await getRecipes(ingredients, [], [
+      { id: '1', name: 'Sam', allergens: [Allergen.Sesame], avoidIngredients: [], strict: true, enabled: true },
+      { id: '2', name: 'Dislikes', allergens: [], avoidIngredients: ['cilantro'], strict: false, enabled: true },
+      { id: '3', name: 'Guest', allergens: [Allergen.Shellfish], avoidIngredients: [], strict: true, enabled: false },
+    ]);
+    const prompt = generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('allergies to sesame');
+    expect(prompt).toContain('Avoid these disliked ingredients where possible: cilantro.');
+    expect(prompt).not.toContain('shellfish');
+  });
+
+  it('includes the sidebar constraints and recipe count in the prompt', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    await getRecipes(ingredients, [], [], {
+      constraints: { cuisine: 'Italian', maxPrepMinutes: 20, maxDifficulty: 'Medium', equipment: [Equipment.Stovetop, Equipment.Microwave], onePan: true, recipeCount: 3 },
+    });
+    const prompt = generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('suggest 3 diverse recipes');
+    expect(prompt).toContain('Every recipe must be Italian cuisine.');
+    expect(prompt).toContain('20 minutes or less in total');
+    expect(prompt).toContain('Only suggest Easy or Medium recipes.');
+    expect(prompt).toContain('The user has no oven, grill, slow cooker, air fryer, blender, so only suggest dishes that can be made with: stovetop, microwave.');
+    expect(prompt).toContain('single pan or pot');
+  });
+
+  it('steers the suggestions by the preferences learned from the cooking history', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [validRecipe] }) });
+    await getRecipes(ingredients, [], [], {
+      preferences: { favoriteCuisines: ['italian', 'thai'], dislikedIngredients: ['mushroom'], prepTimeBudget: 30, recentDishes: ['Risotto', 'Pad Thai'] },
+    });
+    const prompt = generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('enjoys italian, thai cooking');
+    expect(prompt).toContain('dishes with mushroom');
+    expect(prompt).toContain('take up to 30 minutes');
+    expect(prompt).toContain("cooked these dishes recently, so don't suggest them or close variations of them: Risotto; Pad Thai.");
+  });
+
+  it('asks for the recipes in the chosen language with English ingredient names', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ recipes: [{ ...validRecipe, name: 'Tortilla', ingredients: [{ name: 'huevos', englishName: 'eggs', quantity: '3' }] }] }) });
+    const recipes = await getRecipes(ingredients, [], [], { locale: 'es' });
+    expect(generateContent.mock.calls[0][0].contents).toContain('in Spanish');
+    expect(recipes[0].ingredients).toEqual([{ name: 'huevos', englishName: 'eggs', quantity: '3' }]);
+  });
+});
+
+describe('generateRecipeImage', () => {
+  it('returns the inline image data as a data URL', async () => {
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ inlineData: { data: 'abc123' } }] } }] });
+    await expect(generateRecipeImage('Omelette')).resolves.toBe('data:image/png;base64,abc123');
+  });
+
+  it('throws when the response has no inline data', async () => {
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'I cannot draw that.' }] } }] });
+    await expect(generateRecipeImage('Omelette')).rejects.toThrow('Failed to generate an image for the recipe: Omelette.');
+  });
+
+  it('reports a prompt blocked by the safety filters', async () => {
+    generateContent.mockResolvedValue({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } });
+    await expect(generateRecipeImage('Omelette')).rejects.toMatchObject({ name: 'SafetyBlockError', reason: 'PROHIBITED_CONTENT' });
+  });
+
+  it('throws when the response has no candidates', async () => {
+    generateContent.mockResolvedValue({ candidates: [] });
+    await expect(generateRecipeImage('Omelette')).rejects.toThrow('Failed to generate an image for the recipe: Omelette.');
+  });
+});
+
+describe('startChefChat', () => {
+  const recipe: Recipe = { ...validRecipe, difficulty: 'Easy', prepTimeMinutes: 10 };
+
+  it('keeps one chat seeded with the recipe and the owned ingredients', async () => {
+    generateContent
+      .mockResolvedValueOnce({ text: JSON.stringify({ reply: 'Yes, use Greek yogurt.' }) })
+      .mockResolvedValueOnce({ text: JSON.stringify({ reply: 'Here you go.', recipe: { ...validRecipe, name: 'Yogurt Omelette' } }) });
+    const chat = startChefChat(recipe, ['eggs', 'greek yogurt']);
+    await expect(chat.send('Can I use yogurt?')).resolves.toEqual({ role: 'chef', text: 'Yes, use Greek yogurt.' });
+    await expect(chat.send('Update the recipe')).resolves.toMatchObject({ text: 'Here you go.', recipe: { name: 'Yogurt Omelette' } });
+    expect(createChat).toHaveBeenCalledTimes(1);
+    const instruction = createChat.mock.calls[0][0].config.systemInstruction;
+    expect(instruction).toContain('"name":"Omelette"');
+    expect(instruction).toContain('eggs, greek yogurt');
+    expect(generateContent.mock.calls[1][0]).toMatchObject({ message: 'Update the recipe', config: { systemInstruction: instruction } });
+  });
+
+  it('wraps transport errors in a friendly message', async () => {
+    generateContent.mockRejectedValue(new Error('socket hang up'));
+    await expect(startChefChat(recipe, []).send('Hi')).rejects.toThrow('Failed to get an answer from the chef with Gemini API.');
+  });
+});
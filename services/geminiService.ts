@@ -1,14 +1,85 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Recipe, DietaryRestriction } from '../types';
+import { GoogleGenAI, Type, Modality, GenerateContentResponse, Chat } from "@google/genai";
+import { Recipe, DietaryRestriction, ExclusionProfile, InventoryItem, IngredientCategory, Locale, MealPlanRequest, PlannedMeal } from '../types';
+import { ChefChat, RecipeProvider, RecipeRequestOptions } from './recipeProvider';
+import { FRIDGE_ANALYSIS_PROMPT, buildRecipePrompt, buildRecipeImagePrompt, buildMealPlanPrompt, buildChefChatInstruction } from './prompts';
+import { generateValidatedRecipes, generateValidatedMealPlan, validateRecipe } from './recipeValidation';
+import { createJsonArrayStreamParser } from './jsonStream';
+import { parseChefReply } from './chefChat';
+import { SafetyBlockError, isReportable } from './errors';
+import { withRetry } from './request';
+import { createTranslator } from './i18n';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+let ai: GoogleGenAI | null = null;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app can load without a key when another provider is configured.
+const getClient = () => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    ai ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return ai;
+};
+
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+// Gemini reports blocked prompts and responses inside an otherwise successful response.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const finishReason = response.candidates?.[0]?.finishReason;
+    const reason = response.promptFeedback?.blockReason ?? (finishReason && BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : undefined);
+    if (reason) throw new SafetyBlockError(reason);
+    return response;
+};
+
+// Shared by the recipe list and the meal plan responses.
+const RECIPE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        name: { type: Type.STRING, description: "The name of the recipe." },
+        difficulty: { type: Type.STRING, enum: ['Easy', 'Medium', 'Hard'], description: "Difficulty level: Easy, Medium, or Hard." },
+        prepTime: { type: Type.STRING, description: "Estimated preparation and cooking time, e.g., '30 minutes'." },
+        prepTimeMinutes: { type: Type.INTEGER, description: "The same preparation and cooking time in minutes, e.g., 30." },
+        servings: { type: Type.INTEGER, description: "How many servings the ingredient quantities make." },
+        cuisine: { type: Type.STRING, description: "The cuisine the dish belongs to, e.g., 'Italian' or 'Thai'." },
+        calories: { type: Type.INTEGER, description: "Approximate calorie count per serving." },
+        nutrition: {
+            type: Type.OBJECT,
+            description: "Approximate nutrition facts per serving.",
+            properties: {
+                protein: { type: Type.NUMBER, description: "Protein in grams." },
+                carbs: { type: Type.NUMBER, description: "Total carbohydrates in grams." },
+                fat: { type: Type.NUMBER, description: "Fat in grams." },
+                fiber: { type: Type.NUMBER, description: "Dietary fiber in grams." },
+                sugar: { type: Type.NUMBER, description: "Sugar in grams." },
+                sodium: { type: Type.NUMBER, description: "Sodium in milligrams." }
+            },
+            required: ['protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium']
+        },
+        ingredients: {
+            type: Type.ARRAY,
+            description: "A list of all ingredients required for the recipe.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: "Name of the ingredient." },
+                    quantity: { type: Type.STRING, description: "Quantity of the ingredient, e.g., '2 cups' or '1 large'." },
+                    englishName: { type: Type.STRING, description: "The ingredient's common English name, when the recipe is written in another language." }
+                },
+                required: ['name', 'quantity']
+            }
+        },
+        instructions: {
+            type: Type.ARRAY,
+            description: "Step-by-step cooking instructions.",
+            items: {
+                type: Type.STRING
+            }
+        }
+    },
+    required: ['name', 'difficulty', 'prepTime', 'servings', 'calories', 'nutrition', 'ingredients', 'instructions']
+};
 
-const fileToGenerativePart = (file: File) => {
+export const fileToGenerativePart = (file: File) => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
@@ -28,99 +99,182 @@ const fileToGenerativePart = (file: File) => {
   });
 };
 
-export const analyzeFridgeContents = async (imageFile: File): Promise<string[]> => {
+export const analyzeFridgeContents = async (imageFile: File): Promise<InventoryItem[]> => {
     try {
         const imagePart = await fileToGenerativePart(imageFile);
-        const prompt = "Analyze this image of a fridge's contents. Identify all edible food items and ingredients. Return a comma-separated list of the items you find. Be concise and focus only on the ingredients. For example: 'eggs, milk, cheddar cheese, lettuce, tomatoes, chicken breast'.";
         
-        const response = await ai.models.generateContent({
+        const response = assertNotBlocked(await withRetry(() => getClient().models.generateContent({
           model: 'gemini-2.5-flash',
-          contents: { parts: [imagePart as any, { text: prompt }] },
-        });
+          contents: { parts: [imagePart as any, { text: FRIDGE_ANALYSIS_PROMPT }] },
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                items: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      name: { type: Type.STRING, description: "Name of the ingredient." },
+                      quantity: { type: Type.NUMBER, description: "Estimated amount visible, e.g. 6 for a carton of eggs." },
+                      unit: { type: Type.STRING, description: "Unit for the quantity, e.g. 'pieces', 'liters', 'grams' or 'bunch'." },
+                      category: { type: Type.STRING, enum: Object.values(IngredientCategory), description: "Food category of the item." },
+                      confidence: { type: Type.NUMBER, description: "Confidence in the identification, from 0 to 1." },
+                      shelfLifeDays: { type: Type.INTEGER, description: "Estimated number of days before the item spoils." }
+                    },
+                    required: ['name', 'quantity', 'unit', 'category', 'confidence', 'shelfLifeDays']
+                  }
+                }
+              },
+              required: ['items']
+            },
+          },
+        })));
 
-        const ingredientsText = response.text;
-        if (!ingredientsText) return [];
-        
-        return ingredientsText.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+        const jsonStr = response.text?.trim();
+        if (!jsonStr) return [];
+
+        const result = JSON.parse(jsonStr);
+        return (result.items as InventoryItem[])
+          .map(item => ({ ...item, name: item.name.trim().toLowerCase() }))
+          .filter(item => item.name);
     } catch (error) {
+        if (isReportable(error)) throw error;
         console.error("Error analyzing fridge contents:", error);
         throw new Error("Failed to analyze image with Gemini API.");
     }
 };
 
-export const getRecipes = async (ingredients: string[], filters: DietaryRestriction[]): Promise<Recipe[]> => {
-    const filtersText = filters.length > 0 ? ` The user has the following dietary restrictions: ${filters.join(', ')}.` : '';
-    const prompt = `Based on the following ingredients: ${ingredients.join(', ')}, suggest 5 diverse recipes.${filtersText} For each recipe, provide a name, difficulty (Easy, Medium, or Hard), estimated prep time, approximate calorie count, a list of all required ingredients with quantities, and step-by-step instructions. Some of the provided ingredients might not be enough for a full recipe, so feel free to include other common ingredients as 'missing'.`;
+/** Streams the response so that each recipe can be passed to `onRecipe` as soon as it is complete. */
+export const getRecipes = async (ingredients: InventoryItem[], filters: DietaryRestriction[], exclusions: ExclusionProfile[] = [], { onRecipe, signal, locale, preferences, constraints }: RecipeRequestOptions = {}): Promise<Recipe[]> => {
+    const prompt = buildRecipePrompt(ingredients, filters, exclusions, locale, preferences, constraints);
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        recipes: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    name: { type: Type.STRING, description: "The name of the recipe." },
-                                    difficulty: { type: Type.STRING, description: "Difficulty level: Easy, Medium, or Hard." },
-                                    prepTime: { type: Type.STRING, description: "Estimated preparation and cooking time, e.g., '30 minutes'." },
-                                    calories: { type: Type.INTEGER, description: "Approximate calorie count per serving." },
-                                    ingredients: {
-                                        type: Type.ARRAY,
-                                        description: "A list of all ingredients required for the recipe.",
-                                        items: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                name: { type: Type.STRING, description: "Name of the ingredient." },
-                                                quantity: { type: Type.STRING, description: "Quantity of the ingredient, e.g., '2 cups' or '1 large'." }
-                                            },
-                                            required: ['name', 'quantity']
-                                        }
-                                    },
-                                    instructions: {
-                                        type: Type.ARRAY,
-                                        description: "Step-by-step cooking instructions.",
-                                        items: {
-                                            type: Type.STRING
-                                        }
-                                    }
-                                },
-                                required: ['name', 'difficulty', 'prepTime', 'calories', 'ingredients', 'instructions']
+        return await generateValidatedRecipes(prompt, async (attemptPrompt) => {
+            const stream = await withRetry(() => getClient().models.generateContentStream({
+                model: "gemini-2.5-flash",
+                contents: attemptPrompt,
+                config: {
+                    abortSignal: signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            recipes: {
+                                type: Type.ARRAY,
+                                items: RECIPE_SCHEMA,
                             }
-                        }
+                        },
+                        required: ['recipes']
                     },
-                    required: ['recipes']
                 },
-            },
+            }), { signal });
+            const parseRecipes = createJsonArrayStreamParser('recipes');
+            let text = '';
+            for await (const chunk of stream) {
+                assertNotBlocked(chunk);
+                const chunkText = chunk.text ?? '';
+                text += chunkText;
+                for (const item of parseRecipes(chunkText)) {
+                    const { recipe } = validateRecipe(item);
+                    if (recipe) onRecipe?.(recipe);
+                }
+            }
+            return text;
         });
-        
-        const jsonStr = response.text.trim();
-        const result = JSON.parse(jsonStr);
-        return result.recipes as Recipe[];
-
     } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        if (isReportable(error)) throw error;
         console.error("Error generating recipes:", error);
         throw new Error("Failed to generate recipes with Gemini API.");
     }
 };
 
-export const generateRecipeImage = async (recipeName: string): Promise<string> => {
+export const getMealPlan = async (ingredients: InventoryItem[], filters: DietaryRestriction[], request: MealPlanRequest, exclusions: ExclusionProfile[] = [], locale: Locale = 'en'): Promise<PlannedMeal[]> => {
+    const prompt = buildMealPlanPrompt(ingredients, filters, request, exclusions, locale);
+
+    try {
+        return await generateValidatedMealPlan(prompt, request, async (attemptPrompt) => {
+            const response = assertNotBlocked(await withRetry(() => getClient().models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: attemptPrompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            meals: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        day: { type: Type.INTEGER, description: "Day of the plan, starting at 1 for today." },
+                                        slot: { type: Type.STRING, enum: ['Breakfast', 'Lunch', 'Dinner'], description: "Which meal of the day." },
+                                        recipe: RECIPE_SCHEMA
+                                    },
+                                    required: ['day', 'slot', 'recipe']
+                                }
+                            }
+                        },
+                        required: ['meals']
+                    },
+                },
+            })));
+            return response.text;
+        });
+    } catch (error) {
+        if (isReportable(error)) throw error;
+        console.error("Error generating meal plan:", error);
+        throw new Error("Failed to generate a meal plan with Gemini API.");
+    }
+};
+
+/** Keeps one Gemini chat per conversation, so the recipe and the earlier turns are sent along with every message. */
+export const startChefChat = (recipe: Recipe, ownedIngredients: string[], exclusions: ExclusionProfile[] = [], locale: Locale = 'en'): ChefChat => {
+    let chat: Chat | null = null;
+    const config = {
+        systemInstruction: buildChefChatInstruction(recipe, ownedIngredients, exclusions, locale),
+        responseMimeType: "application/json",
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                reply: { type: Type.STRING, description: "The answer to the user's message, in a few friendly sentences." },
+                recipe: { ...RECIPE_SCHEMA, description: "The complete modified recipe, only when the answer changes the recipe." }
+            },
+            required: ['reply']
+        },
+    };
+    return {
+        send: async (message, signal) => {
+            try {
+                chat ??= getClient().chats.create({ model: "gemini-2.5-flash", config });
+                // A config passed with a message replaces the chat's own, so the whole config goes along each time.
+                const response = assertNotBlocked(await withRetry(() => chat!.sendMessage({ message, config: { ...config, abortSignal: signal } }), { signal }));
+                return parseChefReply(response.text, createTranslator(locale));
+            } catch (error) {
+                if (signal?.aborted) throw signal.reason;
+                if (isReportable(error)) throw error;
+                console.error("Error asking the chef:", error);
+                throw new Error("Failed to get an answer from the chef with Gemini API.");
+            }
+        },
+    };
+};
+
+export const generateRecipeImage = async (recipeName: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const prompt = `A delicious and professional photo of "${recipeName}", beautifully plated on a clean, modern dish. The lighting should be bright and natural, highlighting the textures of the food.`;
-        const response = await ai.models.generateContent({
+        const prompt = buildRecipeImagePrompt(recipeName);
+        const response = assertNotBlocked(await withRetry(() => getClient().models.generateContent({
             model: 'gemini-2.5-flash-image',
             contents: {
               parts: [{ text: prompt }],
             },
             config: {
+                abortSignal: signal,
                 responseModalities: [Modality.IMAGE],
             },
-        });
+        }), { signal }));
 
         for (const part of response.candidates[0].content.parts) {
             if (part.inlineData) {
@@ -131,7 +285,17 @@ export const generateRecipeImage = async (recipeName: string): Promise<string> =
         throw new Error("No image data found in Gemini response.");
 
     } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        if (isReportable(error)) throw error;
         console.error(`Error generating image for recipe "${recipeName}":`, error);
         throw new Error(`Failed to generate an image for the recipe: ${recipeName}.`);
     }
 };
+
+export const geminiProvider: RecipeProvider = {
+    analyzeFridgeContents,
+    getRecipes,
+    generateRecipeImage,
+    getMealPlan,
+    startChefChat,
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Locale } from '../types';
+import { createTranslator, detectLocale, pickVoice } from './i18n';
+import { MESSAGES } from './messages';
+
+const voice = (lang: string, name = lang) => ({ lang, name }) as SpeechSynthesisVoice;
+
+describe('createTranslator', () => {
+  it('fills in the placeholders from the params', () => {
+    expect(createTranslator('en')('app.savedRecipes', { count: 3 })).toBe('Saved recipes (3)');
+    expect(createTranslator('es')('app.savedRecipes', { count: 3 })).toBe('Recetas guardadas (3)');
+  });
+
+  it.each(['es', 'de'] as Locale[])('uses the same placeholders in %s as in English', (locale) => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+    for (const [key, text] of Object.entries(MESSAGES.en)) {
+      expect(placeholders(MESSAGES[locale][key as keyof typeof MESSAGES.en]), key).toEqual(placeholders(text));
+    }
+  });
+});
+
+describe('detectLocale', () => {
+  it('picks the first preferred language the app speaks', () => {
+    expect(detectLocale(['fr-FR', 'de-AT', 'es-ES'])).toBe('de');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['fr-FR', 'it'])).toBe('en');
+  });
+});
+
+describe('pickVoice', () => {
+  it("prefers a voice for the locale's region", () => {
+    expect(pickVoice([voice('es-MX'), voice('es-ES'), voice('en-US')], 'es')?.lang).toBe('es-ES');
+  });
+
+  it('settles for any voice in the language', () => {
+    expect(pickVoice([voice('en-US'), voice('de_AT')], 'de')?.lang).toBe('de_AT');
+  });
+
+  it('returns nothing when no voice speaks the language', () => {
+    expect(pickVoice([voice('en-US')], 'de')).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { Locale } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { MESSAGES, MessageKey } from './messages';
+
+export const LOCALES: Record<Locale, { label: string; language: string; languageTag: string }> = {
+  en: { label: 'English', language: 'English', languageTag: 'en-US' },
+  es: { label: 'Español', language: 'Spanish', languageTag: 'es-ES' },
+  de: { label: 'Deutsch', language: 'German', languageTag: 'de-DE' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const LOCALE_STORAGE_KEY = 'smart-fridge.locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/** The first of the browser's preferred languages that the app speaks, or English. */
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale =>
+  languages.map(tag => tag.slice(0, 2).toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
+
+export const loadLocale = (): Locale => {
+  const stored = loadJSON<unknown>(LOCALE_STORAGE_KEY, null);
+  return isLocale(stored) ? stored : detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => saveJSON(LOCALE_STORAGE_KEY, locale);
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/** Looks up UI text in the locale's messages and fills in `{placeholders}` from `params`. */
+export const createTranslator = (locale: Locale): Translate => (key, params = {}) =>
+  MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+/** The voice for the locale's region if one is installed, and otherwise any voice in its language. */
+export const pickVoice = (voices: SpeechSynthesisVoice[], locale: Locale) => {
+  const tag = LOCALES[locale].languageTag.toLowerCase();
+  const tagOf = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  return voices.find(voice => tagOf(voice) === tag) ?? voices.find(voice => tagOf(voice).split('-')[0] === locale);
+};
+
+/**
+ * An utterance read out in the locale's language. Browsers load their voices lazily, so until they
+ * have, the language tag alone picks the default voice for it.
+ */
+export const createUtterance = (text: string, locale: Locale) => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = LOCALES[locale].languageTag;
+  const voice = pickVoice(speechSynthesis.getVoices(), locale);
+  if (voice) utterance.voice = voice;
+  return utterance;
+};
@@ -0,0 +1,26 @@
+/**
+ * Opens a database, creating its stores on first use. Resolves to null where IndexedDB isn't
+ * available or the database can't be opened, so that callers can treat storage as optional.
+ */
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void) =>
+  new Promise<IDBDatabase | null>(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn(`Could not open the "${name}" database:`, request.error);
+      resolve(null);
+    };
+  });
+
+export const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { singularize, normalizeIngredient, ingredientMatches, matchRecipeIngredients, translateIngredient, isIngredientOwned } from './ingredientMatcher';
+
+describe('singularize', () => {
+  it.each([
+    ['tomatoes', 'tomato'],
+    ['berries', 'berry'],
+    ['peaches', 'peach'],
+    ['eggs', 'egg'],
+    ['leaves', 'leaf'],
+    ['olives', 'olive'],
+    ['couscous', 'couscous'],
+    ['asparagus', 'asparagus'],
+  ])('turns "%s" into "%s"', (plural, singular) => {
+    expect(singularize(plural)).toBe(singular);
+  });
+});
+
+describe('normalizeIngredient', () => {
+  it('strips modifiers, preparation notes and plurals', () => {
+    expect(normalizeIngredient('Fresh Chopped Tomatoes')).toBe('tomato');
+    expect(normalizeIngredient('onion, finely diced')).toBe('onion');
+    expect(normalizeIngredient('2 large eggs (room temperature)')).toBe('egg');
+    expect(normalizeIngredient('extra virgin olive oil')).toBe('olive oil');
+  });
+
+  it('collapses synonyms', () => {
+    expect(normalizeIngredient('scallions')).toBe('green onion');
+    expect(normalizeIngredient('Spring Onions')).toBe('green onion');
+    expect(normalizeIngredient('fresh coriander')).toBe('cilantro');
+    expect(normalizeIngredient('aubergine')).toBe('eggplant');
+  });
+});
+
+describe('ingredientMatches', () => {
+  it('does not match on substrings of other words', () => {
+    expect(ingredientMatches('eggplant', 'egg')).toBe(false);
+  });
+
+  it('matches plurals and synonyms', () => {
+    expect(ingredientMatches('tomatoes', 'tomato')).toBe(true);
+    expect(ingredientMatches('green onion', 'scallion')).toBe(true);
+  });
+
+  it('lets a more specific owned item satisfy a generic requirement', () => {
+    expect(ingredientMatches('chicken', 'chicken breast')).toBe(true);
+    expect(ingredientMatches('cheese', 'cheddar cheese')).toBe(true);
+  });
+
+  it('lets a generic owned item satisfy a more specific variety or cut', () => {
+    expect(ingredientMatches('cheddar cheese', 'cheese')).toBe(true);
+    expect(ingredientMatches('chicken thighs', 'chicken')).toBe(true);
+  });
+
+  it('does not let an ingredient satisfy a different product made from it', () => {
+    expect(ingredientMatches('tomato sauce', 'tomato')).toBe(false);
+    expect(ingredientMatches('peanut butter', 'butter')).toBe(false);
+  });
+});
+
+describe('translateIngredient', () => {
+  it.each([
+    ['Huevos', 'egg'],
+    ['pechuga de pollo', 'chicken breast'],
+    ['Käse', 'cheese'],
+    ['Frühlingszwiebeln', 'green onion'],
+  ])('translates "%s" to "%s"', (name, english) => {
+    expect(translateIngredient(name)).toBe(english);
+  });
+
+  it('leaves English names alone', () => {
+    expect(translateIngredient('lima beans')).toBe('lima beans');
+  });
+});
+
+describe('matchRecipeIngredients', () => {
+  it('splits recipe ingredients into owned and missing', () => {
+    const { owned, missing } = matchRecipeIngredients(
+      [{ name: 'Eggs', quantity: '3' }, { name: 'Eggplant', quantity: '1' }, { name: 'Scallions', quantity: '2' }],
+      ['egg', 'green onion'],
+    );
+    expect(owned.map(ing => ing.name)).toEqual(['Eggs', 'Scallions']);
+    expect(missing.map(ing => ing.name)).toEqual(['Eggplant']);
+  });
+});
+
+describe('isIngredientOwned', () => {
+  it('matches recipe ingredients written in another language against the English pantry', () => {
+    expect(isIngredientOwned({ name: 'Huevos frescos', quantity: '3' }, ['eggs'])).toBe(true);
+    expect(isIngredientOwned({ name: 'Geriebener Käse', quantity: '50 g' }, ['cheddar cheese'])).toBe(true);
+  });
+
+  it("falls back to the ingredient's English name", () => {
+    expect(isIngredientOwned({ name: 'Jitomate', englishName: 'tomato', quantity: '2' }, ['tomatoes'])).toBe(true);
+  });
+});
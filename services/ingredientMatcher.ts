@@ -0,0 +1,190 @@
+import { RecipeIngredient } from '../types';
+
+/** Preparation, size and filler words that don't change what the ingredient is. */
+const MODIFIERS = new Set([
+  'fresh', 'freshly', 'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'cubed', 'halved',
+  'quartered', 'peeled', 'softened', 'melted', 'cooked', 'raw', 'frozen', 'dried', 'large', 'small', 'medium', 'ripe',
+  'organic', 'boneless', 'skinless', 'finely', 'roughly', 'thinly', 'whole', 'extra', 'virgin', 'optional', 'about',
+  'and', 'or', 'of',
+  // The same kind of words in Spanish and German, written without accents.
+  'fresco', 'fresca', 'frescos', 'frescas', 'picado', 'picada', 'picados', 'picadas', 'rallado', 'rallada', 'grande',
+  'grandes', 'pequeno', 'pequena', 'de', 'del', 'con', 'y', 'o', 'frisch', 'frische', 'frischer', 'gehackt', 'gehackte',
+  'gerieben', 'geriebener', 'gross', 'grosse', 'klein', 'kleine', 'und', 'oder',
+]);
+
+/**
+ * Spanish and German names of common ingredients, singular and plural, written without accents.
+ * Recipes written in those languages are matched against a pantry that was scanned in English.
+ * Words that mean something else in English, like "lima" or "paprika", are left out.
+ */
+const TRANSLATIONS: Record<string, string> = {
+  // Spanish
+  'huevo': 'egg', 'huevos': 'egg', 'leche': 'milk', 'queso': 'cheese', 'mantequilla': 'butter', 'nata': 'heavy cream',
+  'crema de leche': 'heavy cream', 'yogur': 'yogurt', 'pollo': 'chicken', 'pechuga de pollo': 'chicken breast',
+  'pechugas de pollo': 'chicken breast', 'carne picada': 'ground beef', 'ternera': 'beef', 'carne de res': 'beef',
+  'cerdo': 'pork', 'jamon': 'ham', 'tocino': 'bacon', 'pescado': 'fish', 'atun': 'tuna', 'gamba': 'shrimp',
+  'gambas': 'shrimp', 'camaron': 'shrimp', 'camarones': 'shrimp', 'arroz': 'rice', 'harina': 'flour', 'pan': 'bread',
+  'azucar': 'sugar', 'sal': 'salt', 'pimienta': 'pepper', 'pimienta negra': 'black pepper', 'aceite': 'oil',
+  'aceite de oliva': 'olive oil', 'ajo': 'garlic', 'ajos': 'garlic', 'diente de ajo': 'garlic', 'dientes de ajo': 'garlic',
+  'cebolla': 'onion', 'cebollas': 'onion', 'cebolleta': 'green onion', 'cebolletas': 'green onion', 'tomate': 'tomato',
+  'tomates': 'tomato', 'patata': 'potato', 'patatas': 'potato', 'papa': 'potato', 'papas': 'potato',
+  'zanahoria': 'carrot', 'zanahorias': 'carrot', 'pimiento': 'bell pepper', 'pimientos': 'bell pepper',
+  'lechuga': 'lettuce', 'espinaca': 'spinach', 'espinacas': 'spinach', 'pepino': 'cucumber', 'pepinos': 'cucumber',
+  'calabacin': 'zucchini', 'calabacines': 'zucchini', 'berenjena': 'eggplant', 'berenjenas': 'eggplant',
+  'champinon': 'mushroom', 'champinones': 'mushroom', 'seta': 'mushroom', 'setas': 'mushroom', 'limon': 'lemon',
+  'limones': 'lemon', 'manzana': 'apple', 'manzanas': 'apple', 'platano': 'banana',
+  'platanos': 'banana', 'garbanzo': 'chickpea', 'garbanzos': 'chickpea', 'frijol': 'bean', 'frijoles': 'bean',
+  'alubia': 'bean', 'alubias': 'bean', 'lenteja': 'lentil', 'lentejas': 'lentil', 'maiz': 'corn', 'perejil': 'parsley',
+  'albahaca': 'basil', 'caldo de pollo': 'chicken broth', 'vinagre': 'vinegar', 'miel': 'honey',
+  // German
+  'ei': 'egg', 'eier': 'egg', 'milch': 'milk', 'kase': 'cheese', 'sahne': 'heavy cream', 'schlagsahne': 'heavy cream',
+  'joghurt': 'yogurt', 'hahnchen': 'chicken', 'huhn': 'chicken', 'hahnchenbrust': 'chicken breast',
+  'hahnchenbrustfilet': 'chicken breast', 'hackfleisch': 'ground meat', 'rinderhackfleisch': 'ground beef',
+  'rindfleisch': 'beef', 'schweinefleisch': 'pork', 'schinken': 'ham', 'speck': 'bacon', 'fisch': 'fish', 'lachs': 'salmon',
+  'thunfisch': 'tuna', 'garnele': 'shrimp', 'garnelen': 'shrimp', 'reis': 'rice', 'nudeln': 'pasta', 'mehl': 'flour',
+  'brot': 'bread', 'zucker': 'sugar', 'salz': 'salt', 'pfeffer': 'pepper', 'ol': 'oil', 'olivenol': 'olive oil',
+  'knoblauch': 'garlic', 'knoblauchzehe': 'garlic', 'knoblauchzehen': 'garlic', 'zwiebel': 'onion', 'zwiebeln': 'onion',
+  'fruhlingszwiebel': 'green onion', 'fruhlingszwiebeln': 'green onion', 'tomaten': 'tomato', 'kartoffel': 'potato',
+  'kartoffeln': 'potato', 'karotte': 'carrot', 'karotten': 'carrot', 'mohre': 'carrot', 'mohren': 'carrot',
+  'paprikaschote': 'bell pepper', 'paprikaschoten': 'bell pepper', 'paprikapulver': 'paprika', 'salat': 'lettuce', 'spinat': 'spinach', 'gurke': 'cucumber',
+  'gurken': 'cucumber', 'auberginen': 'eggplant', 'pilz': 'mushroom', 'pilze': 'mushroom', 'champignons': 'mushroom',
+  'zitrone': 'lemon', 'zitronen': 'lemon', 'limette': 'lime', 'limetten': 'lime', 'apfel': 'apple', 'banane': 'banana',
+  'bananen': 'banana', 'kichererbse': 'chickpea', 'kichererbsen': 'chickpea', 'bohne': 'bean', 'bohnen': 'bean',
+  'linse': 'lentil', 'linsen': 'lentil', 'mais': 'corn', 'koriander': 'cilantro', 'petersilie': 'parsley',
+  'basilikum': 'basil', 'huhnerbruhe': 'chicken broth', 'essig': 'vinegar', 'honig': 'honey',
+};
+
+const TRANSLATION_KEYS = Object.keys(TRANSLATIONS).sort((a, b) => b.length - a.length);
+
+/** Maps regional and alternative names onto one canonical name. Keys and values are already singular. */
+const SYNONYMS: Record<string, string> = {
+  'scallion': 'green onion',
+  'spring onion': 'green onion',
+  'coriander': 'cilantro',
+  'courgette': 'zucchini',
+  'aubergine': 'eggplant',
+  'garbanzo bean': 'chickpea',
+  'capsicum': 'bell pepper',
+  'prawn': 'shrimp',
+  'rocket': 'arugula',
+  'double cream': 'heavy cream',
+  'whipping cream': 'heavy cream',
+  'icing sugar': 'powdered sugar',
+  'confectioner sugar': 'powdered sugar',
+  'minced meat': 'ground meat',
+  'mince': 'ground beef',
+  'beef mince': 'ground beef',
+  'corn starch': 'cornstarch',
+  'cornflour': 'cornstarch',
+  'caster sugar': 'superfine sugar',
+  'plain flour': 'all-purpose flour',
+  'all purpose flour': 'all-purpose flour',
+};
+
+/** Cuts that still count as the animal they come from, so "chicken" covers "chicken breast". */
+const CUT_WORDS = new Set(['breast', 'thigh', 'fillet', 'filet', 'leg', 'wing', 'drumstick', 'loin', 'tenderloin', 'chop', 'steak']);
+
+/** Products named after a more generic ingredient that can't stand in for it, or vice versa. */
+const DISTINCT_PRODUCTS = new Set([
+  'peanut butter', 'almond butter', 'apple butter', 'coconut milk', 'almond milk', 'oat milk', 'soy milk',
+  'coconut cream', 'sour cream', 'ice cream', 'cream cheese', 'cottage cheese',
+]);
+
+/** Words that end in "s" but are already singular. */
+const SINGULAR_EXCEPTIONS = new Set(['couscous', 'hummus', 'asparagus', 'molasses', 'swiss', 'brussels', 'lemongrass', 'citrus', 'grits']);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: 'leaf',
+  halves: 'half',
+  loaves: 'loaf',
+  knives: 'knife',
+};
+
+export const singularize = (word: string) => {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word) || /(?:ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+const applySynonyms = (phrase: string) => {
+  const padded = ` ${phrase} `;
+  const match = Object.keys(SYNONYMS)
+    .sort((a, b) => b.length - a.length)
+    .find(key => padded.includes(` ${key} `));
+  return match ? padded.replace(` ${match} `, ` ${SYNONYMS[match]} `).trim() : phrase;
+};
+
+// "Jalapeño" and "Käse" are compared as "jalapeno" and "kase".
+const foldAccents = (text: string) => text.replace(/ß/g, 'ss').normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Replaces the Spanish and German ingredient names in a lowercase phrase without accents with their English ones. */
+const translatePhrase = (phrase: string) => {
+  let padded = ` ${phrase} `;
+  for (const key of TRANSLATION_KEYS) {
+    if (padded.includes(` ${key} `)) padded = padded.split(` ${key} `).join(` ${TRANSLATIONS[key]} `);
+  }
+  return padded.trim();
+};
+
+/** A known Spanish or German ingredient name in English, e.g. "Pechugas de pollo" becomes "chicken breast". */
+export const translateIngredient = (name: string) =>
+  translatePhrase(foldAccents(name.toLowerCase()).replace(/[^a-z\s-]/g, ' ').split(/\s+/).filter(Boolean).join(' '));
+
+/**
+ * Reduces an ingredient name to a canonical form for comparison: lowercase, singular, in English,
+ * without preparation notes or modifiers, and with synonyms collapsed. "Fresh Chopped Scallions"
+ * and "cebolletas picadas" both become "green onion".
+ */
+export const normalizeIngredient = (name: string) => {
+  const words = translateIngredient(name.replace(/\(.*?\)/g, ' ').split(',')[0])
+    .split(/\s+/)
+    .filter(word => word && !MODIFIERS.has(word))
+    .map(singularize);
+  return applySynonyms(words.join(' '));
+};
+
+const tokens = (normalizedName: string) => normalizedName.split(/[\s-]+/).filter(Boolean);
+
+/**
+ * Whether an owned ingredient satisfies what a recipe asks for. A more specific owned item
+ * covers a generic requirement ("chicken breast" satisfies "chicken"), and a generic owned item
+ * covers a more specific requirement only when it names the same thing ("cheese" covers
+ * "cheddar cheese", but "tomato" does not cover "tomato sauce").
+ */
+export const ingredientMatches = (needed: string, owned: string) => {
+  const neededName = normalizeIngredient(needed);
+  const ownedName = normalizeIngredient(owned);
+  if (DISTINCT_PRODUCTS.has(neededName) || DISTINCT_PRODUCTS.has(ownedName)) return neededName === ownedName;
+  const neededTokens = tokens(neededName);
+  const ownedTokens = tokens(ownedName);
+  if (neededTokens.length === 0 || ownedTokens.length === 0) return false;
+  if (neededTokens.every(token => ownedTokens.includes(token))) return true;
+  if (!ownedTokens.every(token => neededTokens.includes(token))) return false;
+  const extra = neededTokens.filter(token => !ownedTokens.includes(token));
+  return ownedTokens[ownedTokens.length - 1] === neededTokens[neededTokens.length - 1] || extra.every(token => CUT_WORDS.has(token));
+};
+
+/** Whether an ingredient name mentions `term`, e.g. "fresh coriander leaves" mentions "cilantro". */
+export const mentionsIngredient = (name: string, term: string) => {
+  const termTokens = tokens(normalizeIngredient(term));
+  const nameTokens = tokens(normalizeIngredient(name));
+  return termTokens.length > 0 && termTokens.every(token => nameTokens.includes(token));
+};
+
+/** The names to match an ingredient by: its own, and its English name when the recipe is in another language. */
+export const ingredientNames = ({ name, englishName }: RecipeIngredient) => (englishName ? [name, englishName] : [name]);
+
+export const isIngredientOwned = (ingredient: RecipeIngredient, ownedIngredients: string[]) =>
+  ownedIngredients.some(owned => ingredientNames(ingredient).some(name => ingredientMatches(name, owned)));
+
+export const matchRecipeIngredients = (ingredients: RecipeIngredient[], ownedIngredients: string[]) => {
+  const owned: RecipeIngredient[] = [];
+  const missing: RecipeIngredient[] = [];
+  for (const ingredient of ingredients) {
+    (isIngredientOwned(ingredient, ownedIngredients) ? owned : missing).push(ingredient);
+  }
+  return { owned, missing };
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonArrayStreamParser, extractCompleteArrayItems } from './jsonStream';
+
+describe('createJsonArrayStreamParser', () => {
+  it('reports each element once it is complete, across chunk boundaries', () => {
+    const parse = createJsonArrayStreamParser('recipes');
+    expect(parse('{"reci')).toEqual([]);
+    expect(parse('pes": [{"name": "A", "steps": ["mix", "b')).toEqual([]);
+    expect(parse('ake"]}, {"name": "B')).toEqual([{ name: 'A', steps: ['mix', 'bake'] }]);
+    expect(parse('"}]}')).toEqual([{ name: 'B' }]);
+  });
+
+  it('ignores brackets and quotes inside strings', () => {
+    const parse = createJsonArrayStreamParser('recipes');
+    expect(parse('{"recipes": [{"name": "Say \\"hi\\" [to] {them}"}, ')).toEqual([{ name: 'Say "hi" [to] {them}' }]);
+  });
+
+  it('stops at the end of the array', () => {
+    expect(extractCompleteArrayItems('{"recipes": [{"a": 1}], "other": [{"b": 2}]}', 'recipes')).toEqual([{ a: 1 }]);
+  });
+});
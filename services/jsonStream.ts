@@ -0,0 +1,53 @@
+/**
+ * Incrementally pulls the elements of the array under `key` out of a JSON document that arrives in
+ * chunks, e.g. `{"recipes": [{...}, {...`. Each call takes the next chunk and returns the elements
+ * that became complete with it, so they can be shown before the whole response has arrived.
+ * Only object and array elements are reported.
+ */
+export const createJsonArrayStreamParser = (key: string) => {
+  const arrayStart = new RegExp(`"${key}"\\s*:\\s*\\[`);
+  let buffer = '';
+  let position = -1;
+  let depth = 0;
+  let itemStart = 0;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+
+  return (chunk: string): unknown[] => {
+    buffer += chunk;
+    const items: unknown[] = [];
+    if (position === -1) {
+      const match = arrayStart.exec(buffer);
+      if (!match) return items;
+      position = match.index + match[0].length;
+    }
+    for (; position < buffer.length && !finished; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) itemStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) {
+          finished = true;
+        } else if (--depth === 0) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          } catch {
+            // A malformed element is left for the full response validation to report.
+          }
+        }
+      }
+    }
+    return items;
+  };
+};
+
+/** The complete elements of the array under `key` in a JSON document that may have been cut off. */
+export const extractCompleteArrayItems = (text: string, key: string) => createJsonArrayStreamParser(key)(text);
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { IngredientCategory, InventoryItem, MealPlan, PlannedMeal, Recipe } from '../types';
+import {
+  addMealPlanToShoppingList, allSlots, buildMealPlanRequest, findPerishableWarnings, mealPlanToICS, mergeMeals, toggleMealLock, unlockedSlots,
+} from './mealPlan';
+import { validateMealPlanResponse } from './recipeValidation';
+import { makeRecipe } from './testFixtures';
+
+const meal = (day: number, slot: PlannedMeal['slot'], recipe: Recipe, locked = false): PlannedMeal => ({ day, slot, recipe, locked });
+
+const item = (name: string, shelfLifeDays?: number): InventoryItem =>
+  ({ name, quantity: 1, unit: 'piece', category: IngredientCategory.Produce, confidence: 1, shelfLifeDays });
+
+const omelette = makeRecipe({ name: 'Spinach Omelette', prepTime: '15 minutes', prepTimeMinutes: 15, ingredients: ['eggs', 'spinach'].map(name => ({ name, quantity: '1 cup' })) });
+const stirFry = makeRecipe({ name: 'Chicken Stir-Fry', prepTime: '25 minutes', prepTimeMinutes: 25, ingredients: ['chicken breast', 'bell pepper', 'soy sauce'].map(name => ({ name, quantity: '1 cup' })) });
+const plan: MealPlan = { startDate: '2026-10-19', meals: [meal(0, 'Breakfast', omelette, true), meal(4, 'Dinner', stirFry)] };
+
+describe('slots', () => {
+  it('covers three meals a day for a week', () => {
+    expect(allSlots()).toHaveLength(21);
+  });
+
+  it('regenerates everything except locked meals and keeps the rest', () => {
+    const slots = unlockedSlots(plan);
+    expect(slots).toHaveLength(20);
+    expect(slots).toContainEqual({ day: 4, slot: 'Dinner' });
+    expect(buildMealPlanRequest(plan, slots).keep).toEqual([plan.meals[0]]);
+  });
+
+  it('replaces meals in their slots and keeps the plan ordered', () => {
+    const lunch = meal(0, 'Lunch', stirFry);
+    const updated = mergeMeals(plan, [meal(4, 'Dinner', omelette), lunch]);
+    expect(updated.meals.map(m => [m.day, m.slot, m.recipe.name])).toEqual([
+      [0, 'Breakfast', 'Spinach Omelette'],
+      [0, 'Lunch', 'Chicken Stir-Fry'],
+      [4, 'Dinner', 'Spinach Omelette'],
+    ]);
+  });
+
+  it('toggles a single lock', () => {
+    expect(toggleMealLock(plan, 4, 'Dinner').meals.map(m => m.locked)).toEqual([true, true]);
+  });
+});
+
+describe('findPerishableWarnings', () => {
+  it('flags perishables that are unused or used after they spoil', () => {
+    const warnings = findPerishableWarnings(plan, [item('spinach', 1), item('bell peppers', 3), item('milk', 2), item('rice', 300), item('eggs')]);
+    expect(warnings.map(({ item, firstUsedDay }) => [item.name, firstUsedDay])).toEqual([
+      ['bell peppers', 4],
+      ['milk', undefined],
+    ]);
+  });
+});
+
+describe('addMealPlanToShoppingList', () => {
+  it('adds only the missing ingredients for each meal', () => {
+    const list = addMealPlanToShoppingList([], plan, ['eggs', 'spinach', 'chicken breast']);
+    expect(list.map(entry => entry.name)).toEqual(['bell pepper', 'soy sauce']);
+    expect(list[0].recipes).toEqual(['Chicken Stir-Fry (Fri dinner)']);
+  });
+
+  it('labels the meals in the given language', () => {
+    const list = addMealPlanToShoppingList([], plan, ['eggs', 'spinach', 'chicken breast'], 'de');
+    const friday = new Date(2026, 9, 23).toLocaleDateString('de-DE', { weekday: 'short' });
+    expect(list[0].recipes).toEqual([`Chicken Stir-Fry (${friday} Abendessen)`]);
+  });
+});
+
+describe('mealPlanToICS', () => {
+  const ics = mealPlanToICS(plan, new Date(Date.UTC(2026, 9, 19, 7, 5)));
+
+  it('creates one event per meal at the slot time', () => {
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('DTSTART:20261019T080000\r\nDURATION:PT15M\r\nSUMMARY:Breakfast: Spinach Omelette');
+    expect(ics).toContain('DTSTART:20261023T183000');
+    expect(ics).toContain('DTSTAMP:20261019T070500Z');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('escapes text and folds long lines', () => {
+    expect(ics).toContain('Ingredients: 1 cup eggs\\, 1 cup spinach');
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+
+  it('writes the events in the given language', () => {
+    const spanish = mealPlanToICS(plan, new Date(), 'es');
+    expect(spanish).toContain('SUMMARY:Desayuno: Spinach Omelette');
+    expect(spanish).toContain('DESCRIPTION:Fácil · 15 minutes\\nIngredientes: 1 cup eggs\\, 1 cup spinach');
+  });
+});
+
+describe('validateMealPlanResponse', () => {
+  const request = { startDate: '2026-10-19', slots: [{ day: 0, slot: 'Dinner' as const }, { day: 1, slot: 'Lunch' as const }], keep: [] };
+  const rawRecipe = { name: 'Soup', difficulty: 'easy', prepTime: '30 minutes', calories: 200, ingredients: [{ name: 'leeks', quantity: '2' }], instructions: ['Simmer.'] };
+
+  it('converts days to count from zero and drops unrequested slots', () => {
+    const { meals, issues } = validateMealPlanResponse(JSON.stringify({
+      meals: [
+        { day: 1, slot: 'dinner', recipe: rawRecipe },
+        { day: 3, slot: 'Breakfast', recipe: rawRecipe },
+      ],
+    }), request);
+    expect(meals).toEqual([expect.objectContaining({ day: 0, slot: 'Dinner', locked: false })]);
+    expect(meals[0].recipe.difficulty).toBe('Easy');
+    expect(issues).toEqual(['meal for day 3 Breakfast was not requested', 'no meal for day 2 Lunch']);
+  });
+});
@@ -0,0 +1,164 @@
+import { InventoryItem, Locale, MealPlan, MealPlanRequest, MealSlot, PlannedMeal, ShoppingListItem } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { ingredientMatches, matchRecipeIngredients } from './ingredientMatcher';
+import { addRecipeToShoppingList } from './shoppingList';
+import { DEFAULT_LOCALE, LOCALES, createTranslator } from './i18n';
+
+const MEAL_PLAN_STORAGE_KEY = 'smart-fridge.meal-plan';
+
+export const MEAL_SLOTS: MealSlot[] = ['Breakfast', 'Lunch', 'Dinner'];
+
+export const PLAN_DAYS = 7;
+
+/** When each meal goes in the calendar, as [hour, minute] local time. */
+const MEAL_TIMES: Record<MealSlot, [number, number]> = {
+  Breakfast: [8, 0],
+  Lunch: [12, 30],
+  Dinner: [18, 30],
+};
+
+const DEFAULT_MEAL_MINUTES = 30;
+
+export type MealPlanSlot = Pick<PlannedMeal, 'day' | 'slot'>;
+
+export interface PerishableWarning {
+  item: InventoryItem;
+  /** First day of the plan that uses the item, if any. */
+  firstUsedDay?: number;
+}
+
+export const loadMealPlan = (): MealPlan | null => loadJSON<MealPlan | null>(MEAL_PLAN_STORAGE_KEY, null);
+
+export const saveMealPlan = (plan: MealPlan | null) => saveJSON(MEAL_PLAN_STORAGE_KEY, plan);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** The calendar date of a plan day, at local midnight. */
+export const planDate = (plan: Pick<MealPlan, 'startDate'>, day: number) => {
+  const [year, month, date] = plan.startDate.split('-').map(Number);
+  return new Date(year, month - 1, date + day);
+};
+
+export const allSlots = (): MealPlanSlot[] =>
+  Array.from({ length: PLAN_DAYS }, (_, day) => MEAL_SLOTS.map(slot => ({ day, slot }))).flat();
+
+const isSameSlot = (a: MealPlanSlot, b: MealPlanSlot) => a.day === b.day && a.slot === b.slot;
+
+export const findMeal = (plan: MealPlan, day: number, slot: MealSlot) => plan.meals.find(meal => isSameSlot(meal, { day, slot }));
+
+/** Every slot that can be regenerated: the empty ones and those whose meal isn't locked. */
+export const unlockedSlots = (plan: MealPlan): MealPlanSlot[] =>
+  allSlots().filter(({ day, slot }) => !findMeal(plan, day, slot)?.locked);
+
+/** Builds the request to regenerate `slots`, keeping every other planned meal. */
+export const buildMealPlanRequest = (plan: MealPlan, slots: MealPlanSlot[]): MealPlanRequest => ({
+  startDate: plan.startDate,
+  slots,
+  keep: plan.meals.filter(meal => !slots.some(slot => isSameSlot(meal, slot))),
+});
+
+/** Puts `meals` into the plan, replacing whatever was in their slots, and keeps the plan in day and slot order. */
+export const mergeMeals = (plan: MealPlan, meals: PlannedMeal[]): MealPlan => ({
+  ...plan,
+  meals: [...plan.meals.filter(meal => !meals.some(incoming => isSameSlot(meal, incoming))), ...meals]
+    .sort((a, b) => a.day - b.day || MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot)),
+});
+
+export const toggleMealLock = (plan: MealPlan, day: number, slot: MealSlot): MealPlan => ({
+  ...plan,
+  meals: plan.meals.map(meal => (isSameSlot(meal, { day, slot }) ? { ...meal, locked: !meal.locked } : meal)),
+});
+
+/**
+ * Finds ingredients that spoil within the week but aren't used by then, either because no meal
+ * uses them or because the first meal that does comes after their spoil day.
+ */
+export const findPerishableWarnings = (plan: MealPlan, ingredients: InventoryItem[]): PerishableWarning[] =>
+  ingredients
+    .filter(item => item.shelfLifeDays !== undefined && item.shelfLifeDays < PLAN_DAYS)
+    .map(item => {
+      const days = plan.meals
+        .filter(meal => meal.recipe.ingredients.some(ingredient => ingredientMatches(ingredient.name, item.name)))
+        .map(meal => meal.day);
+      return { item, firstUsedDay: days.length > 0 ? Math.min(...days) : undefined };
+    })
+    .filter(({ item, firstUsedDay }) => firstUsedDay === undefined || firstUsedDay > item.shelfLifeDays!);
+
+const shortWeekday = (date: Date, locale: Locale) => date.toLocaleDateString(LOCALES[locale].languageTag, { weekday: 'short' });
+
+/** Adds every planned meal's missing ingredients to the shopping list, combined across the week. */
+export const addMealPlanToShoppingList = (
+  list: ShoppingListItem[],
+  plan: MealPlan,
+  ownedIngredients: string[],
+  locale: Locale = DEFAULT_LOCALE,
+): ShoppingListItem[] => {
+  const t = createTranslator(locale);
+  return plan.meals.reduce((updated, meal) => {
+    const { missing } = matchRecipeIngredients(meal.recipe.ingredients, ownedIngredients);
+    const label = t('plan.mealLabel', { recipe: meal.recipe.name, day: shortWeekday(planDate(plan, meal.day), locale), slot: t(`slot.${meal.slot}`) });
+    return addRecipeToShoppingList(updated, label, missing);
+  }, list);
+};
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Folds a content line so that no physical line is longer than 75 octets, as RFC 5545 requires. */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatLocalDateTime = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtcDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Exports the plan as an iCalendar file with one event per meal, in the user's local time. */
+export const mealPlanToICS = (plan: MealPlan, now = new Date(), locale: Locale = DEFAULT_LOCALE) => {
+  const t = createTranslator(locale);
+  const events = plan.meals.flatMap(meal => {
+    const [hour, minute] = MEAL_TIMES[meal.slot];
+    const start = planDate(plan, meal.day);
+    start.setHours(hour, minute);
+    const description = [
+      `${t(`difficulty.${meal.recipe.difficulty}`)} · ${meal.recipe.prepTime}`,
+      t('plan.eventIngredients', { ingredients: meal.recipe.ingredients.map(({ name, quantity }) => `${quantity} ${name}`).join(', ') }),
+    ].join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${plan.startDate}-${meal.day}-${meal.slot.toLowerCase()}@smart-fridge`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DURATION:PT${meal.recipe.prepTimeMinutes ?? DEFAULT_MEAL_MINUTES}M`,
+      `SUMMARY:${escapeText(t(`plan.event.${meal.slot}`, { recipe: meal.recipe.name }))}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Smart Fridge Culinary Assistant//Meal Plan//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
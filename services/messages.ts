@@ -0,0 +1,1133 @@
+import { Locale } from '../types';
+
+/** UI text in English, which the other locales translate key by key. Placeholders are written as `{name}`. */
+const en = {
+  'app.language': 'Language',
+  'app.title': 'Your Culinary Companion',
+  'app.subtitle': 'Discover delicious recipes based on what you have!',
+  'app.viewPantry': 'View my pantry',
+  'app.myPantry': 'My pantry',
+  'app.shoppingList': 'Shopping list ({count})',
+  'app.savedRecipes': 'Saved recipes ({count})',
+  'app.mealPlan': 'Meal plan',
+  'app.planWeek': 'Plan my week',
+  'app.allergies': 'Allergies & dislikes',
+  'app.cookingHistory': 'Cooking history ({count})',
+  'app.editIngredients': 'Edit ingredients ({count})',
+  'app.findingRecipes': 'Finding recipes...',
+  'app.findingMoreRecipes': 'Finding more recipes...',
+  'app.updatingRecipes': 'Updating recipes for your filters...',
+  'app.cachedRecipes': "You've asked for these ingredients and filters before, so these are the recipes from {date}.",
+  'app.regenerate': 'Regenerate anyway',
+  'app.hiddenRecipe': '1 recipe is hidden because it contains something from your allergies & dislikes.',
+  'app.hiddenRecipes': '{count} recipes are hidden because they contain something from your allergies & dislikes.',
+  'app.outOfBoundsRecipe': '1 recipe is hidden because it takes longer or is harder than you asked for.',
+  'app.outOfBoundsRecipes': '{count} recipes are hidden because they take longer or are harder than you asked for.',
+  'app.showAnyway': 'Show anyway',
+  'app.hideAgain': 'Hide again',
+  'app.photosFailed': 'Could not analyze {photos}. Ingredients from the other photos are shown below.',
+  'app.mealsNotPlanned': 'Couldn\'t plan {count} of the meals. Use "Suggest a meal" to try those again.',
+  'error.unknown': 'An unknown error occurred.',
+  'error.malformedRecipes': 'The recipe suggestions came back malformed. Please try again.',
+  'error.allExcluded': 'Every suggested recipe contained something on your allergy list, so none are shown. Please try again.',
+  'error.rateLimited': 'The AI service is getting too many requests right now. Please wait a minute and try again.',
+  'error.rateLimitedFor': 'The AI service is getting too many requests right now. Please wait about {seconds} seconds and try again.',
+  'error.quotaExceeded': 'Your API key has used up its quota. Try again tomorrow, or raise the limit for your key with the AI provider.',
+  'error.authentication': 'The AI service rejected your API key. Check that API_KEY is set to a valid key and restart the app.',
+  'error.safetyBlock': "The AI's safety filters blocked this request. Try removing unusual ingredients or photos and ask again.",
+  'error.network': "Couldn't reach the AI service. Check your internet connection and try again.",
+  'error.serviceUnavailable': 'The AI service is temporarily unavailable. Please try again in a few minutes.',
+  'error.analysisFailed': "Couldn't analyze the photos. Please try again.",
+  'error.recipesFailed': "Couldn't get recipe suggestions. Please try again.",
+  'error.mealPlanFailed': "Couldn't plan the meals. Please try again.",
+  'error.imageFailed': "Couldn't create a photo of this recipe.",
+  'error.chefFailed': "The chef couldn't answer. Please try again.",
+
+  'card.photoFailed': 'Photo failed · Retry',
+  'card.creatingPhoto': 'Creating a photo of {name}',
+  'card.calories': '{calories} kcal',
+  'card.macros': '{protein} g protein · {carbs} g carbs · {fat} g fat',
+  'card.ownedIngredients': 'You have {owned} of {total} ingredients',
+  'card.contains': 'Contains {violation}',
+  'card.tooLong': 'Takes {minutes} min, over your {limit} min limit',
+  'card.tooHard': '{difficulty}, harder than you asked for',
+  'card.highNetCarbs': '{grams} g net carbs is high for keto',
+  'card.highCarbs': '{grams} g carbs is high for low-carb',
+  'card.lowProtein': '{grams} g protein is low for high-protein',
+
+  'sidebar.dietaryOptions': 'Dietary Options',
+  'sidebar.allergies': 'Allergies & Dislikes',
+  'sidebar.editProfiles': 'Edit profiles',
+  'sidebar.addProfile': 'Add allergies or dislikes',
+  'sidebar.constraints': 'Cooking Constraints',
+  'sidebar.cuisine': 'Cuisine',
+  'sidebar.anyCuisine': 'Any cuisine',
+  'sidebar.maxPrepTime': 'Max prep time',
+  'sidebar.anyTime': 'Any time',
+  'sidebar.upToMinutes': 'Up to {minutes} min',
+  'sidebar.difficulty': 'Difficulty',
+  'sidebar.anyDifficulty': 'Any difficulty',
+  'sidebar.easyOnly': 'Easy only',
+  'sidebar.easyOrMedium': 'Easy or medium',
+  'sidebar.equipment': 'Equipment I have',
+  'sidebar.onePan': 'One pan or pot only',
+  'sidebar.recipeCount': 'Number of recipes',
+
+  'diet.Vegetarian': 'Vegetarian',
+  'diet.Keto': 'Keto',
+  'diet.Gluten-Free': 'Gluten Free',
+  'diet.Vegan': 'Vegan',
+  'diet.Low-Carb': 'Low Carb',
+  'diet.High-Protein': 'High Protein',
+  'diet.Pescatarian': 'Pescatarian',
+
+  'equipment.Stovetop': 'Stovetop',
+  'equipment.Oven': 'Oven',
+  'equipment.Microwave': 'Microwave',
+  'equipment.Grill': 'Grill',
+  'equipment.Slow cooker': 'Slow cooker',
+  'equipment.Air fryer': 'Air fryer',
+  'equipment.Blender': 'Blender',
+
+  'difficulty.Easy': 'Easy',
+  'difficulty.Medium': 'Medium',
+  'difficulty.Hard': 'Hard',
+
+  'nutrient.calories': 'Calories',
+  'nutrient.protein': 'Protein',
+  'nutrient.carbs': 'Carbs',
+  'nutrient.fat': 'Fat',
+  'nutrient.fiber': 'Fiber',
+  'nutrient.sugar': 'Sugar',
+  'nutrient.sodium': 'Sodium',
+
+  'recipe.askChef': 'Ask the chef',
+  'recipe.save': 'Save',
+  'recipe.saved': 'Saved',
+  'recipe.changedByChef': 'Changed by the chef',
+  'recipe.dismiss': 'Dismiss',
+  'recipe.calories': '{calories} calories per serving ({total} total)',
+  'recipe.nutritionPerServing': 'Nutrition per serving',
+  'recipe.servings': 'Servings',
+  'recipe.fewerServings': 'Fewer servings',
+  'recipe.moreServings': 'More servings',
+  'recipe.unitsAsWritten': 'As written',
+  'recipe.unitsMetric': 'Metric',
+  'recipe.unitsImperial': 'Imperial',
+  'recipe.ingredients': 'Ingredients',
+  'recipe.addMissing': 'Add {count} missing to list',
+  'recipe.addedToList': 'Added to shopping list',
+  'recipe.newIngredient': 'New',
+  'recipe.changedIngredient': 'Changed',
+  'recipe.instructions': 'Instructions',
+  'recipe.cookMode': 'Cook mode',
+  'recipe.spokenStep': 'Step {step}. {text}',
+  'recipe.cookedIt': 'Cooked it',
+  'recipe.lastCooked': 'Last cooked on {date}',
+  'recipe.cookedOn': 'Cooked on',
+  'recipe.howWasIt': 'How was it?',
+  'recipe.stars': '{count} of 5 stars',
+  'recipe.logCooked': 'Add to history',
+  'recipe.cancel': 'Cancel',
+
+  'cook.voiceControl': 'Voice control',
+  'cook.listening': 'Listening',
+  'cook.exit': 'Exit cook mode',
+  'cook.stepOf': 'Step {step} of {total}',
+  'cook.voiceHint': 'Say "next", "back", "repeat" or "set timer for 10 minutes".',
+  'cook.heard': 'Heard "{transcript}"',
+  'cook.notACommand': 'Didn\'t catch a command in "{transcript}"',
+  'cook.microphoneDenied': 'Microphone access was denied.',
+  'cook.startTimer': 'Start a timer',
+  'cook.stepTimer': 'Step {step}: {duration}',
+  'cook.timerSet': 'Timer set for {duration}.',
+  'cook.timerDone': '{labels} timer is done.',
+  'cook.hour': '{count} hour',
+  'cook.hours': '{count} hours',
+  'cook.minute': '{count} minute',
+  'cook.minutes': '{count} minutes',
+  'cook.timesUp': "Time's up!",
+  'cook.dismissTimer': 'Dismiss {label} timer',
+  'cook.back': 'Back',
+  'cook.next': 'Next',
+  'cook.done': 'Done',
+
+  'chef.suggestMissing': "What can I use instead of an ingredient I'm missing?",
+  'chef.suggestDairyFree': 'Make this dairy-free',
+  'chef.suggestFaster': 'How can I make this faster?',
+  'chef.recipeUpdated': 'Recipe updated',
+  'chef.addedVariation': 'Added as a variation',
+  'chef.useVersion': 'Use this version',
+  'chef.keepBoth': 'Keep both',
+  'chef.thinking': 'The chef is thinking...',
+  'chef.placeholder': 'e.g. Can I use Greek yogurt instead of cream?',
+  'chef.send': 'Send',
+  'chef.emptyReply': "Sorry, I don't have an answer for that. Could you ask another way?",
+  'chef.withheld': "{reply}\n\n(The updated recipe isn't shown because it contains {violations}.)",
+  'chef.variationName': '{name} (variation)',
+
+  'changes.and': 'and',
+  'changes.usesInstead': 'Uses {added} instead of {removed}',
+  'changes.adds': 'Adds {added}',
+  'changes.leavesOut': 'Leaves out {removed}',
+  'changes.amounts': 'Different amounts of {ingredients}',
+  'changes.step': 'New or rewritten step {steps}',
+  'changes.steps': 'New or rewritten steps {steps}',
+  'changes.name': 'Renamed to {value}',
+  'changes.difficulty': 'Difficulty is now {value}',
+  'changes.prepTime': 'Prep time is now {value}',
+  'changes.servings': 'Servings are now {value}',
+  'changes.calories': 'Calories per serving are now {value}',
+  'changes.unspecified': 'unspecified',
+
+  'common.back': 'Back',
+
+  'location.Fridge': 'Fridge',
+  'location.Freezer': 'Freezer',
+  'location.Cupboard': 'Cupboard',
+
+  'category.Produce': 'Produce',
+  'category.Dairy': 'Dairy',
+  'category.Meat': 'Meat',
+  'category.Seafood': 'Seafood',
+  'category.Bakery': 'Bakery',
+  'category.Frozen': 'Frozen',
+  'category.Pantry': 'Pantry',
+  'category.Condiments': 'Condiments',
+  'category.Beverages': 'Beverages',
+  'category.Other': 'Other',
+
+  'allergen.Peanuts': 'Peanuts',
+  'allergen.Tree nuts': 'Tree nuts',
+  'allergen.Dairy': 'Dairy',
+  'allergen.Eggs': 'Eggs',
+  'allergen.Gluten': 'Gluten',
+  'allergen.Soy': 'Soy',
+  'allergen.Fish': 'Fish',
+  'allergen.Shellfish': 'Shellfish',
+  'allergen.Sesame': 'Sesame',
+
+  'slot.Breakfast': 'breakfast',
+  'slot.Lunch': 'lunch',
+  'slot.Dinner': 'dinner',
+
+  'upload.title': "Unlock Your Fridge's Potential",
+  'upload.subtitle': 'Snap photos of your shelves, door and drawers, and let AI be your sous-chef!',
+  'upload.uploadPhotos': 'Upload {location} Photos',
+  'upload.takePhoto': 'Take Photo',
+  'upload.dragAndDrop': 'or drag and drop images here',
+  'upload.photoLabel': 'Photo {number}',
+  'upload.removePhoto': 'Remove {label}',
+  'upload.analyzing': 'Analyzing...',
+  'upload.analyzePhoto': 'Analyze 1 Photo',
+  'upload.analyzePhotos': 'Analyze {count} Photos',
+
+  'review.title': 'Review Your Ingredients',
+  'review.subtitle': "Fix anything we misread, remove what you don't want to use, and add what we missed.",
+  'review.quantityOf': 'Quantity of {name}',
+  'review.unit': 'unit',
+  'review.unitOf': 'Unit of {name}',
+  'review.categoryOf': 'Category of {name}',
+  'review.remove': 'Remove {name}',
+  'review.useWithinDay': 'Use within ~1 day',
+  'review.useWithinDays': 'Use within ~{days} days',
+  'review.notSure': 'Not sure about this one ({percent}% confident).',
+  'review.looksRight': 'Looks right',
+  'review.empty': 'No ingredients yet. Add some below.',
+  'review.addPlaceholder': 'Add an ingredient, e.g. sour cream',
+  'review.add': 'Add',
+  'review.duplicate': '1 duplicate item found.',
+  'review.duplicates': '{count} duplicate items found.',
+  'review.mergeDuplicates': 'Merge duplicates',
+  'review.uploadDifferent': 'Upload different photos',
+  'review.findRecipes': 'Find Recipes',
+
+  'pantry.title': 'Your Pantry',
+  'pantry.subtitle': "Everything you've scanned across your fridge, freezer and cupboard.",
+  'pantry.empty': 'Your pantry is empty. Scan a photo to stock it up.',
+  'pantry.spoiled': 'Probably spoiled',
+  'pantry.useWithinDay': 'Use within 1 day',
+  'pantry.useWithinDays': 'Use within {days} days',
+  'pantry.goodFor': 'Good for ~{days} days',
+  'pantry.added': 'Added {date}',
+  'pantry.usedUp': 'Used up',
+  'pantry.usedUpItem': '1 used up item.',
+  'pantry.usedUpItems': '{count} used up items.',
+  'pantry.clear': 'Clear',
+  'pantry.scanMore': 'Scan another photo',
+  'pantry.cookWithEverything': 'Cook With Everything',
+
+  'shopping.title': 'Shopping List',
+  'shopping.empty': 'Your shopping list is empty. Open a recipe and add its missing ingredients.',
+  'shopping.forRecipes': 'for {recipes}',
+  'shopping.remove': 'Remove {name}',
+  'shopping.clearChecked': 'Clear checked ({count})',
+  'shopping.copy': 'Copy',
+  'shopping.copied': 'Copied!',
+  'shopping.text': 'Text',
+
+  'library.title': 'Saved Recipes',
+  'library.subtitle': 'Your favorite finds, with your own ratings and notes.',
+  'library.search': 'Search names, ingredients, tags...',
+  'library.difficulty': 'Difficulty',
+  'library.anyDifficulty': 'Any difficulty',
+  'library.prepTime': 'Prep time',
+  'library.anyPrepTime': 'Any prep time',
+  'library.upToMinutes': 'Up to {minutes} min',
+  'library.calories': 'Calories',
+  'library.anyCalories': 'Any calories',
+  'library.upToCalories': 'Up to {calories} kcal',
+  'library.favorites': 'Favorites',
+  'library.favorite': 'Favorite {name}',
+  'library.unfavorite': 'Unfavorite {name}',
+  'library.missing': 'Missing: {ingredients}',
+  'library.importJsonLd': 'Import JSON-LD',
+  'library.importRecipes': 'Import recipes',
+  'library.importedRecipe': 'Imported 1 recipe.',
+  'library.importedRecipes': 'Imported {count} recipes.',
+  'library.importFailed': 'No recipes could be imported.',
+  'library.unreadable': 'the file could not be read',
+  'library.saveFailed': "Couldn't save your recipe library because the browser's storage is full. Recent changes will be lost when you close the app.",
+  'library.empty': 'Nothing saved yet. Open a recipe and tap "Save" to keep it here.',
+  'library.noMatches': 'No saved recipes match your search.',
+
+  'notes.favorite': 'Favorite',
+  'notes.addToFavorites': 'Add to favorites',
+  'notes.rating': 'Rating',
+  'notes.star': '1 star',
+  'notes.stars': '{count} stars',
+  'notes.remove': 'Remove from library',
+  'notes.notesPlaceholder': "Your notes, e.g. 'double the garlic'",
+  'notes.tagsPlaceholder': 'Tags, comma separated',
+
+  'history.title': 'Cooking History',
+  'history.subtitle': "What you've cooked, and what it says about your taste.",
+  'history.empty': 'Nothing cooked yet. Open a recipe and tap "Cooked it" once you\'ve made it.',
+  'history.learned': "What we've learned",
+  'history.learning': 'Rate a few more dishes and new suggestions will start to follow your taste.',
+  'history.favoriteCuisines': 'Cuisines you enjoy:',
+  'history.dislikedIngredients': "You're not keen on:",
+  'history.prepTimeBudget': 'You usually cook dishes that take up to',
+  'history.minutes': '{minutes} minutes',
+  'history.recentDishes': "Won't suggest what you had lately:",
+  'history.rating': 'Rating for {name}',
+  'history.remove': 'Remove {name} from history',
+
+  'export.label': 'Export',
+  'export.labelCount': 'Export {count} recipes',
+  'export.print': 'Print',
+  'export.recipes': 'Recipes',
+  'export.difficulty': 'Difficulty',
+  'export.time': 'Time',
+  'export.perServing': '{calories} per serving',
+  'export.serving': '1 serving',
+  'export.servings': '{servings} servings',
+  'export.kcalPerServing': '{calories} kcal per serving',
+
+  'toolbar.sortBy': 'Sort by',
+  'toolbar.sort.default': 'Suggested order',
+  'toolbar.sort.calories': 'Fewest calories',
+  'toolbar.sort.protein': 'Most protein',
+  'toolbar.sort.carbs': 'Fewest carbs',
+  'toolbar.sort.fat': 'Least fat',
+  'toolbar.sort.fiber': 'Most fiber',
+  'toolbar.sort.sugar': 'Least sugar',
+  'toolbar.sort.sodium': 'Least sodium',
+  'toolbar.maxCalories': 'Max kcal',
+  'toolbar.minProtein': 'Min protein (g)',
+  'toolbar.maxCarbs': 'Max carbs (g)',
+  'toolbar.maxFat': 'Max fat (g)',
+  'toolbar.showing': 'Showing {shown} of {total}.',
+  'toolbar.clearLimits': 'Clear limits',
+
+  'plan.title': 'Weekly Meal Plan',
+  'plan.subtitle': 'Three meals a day for the next week, scheduled so your perishables get used before they spoil.',
+  'plan.needIngredients': 'Scan your fridge or stock your pantry first, so the plan can be built around what you have.',
+  'plan.planning': 'Planning your week...',
+  'plan.planWith': 'Plan my week with {count} ingredients',
+  'plan.regenerate': 'Regenerate unlocked meals',
+  'plan.addToList': 'Add week to shopping list',
+  'plan.export': 'Export to calendar (.ics)',
+  'plan.startOver': 'Start over',
+  'plan.unused': "{name} spoils in ~{days} days but isn't used this week.",
+  'plan.usedLate': "{name} spoils in ~{days} days but isn't used until {date}.",
+  'plan.lock': 'Lock {slot} on {date}',
+  'plan.unlock': 'Unlock {slot} on {date}',
+  'plan.swap': 'Swap {slot} on {date}',
+  'plan.pending': 'Planning...',
+  'plan.suggestMeal': 'Suggest a meal',
+  'plan.mealLabel': '{recipe} ({day} {slot})',
+  'plan.event.Breakfast': 'Breakfast: {recipe}',
+  'plan.event.Lunch': 'Lunch: {recipe}',
+  'plan.event.Dinner': 'Dinner: {recipe}',
+  'plan.eventIngredients': 'Ingredients: {ingredients}',
+
+  'profiles.title': 'Allergies & Dislikes',
+  'profiles.intro': "Recipes are checked against every active profile before they're shown.",
+  'profiles.name': 'Profile name',
+  'profiles.active': 'Active',
+  'profiles.delete': 'Delete {name}',
+  'profiles.avoidPlaceholder': 'Avoid an ingredient, e.g. cilantro',
+  'profiles.addAvoided': 'Add ingredient to avoid',
+  'profiles.stopAvoiding': 'Stop avoiding {name}',
+  'profiles.strict': "Hide recipes that break this profile (otherwise they're shown with a warning)",
+  'profiles.add': 'Add profile',
+  'profiles.defaultName': 'Allergies',
+  'profiles.numberedName': 'Profile {number}',
+};
+
+export type MessageKey = keyof typeof en;
+
+type Messages = Record<MessageKey, string>;
+
+const es: Messages = {
+  'app.language': 'Idioma',
+  'app.title': 'Tu compañero culinario',
+  'app.subtitle': '¡Descubre recetas deliciosas con lo que tienes!',
+  'app.viewPantry': 'Ver mi despensa',
+  'app.myPantry': 'Mi despensa',
+  'app.shoppingList': 'Lista de la compra ({count})',
+  'app.savedRecipes': 'Recetas guardadas ({count})',
+  'app.mealPlan': 'Plan de comidas',
+  'app.planWeek': 'Planificar mi semana',
+  'app.allergies': 'Alergias y preferencias',
+  'app.cookingHistory': 'Historial de cocina ({count})',
+  'app.editIngredients': 'Editar ingredientes ({count})',
+  'app.findingRecipes': 'Buscando recetas...',
+  'app.findingMoreRecipes': 'Buscando más recetas...',
+  'app.updatingRecipes': 'Actualizando las recetas para tus filtros...',
+  'app.cachedRecipes': 'Ya pediste recetas con estos ingredientes y filtros, así que estas son las del {date}.',
+  'app.regenerate': 'Generar de nuevo',
+  'app.hiddenRecipe': 'Se oculta 1 receta porque contiene algo de tus alergias y preferencias.',
+  'app.hiddenRecipes': 'Se ocultan {count} recetas porque contienen algo de tus alergias y preferencias.',
+  'app.outOfBoundsRecipe': 'Se oculta 1 receta porque tarda más o es más difícil de lo que pediste.',
+  'app.outOfBoundsRecipes': 'Se ocultan {count} recetas porque tardan más o son más difíciles de lo que pediste.',
+  'app.showAnyway': 'Mostrar de todos modos',
+  'app.hideAgain': 'Volver a ocultar',
+  'app.photosFailed': 'No se pudo analizar {photos}. Abajo se muestran los ingredientes de las demás fotos.',
+  'app.mealsNotPlanned': 'No se pudieron planificar {count} de las comidas. Usa "Sugerir una comida" para volver a intentarlo.',
+  'error.unknown': 'Se produjo un error desconocido.',
+  'error.malformedRecipes': 'Las sugerencias de recetas llegaron con errores. Inténtalo de nuevo.',
+  'error.allExcluded': 'Todas las recetas sugeridas contenían algo de tu lista de alergias, así que no se muestra ninguna. Inténtalo de nuevo.',
+  'error.rateLimited': 'El servicio de IA está recibiendo demasiadas solicitudes. Espera un minuto e inténtalo de nuevo.',
+  'error.rateLimitedFor': 'El servicio de IA está recibiendo demasiadas solicitudes. Espera unos {seconds} segundos e inténtalo de nuevo.',
+  'error.quotaExceeded': 'Tu clave de API ha agotado su cuota. Inténtalo mañana o aumenta el límite de tu clave con el proveedor de IA.',
+  'error.authentication': 'El servicio de IA rechazó tu clave de API. Comprueba que API_KEY tenga una clave válida y reinicia la aplicación.',
+  'error.safetyBlock': 'Los filtros de seguridad de la IA bloquearon esta solicitud. Prueba a quitar ingredientes o fotos poco habituales y vuelve a preguntar.',
+  'error.network': 'No se pudo conectar con el servicio de IA. Comprueba tu conexión a internet e inténtalo de nuevo.',
+  'error.serviceUnavailable': 'El servicio de IA no está disponible en este momento. Inténtalo de nuevo en unos minutos.',
+  'error.analysisFailed': 'No se pudieron analizar las fotos. Inténtalo de nuevo.',
+  'error.recipesFailed': 'No se pudieron obtener sugerencias de recetas. Inténtalo de nuevo.',
+  'error.mealPlanFailed': 'No se pudieron planificar las comidas. Inténtalo de nuevo.',
+  'error.imageFailed': 'No se pudo crear una foto de esta receta.',
+  'error.chefFailed': 'El chef no pudo responder. Inténtalo de nuevo.',
+
+  'card.photoFailed': 'Falló la foto · Reintentar',
+  'card.creatingPhoto': 'Creando una foto de {name}',
+  'card.calories': '{calories} kcal',
+  'card.macros': '{protein} g de proteína · {carbs} g de carbohidratos · {fat} g de grasa',
+  'card.ownedIngredients': 'Tienes {owned} de {total} ingredientes',
+  'card.contains': 'Contiene {violation}',
+  'card.tooLong': 'Tarda {minutes} min, más de tu límite de {limit} min',
+  'card.tooHard': '{difficulty}, más difícil de lo que pediste',
+  'card.highNetCarbs': '{grams} g de carbohidratos netos es mucho para keto',
+  'card.highCarbs': '{grams} g de carbohidratos es mucho para una dieta baja en carbohidratos',
+  'card.lowProtein': '{grams} g de proteínas es poco para una dieta alta en proteínas',
+
+  'sidebar.dietaryOptions': 'Opciones de dieta',
+  'sidebar.allergies': 'Alergias y preferencias',
+  'sidebar.editProfiles': 'Editar perfiles',
+  'sidebar.addProfile': 'Añadir alergias o preferencias',
+  'sidebar.constraints': 'Condiciones de cocina',
+  'sidebar.cuisine': 'Cocina',
+  'sidebar.anyCuisine': 'Cualquier cocina',
+  'sidebar.maxPrepTime': 'Tiempo máximo',
+  'sidebar.anyTime': 'Sin límite',
+  'sidebar.upToMinutes': 'Hasta {minutes} min',
+  'sidebar.difficulty': 'Dificultad',
+  'sidebar.anyDifficulty': 'Cualquier dificultad',
+  'sidebar.easyOnly': 'Solo fácil',
+  'sidebar.easyOrMedium': 'Fácil o media',
+  'sidebar.equipment': 'Equipo que tengo',
+  'sidebar.onePan': 'Solo una sartén u olla',
+  'sidebar.recipeCount': 'Número de recetas',
+
+  'diet.Vegetarian': 'Vegetariana',
+  'diet.Keto': 'Keto',
+  'diet.Gluten-Free': 'Sin gluten',
+  'diet.Vegan': 'Vegana',
+  'diet.Low-Carb': 'Baja en carbohidratos',
+  'diet.High-Protein': 'Alta en proteínas',
+  'diet.Pescatarian': 'Pescetariana',
+
+  'equipment.Stovetop': 'Fogón',
+  'equipment.Oven': 'Horno',
+  'equipment.Microwave': 'Microondas',
+  'equipment.Grill': 'Parrilla',
+  'equipment.Slow cooker': 'Olla de cocción lenta',
+  'equipment.Air fryer': 'Freidora de aire',
+  'equipment.Blender': 'Batidora',
+
+  'difficulty.Easy': 'Fácil',
+  'difficulty.Medium': 'Media',
+  'difficulty.Hard': 'Difícil',
+
+  'nutrient.calories': 'Calorías',
+  'nutrient.protein': 'Proteínas',
+  'nutrient.carbs': 'Carbohidratos',
+  'nutrient.fat': 'Grasas',
+  'nutrient.fiber': 'Fibra',
+  'nutrient.sugar': 'Azúcar',
+  'nutrient.sodium': 'Sodio',
+
+  'recipe.askChef': 'Pregunta al chef',
+  'recipe.save': 'Guardar',
+  'recipe.saved': 'Guardada',
+  'recipe.changedByChef': 'Cambiada por el chef',
+  'recipe.dismiss': 'Descartar',
+  'recipe.calories': '{calories} calorías por ración ({total} en total)',
+  'recipe.nutritionPerServing': 'Información nutricional por ración',
+  'recipe.servings': 'Raciones',
+  'recipe.fewerServings': 'Menos raciones',
+  'recipe.moreServings': 'Más raciones',
+  'recipe.unitsAsWritten': 'Como está escrita',
+  'recipe.unitsMetric': 'Métrico',
+  'recipe.unitsImperial': 'Imperial',
+  'recipe.ingredients': 'Ingredientes',
+  'recipe.addMissing': 'Añadir {count} que faltan a la lista',
+  'recipe.addedToList': 'Añadidos a la lista de la compra',
+  'recipe.newIngredient': 'Nuevo',
+  'recipe.changedIngredient': 'Cambiado',
+  'recipe.instructions': 'Preparación',
+  'recipe.cookMode': 'Modo cocina',
+  'recipe.spokenStep': 'Paso {step}. {text}',
+  'recipe.cookedIt': 'La he cocinado',
+  'recipe.lastCooked': 'Cocinada por última vez el {date}',
+  'recipe.cookedOn': 'Cocinada el',
+  'recipe.howWasIt': '¿Qué tal salió?',
+  'recipe.stars': '{count} de 5 estrellas',
+  'recipe.logCooked': 'Añadir al historial',
+  'recipe.cancel': 'Cancelar',
+
+  'cook.voiceControl': 'Control por voz',
+  'cook.listening': 'Escuchando',
+  'cook.exit': 'Salir del modo cocina',
+  'cook.stepOf': 'Paso {step} de {total}',
+  'cook.voiceHint': 'Di "siguiente", "atrás", "repite" o "temporizador de 10 minutos".',
+  'cook.heard': 'Entendido: "{transcript}"',
+  'cook.notACommand': 'No se reconoció ningún comando en "{transcript}"',
+  'cook.microphoneDenied': 'Se denegó el acceso al micrófono.',
+  'cook.startTimer': 'Iniciar un temporizador',
+  'cook.stepTimer': 'Paso {step}: {duration}',
+  'cook.timerSet': 'Temporizador de {duration} en marcha.',
+  'cook.timerDone': 'El temporizador {labels} ha terminado.',
+  'cook.hour': '{count} hora',
+  'cook.hours': '{count} horas',
+  'cook.minute': '{count} minuto',
+  'cook.minutes': '{count} minutos',
+  'cook.timesUp': '¡Se acabó el tiempo!',
+  'cook.dismissTimer': 'Descartar el temporizador {label}',
+  'cook.back': 'Atrás',
+  'cook.next': 'Siguiente',
+  'cook.done': 'Terminado',
+
+  'chef.suggestMissing': '¿Qué puedo usar en lugar de un ingrediente que me falta?',
+  'chef.suggestDairyFree': 'Hazla sin lácteos',
+  'chef.suggestFaster': '¿Cómo puedo hacerla más rápido?',
+  'chef.recipeUpdated': 'Receta actualizada',
+  'chef.addedVariation': 'Añadida como variante',
+  'chef.useVersion': 'Usar esta versión',
+  'chef.keepBoth': 'Conservar ambas',
+  'chef.thinking': 'El chef está pensando...',
+  'chef.placeholder': 'p. ej. ¿Puedo usar yogur griego en lugar de nata?',
+  'chef.send': 'Enviar',
+  'chef.emptyReply': 'Lo siento, no tengo respuesta para eso. ¿Puedes preguntarlo de otra forma?',
+  'chef.withheld': '{reply}\n\n(La receta actualizada no se muestra porque contiene {violations}.)',
+  'chef.variationName': '{name} (variante)',
+
+  'changes.and': 'y',
+  'changes.usesInstead': 'Usa {added} en lugar de {removed}',
+  'changes.adds': 'Añade {added}',
+  'changes.leavesOut': 'Prescinde de {removed}',
+  'changes.amounts': 'Cantidades distintas de {ingredients}',
+  'changes.step': 'Paso nuevo o reescrito: {steps}',
+  'changes.steps': 'Pasos nuevos o reescritos: {steps}',
+  'changes.name': 'Ahora se llama {value}',
+  'changes.difficulty': 'La dificultad ahora es {value}',
+  'changes.prepTime': 'El tiempo de preparación ahora es {value}',
+  'changes.servings': 'Ahora son {value} raciones',
+  'changes.calories': 'Ahora tiene {value} calorías por ración',
+  'changes.unspecified': 'sin especificar',
+
+  'common.back': 'Volver',
+
+  'location.Fridge': 'Frigorífico',
+  'location.Freezer': 'Congelador',
+  'location.Cupboard': 'Despensa',
+
+  'category.Produce': 'Frutas y verduras',
+  'category.Dairy': 'Lácteos',
+  'category.Meat': 'Carne',
+  'category.Seafood': 'Pescado y marisco',
+  'category.Bakery': 'Panadería',
+  'category.Frozen': 'Congelados',
+  'category.Pantry': 'Despensa',
+  'category.Condiments': 'Condimentos',
+  'category.Beverages': 'Bebidas',
+  'category.Other': 'Otros',
+
+  'allergen.Peanuts': 'Cacahuetes',
+  'allergen.Tree nuts': 'Frutos secos',
+  'allergen.Dairy': 'Lácteos',
+  'allergen.Eggs': 'Huevos',
+  'allergen.Gluten': 'Gluten',
+  'allergen.Soy': 'Soja',
+  'allergen.Fish': 'Pescado',
+  'allergen.Shellfish': 'Marisco',
+  'allergen.Sesame': 'Sésamo',
+
+  'slot.Breakfast': 'desayuno',
+  'slot.Lunch': 'comida',
+  'slot.Dinner': 'cena',
+
+  'upload.title': 'Saca todo el partido a tu nevera',
+  'upload.subtitle': '¡Haz fotos de los estantes, la puerta y los cajones, y deja que la IA sea tu ayudante de cocina!',
+  'upload.uploadPhotos': 'Subir fotos ({location})',
+  'upload.takePhoto': 'Hacer una foto',
+  'upload.dragAndDrop': 'o arrastra y suelta las imágenes aquí',
+  'upload.photoLabel': 'Foto {number}',
+  'upload.removePhoto': 'Quitar {label}',
+  'upload.analyzing': 'Analizando...',
+  'upload.analyzePhoto': 'Analizar 1 foto',
+  'upload.analyzePhotos': 'Analizar {count} fotos',
+
+  'review.title': 'Revisa tus ingredientes',
+  'review.subtitle': 'Corrige lo que hayamos leído mal, quita lo que no quieras usar y añade lo que se nos haya pasado.',
+  'review.quantityOf': 'Cantidad de {name}',
+  'review.unit': 'unidad',
+  'review.unitOf': 'Unidad de {name}',
+  'review.categoryOf': 'Categoría de {name}',
+  'review.remove': 'Quitar {name}',
+  'review.useWithinDay': 'Usar en ~1 día',
+  'review.useWithinDays': 'Usar en ~{days} días',
+  'review.notSure': 'No estamos seguros de este ({percent} % de confianza).',
+  'review.looksRight': 'Es correcto',
+  'review.empty': 'Todavía no hay ingredientes. Añade alguno abajo.',
+  'review.addPlaceholder': 'Añade un ingrediente, p. ej. nata agria',
+  'review.add': 'Añadir',
+  'review.duplicate': 'Se encontró 1 elemento duplicado.',
+  'review.duplicates': 'Se encontraron {count} elementos duplicados.',
+  'review.mergeDuplicates': 'Combinar duplicados',
+  'review.uploadDifferent': 'Subir otras fotos',
+  'review.findRecipes': 'Buscar recetas',
+
+  'pantry.title': 'Tu despensa',
+  'pantry.subtitle': 'Todo lo que has escaneado en el frigorífico, el congelador y la despensa.',
+  'pantry.empty': 'Tu despensa está vacía. Escanea una foto para llenarla.',
+  'pantry.spoiled': 'Probablemente estropeado',
+  'pantry.useWithinDay': 'Usar en 1 día',
+  'pantry.useWithinDays': 'Usar en {days} días',
+  'pantry.goodFor': 'Aguanta ~{days} días',
+  'pantry.added': 'Añadido el {date}',
+  'pantry.usedUp': 'Gastado',
+  'pantry.usedUpItem': '1 elemento gastado.',
+  'pantry.usedUpItems': '{count} elementos gastados.',
+  'pantry.clear': 'Borrar',
+  'pantry.scanMore': 'Escanear otra foto',
+  'pantry.cookWithEverything': 'Cocinar con todo',
+
+  'shopping.title': 'Lista de la compra',
+  'shopping.empty': 'Tu lista de la compra está vacía. Abre una receta y añade los ingredientes que te faltan.',
+  'shopping.forRecipes': 'para {recipes}',
+  'shopping.remove': 'Quitar {name}',
+  'shopping.clearChecked': 'Borrar marcados ({count})',
+  'shopping.copy': 'Copiar',
+  'shopping.copied': '¡Copiado!',
+  'shopping.text': 'Texto',
+
+  'library.title': 'Recetas guardadas',
+  'library.subtitle': 'Tus hallazgos favoritos, con tus propias valoraciones y notas.',
+  'library.search': 'Buscar nombres, ingredientes, etiquetas...',
+  'library.difficulty': 'Dificultad',
+  'library.anyDifficulty': 'Cualquier dificultad',
+  'library.prepTime': 'Tiempo de preparación',
+  'library.anyPrepTime': 'Cualquier tiempo',
+  'library.upToMinutes': 'Hasta {minutes} min',
+  'library.calories': 'Calorías',
+  'library.anyCalories': 'Cualquier cantidad de calorías',
+  'library.upToCalories': 'Hasta {calories} kcal',
+  'library.favorites': 'Favoritas',
+  'library.favorite': 'Marcar {name} como favorita',
+  'library.unfavorite': 'Quitar {name} de favoritas',
+  'library.missing': 'Faltan: {ingredients}',
+  'library.importJsonLd': 'Importar JSON-LD',
+  'library.importRecipes': 'Importar recetas',
+  'library.importedRecipe': 'Se importó 1 receta.',
+  'library.importedRecipes': 'Se importaron {count} recetas.',
+  'library.importFailed': 'No se pudo importar ninguna receta.',
+  'library.unreadable': 'no se pudo leer el archivo',
+  'library.saveFailed': 'No se pudo guardar tu biblioteca de recetas porque el almacenamiento del navegador está lleno. Los cambios recientes se perderán al cerrar la aplicación.',
+  'library.empty': 'Todavía no hay nada guardado. Abre una receta y pulsa "Guardar" para tenerla aquí.',
+  'library.noMatches': 'Ninguna receta guardada coincide con tu búsqueda.',
+
+  'notes.favorite': 'Favorita',
+  'notes.addToFavorites': 'Añadir a favoritas',
+  'notes.rating': 'Valoración',
+  'notes.star': '1 estrella',
+  'notes.stars': '{count} estrellas',
+  'notes.remove': 'Quitar de la biblioteca',
+  'notes.notesPlaceholder': "Tus notas, p. ej. 'el doble de ajo'",
+  'notes.tagsPlaceholder': 'Etiquetas, separadas por comas',
+
+  'history.title': 'Historial de cocina',
+  'history.subtitle': 'Lo que has cocinado y lo que dice de tus gustos.',
+  'history.empty': 'Aún no has cocinado nada. Abre una receta y pulsa "La he cocinado" cuando la hayas hecho.',
+  'history.learned': 'Lo que hemos aprendido',
+  'history.learning': 'Valora algunos platos más y las nuevas sugerencias empezarán a seguir tus gustos.',
+  'history.favoriteCuisines': 'Cocinas que te gustan:',
+  'history.dislikedIngredients': 'No te entusiasman:',
+  'history.prepTimeBudget': 'Sueles cocinar platos que llevan como mucho',
+  'history.minutes': '{minutes} minutos',
+  'history.recentDishes': 'No sugeriremos lo que has comido últimamente:',
+  'history.rating': 'Valoración de {name}',
+  'history.remove': 'Quitar {name} del historial',
+
+  'export.label': 'Exportar',
+  'export.labelCount': 'Exportar {count} recetas',
+  'export.print': 'Imprimir',
+  'export.recipes': 'Recetas',
+  'export.difficulty': 'Dificultad',
+  'export.time': 'Tiempo',
+  'export.perServing': '{calories} por ración',
+  'export.serving': '1 ración',
+  'export.servings': '{servings} raciones',
+  'export.kcalPerServing': '{calories} kcal por ración',
+
+  'toolbar.sortBy': 'Ordenar por',
+  'toolbar.sort.default': 'Orden sugerido',
+  'toolbar.sort.calories': 'Menos calorías',
+  'toolbar.sort.protein': 'Más proteínas',
+  'toolbar.sort.carbs': 'Menos carbohidratos',
+  'toolbar.sort.fat': 'Menos grasa',
+  'toolbar.sort.fiber': 'Más fibra',
+  'toolbar.sort.sugar': 'Menos azúcar',
+  'toolbar.sort.sodium': 'Menos sodio',
+  'toolbar.maxCalories': 'Máx. kcal',
+  'toolbar.minProtein': 'Mín. proteínas (g)',
+  'toolbar.maxCarbs': 'Máx. carbohidratos (g)',
+  'toolbar.maxFat': 'Máx. grasa (g)',
+  'toolbar.showing': 'Se muestran {shown} de {total}.',
+  'toolbar.clearLimits': 'Quitar límites',
+
+  'plan.title': 'Plan de comidas semanal',
+  'plan.subtitle': 'Tres comidas al día para la próxima semana, organizadas para que uses los perecederos antes de que se estropeen.',
+  'plan.needIngredients': 'Primero escanea tu frigorífico o llena tu despensa, para que el plan se base en lo que tienes.',
+  'plan.planning': 'Planificando tu semana...',
+  'plan.planWith': 'Planificar mi semana con {count} ingredientes',
+  'plan.regenerate': 'Regenerar las comidas sin bloquear',
+  'plan.addToList': 'Añadir la semana a la lista de la compra',
+  'plan.export': 'Exportar al calendario (.ics)',
+  'plan.startOver': 'Empezar de nuevo',
+  'plan.unused': '{name} se estropea en ~{days} días pero no se usa esta semana.',
+  'plan.usedLate': '{name} se estropea en ~{days} días pero no se usa hasta el {date}.',
+  'plan.lock': 'Bloquear {slot} del {date}',
+  'plan.unlock': 'Desbloquear {slot} del {date}',
+  'plan.swap': 'Cambiar {slot} del {date}',
+  'plan.pending': 'Planificando...',
+  'plan.suggestMeal': 'Sugerir una comida',
+  'plan.mealLabel': '{recipe} ({slot} del {day})',
+  'plan.event.Breakfast': 'Desayuno: {recipe}',
+  'plan.event.Lunch': 'Comida: {recipe}',
+  'plan.event.Dinner': 'Cena: {recipe}',
+  'plan.eventIngredients': 'Ingredientes: {ingredients}',
+
+  'profiles.title': 'Alergias y preferencias',
+  'profiles.intro': 'Las recetas se comprueban con todos los perfiles activos antes de mostrarse.',
+  'profiles.name': 'Nombre del perfil',
+  'profiles.active': 'Activo',
+  'profiles.delete': 'Eliminar {name}',
+  'profiles.avoidPlaceholder': 'Evitar un ingrediente, p. ej. cilantro',
+  'profiles.addAvoided': 'Añadir ingrediente a evitar',
+  'profiles.stopAvoiding': 'Dejar de evitar {name}',
+  'profiles.strict': 'Ocultar las recetas que no cumplan este perfil (si no, se muestran con un aviso)',
+  'profiles.add': 'Añadir perfil',
+  'profiles.defaultName': 'Alergias',
+  'profiles.numberedName': 'Perfil {number}',
+};
+
+const de: Messages = {
+  'app.language': 'Sprache',
+  'app.title': 'Dein Küchenbegleiter',
+  'app.subtitle': 'Entdecke leckere Rezepte mit dem, was du da hast!',
+  'app.viewPantry': 'Meinen Vorrat ansehen',
+  'app.myPantry': 'Mein Vorrat',
+  'app.shoppingList': 'Einkaufsliste ({count})',
+  'app.savedRecipes': 'Gespeicherte Rezepte ({count})',
+  'app.mealPlan': 'Essensplan',
+  'app.planWeek': 'Meine Woche planen',
+  'app.allergies': 'Allergien & Abneigungen',
+  'app.cookingHistory': 'Kochverlauf ({count})',
+  'app.editIngredients': 'Zutaten bearbeiten ({count})',
+  'app.findingRecipes': 'Rezepte werden gesucht...',
+  'app.findingMoreRecipes': 'Weitere Rezepte werden gesucht...',
+  'app.updatingRecipes': 'Rezepte werden an deine Filter angepasst...',
+  'app.cachedRecipes': 'Du hast schon einmal nach diesen Zutaten und Filtern gefragt, daher siehst du die Rezepte vom {date}.',
+  'app.regenerate': 'Trotzdem neu erstellen',
+  'app.hiddenRecipe': '1 Rezept ist ausgeblendet, weil es etwas aus deinen Allergien & Abneigungen enthält.',
+  'app.hiddenRecipes': '{count} Rezepte sind ausgeblendet, weil sie etwas aus deinen Allergien & Abneigungen enthalten.',
+  'app.outOfBoundsRecipe': '1 Rezept ist ausgeblendet, weil es länger dauert oder schwieriger ist als gewünscht.',
+  'app.outOfBoundsRecipes': '{count} Rezepte sind ausgeblendet, weil sie länger dauern oder schwieriger sind als gewünscht.',
+  'app.showAnyway': 'Trotzdem anzeigen',
+  'app.hideAgain': 'Wieder ausblenden',
+  'app.photosFailed': '{photos} konnte nicht analysiert werden. Unten stehen die Zutaten aus den anderen Fotos.',
+  'app.mealsNotPlanned': '{count} der Mahlzeiten konnten nicht geplant werden. Versuche es mit "Mahlzeit vorschlagen" noch einmal.',
+  'error.unknown': 'Ein unbekannter Fehler ist aufgetreten.',
+  'error.malformedRecipes': 'Die Rezeptvorschläge kamen fehlerhaft an. Bitte versuche es erneut.',
+  'error.allExcluded': 'Jedes vorgeschlagene Rezept enthielt etwas von deiner Allergieliste, daher wird keines angezeigt. Bitte versuche es erneut.',
+  'error.rateLimited': 'Der KI-Dienst erhält gerade zu viele Anfragen. Bitte warte eine Minute und versuche es erneut.',
+  'error.rateLimitedFor': 'Der KI-Dienst erhält gerade zu viele Anfragen. Bitte warte etwa {seconds} Sekunden und versuche es erneut.',
+  'error.quotaExceeded': 'Dein API-Schlüssel hat sein Kontingent aufgebraucht. Versuche es morgen erneut oder erhöhe das Limit deines Schlüssels beim KI-Anbieter.',
+  'error.authentication': 'Der KI-Dienst hat deinen API-Schlüssel abgelehnt. Prüfe, ob API_KEY einen gültigen Schlüssel enthält, und starte die App neu.',
+  'error.safetyBlock': 'Die Sicherheitsfilter der KI haben diese Anfrage blockiert. Entferne ungewöhnliche Zutaten oder Fotos und frage erneut.',
+  'error.network': 'Der KI-Dienst ist nicht erreichbar. Prüfe deine Internetverbindung und versuche es erneut.',
+  'error.serviceUnavailable': 'Der KI-Dienst ist vorübergehend nicht verfügbar. Bitte versuche es in ein paar Minuten erneut.',
+  'error.analysisFailed': 'Die Fotos konnten nicht analysiert werden. Bitte versuche es erneut.',
+  'error.recipesFailed': 'Es konnten keine Rezeptvorschläge geladen werden. Bitte versuche es erneut.',
+  'error.mealPlanFailed': 'Die Mahlzeiten konnten nicht geplant werden. Bitte versuche es erneut.',
+  'error.imageFailed': 'Für dieses Rezept konnte kein Foto erstellt werden.',
+  'error.chefFailed': 'Der Koch konnte nicht antworten. Bitte versuche es erneut.',
+
+  'card.photoFailed': 'Foto fehlgeschlagen · Erneut versuchen',
+  'card.creatingPhoto': 'Foto von {name} wird erstellt',
+  'card.calories': '{calories} kcal',
+  'card.macros': '{protein} g Eiweiß · {carbs} g Kohlenhydrate · {fat} g Fett',
+  'card.ownedIngredients': 'Du hast {owned} von {total} Zutaten',
+  'card.contains': 'Enthält {violation}',
+  'card.tooLong': 'Dauert {minutes} Min., über deinem Limit von {limit} Min.',
+  'card.tooHard': '{difficulty}, schwieriger als gewünscht',
+  'card.highNetCarbs': '{grams} g Netto-Kohlenhydrate sind zu viel für Keto',
+  'card.highCarbs': '{grams} g Kohlenhydrate sind zu viel für Low Carb',
+  'card.lowProtein': '{grams} g Eiweiß sind zu wenig für High Protein',
+
+  'sidebar.dietaryOptions': 'Ernährungsweise',
+  'sidebar.allergies': 'Allergien & Abneigungen',
+  'sidebar.editProfiles': 'Profile bearbeiten',
+  'sidebar.addProfile': 'Allergien oder Abneigungen hinzufügen',
+  'sidebar.constraints': 'Kochbedingungen',
+  'sidebar.cuisine': 'Küche',
+  'sidebar.anyCuisine': 'Jede Küche',
+  'sidebar.maxPrepTime': 'Maximale Zeit',
+  'sidebar.anyTime': 'Beliebig lange',
+  'sidebar.upToMinutes': 'Bis {minutes} Min.',
+  'sidebar.difficulty': 'Schwierigkeit',
+  'sidebar.anyDifficulty': 'Jede Schwierigkeit',
+  'sidebar.easyOnly': 'Nur einfach',
+  'sidebar.easyOrMedium': 'Einfach oder mittel',
+  'sidebar.equipment': 'Vorhandene Geräte',
+  'sidebar.onePan': 'Nur eine Pfanne oder ein Topf',
+  'sidebar.recipeCount': 'Anzahl der Rezepte',
+
+  'diet.Vegetarian': 'Vegetarisch',
+  'diet.Keto': 'Keto',
+  'diet.Gluten-Free': 'Glutenfrei',
+  'diet.Vegan': 'Vegan',
+  'diet.Low-Carb': 'Low Carb',
+  'diet.High-Protein': 'Eiweißreich',
+  'diet.Pescatarian': 'Pescetarisch',
+
+  'equipment.Stovetop': 'Herd',
+  'equipment.Oven': 'Backofen',
+  'equipment.Microwave': 'Mikrowelle',
+  'equipment.Grill': 'Grill',
+  'equipment.Slow cooker': 'Schongarer',
+  'equipment.Air fryer': 'Heißluftfritteuse',
+  'equipment.Blender': 'Mixer',
+
+  'difficulty.Easy': 'Einfach',
+  'difficulty.Medium': 'Mittel',
+  'difficulty.Hard': 'Schwer',
+
+  'nutrient.calories': 'Kalorien',
+  'nutrient.protein': 'Eiweiß',
+  'nutrient.carbs': 'Kohlenhydrate',
+  'nutrient.fat': 'Fett',
+  'nutrient.fiber': 'Ballaststoffe',
+  'nutrient.sugar': 'Zucker',
+  'nutrient.sodium': 'Natrium',
+
+  'recipe.askChef': 'Frag den Koch',
+  'recipe.save': 'Speichern',
+  'recipe.saved': 'Gespeichert',
+  'recipe.changedByChef': 'Vom Koch geändert',
+  'recipe.dismiss': 'Ausblenden',
+  'recipe.calories': '{calories} Kalorien pro Portion ({total} insgesamt)',
+  'recipe.nutritionPerServing': 'Nährwerte pro Portion',
+  'recipe.servings': 'Portionen',
+  'recipe.fewerServings': 'Weniger Portionen',
+  'recipe.moreServings': 'Mehr Portionen',
+  'recipe.unitsAsWritten': 'Wie angegeben',
+  'recipe.unitsMetric': 'Metrisch',
+  'recipe.unitsImperial': 'Imperial',
+  'recipe.ingredients': 'Zutaten',
+  'recipe.addMissing': '{count} fehlende auf die Liste setzen',
+  'recipe.addedToList': 'Auf die Einkaufsliste gesetzt',
+  'recipe.newIngredient': 'Neu',
+  'recipe.changedIngredient': 'Geändert',
+  'recipe.instructions': 'Zubereitung',
+  'recipe.cookMode': 'Kochmodus',
+  'recipe.spokenStep': 'Schritt {step}. {text}',
+  'recipe.cookedIt': 'Gekocht',
+  'recipe.lastCooked': 'Zuletzt gekocht am {date}',
+  'recipe.cookedOn': 'Gekocht am',
+  'recipe.howWasIt': 'Wie war es?',
+  'recipe.stars': '{count} von 5 Sternen',
+  'recipe.logCooked': 'Zum Verlauf hinzufügen',
+  'recipe.cancel': 'Abbrechen',
+
+  'cook.voiceControl': 'Sprachsteuerung',
+  'cook.listening': 'Hört zu',
+  'cook.exit': 'Kochmodus beenden',
+  'cook.stepOf': 'Schritt {step} von {total}',
+  'cook.voiceHint': 'Sag "weiter", "zurück", "wiederholen" oder "Timer auf 10 Minuten".',
+  'cook.heard': 'Verstanden: "{transcript}"',
+  'cook.notACommand': 'Kein Befehl erkannt in "{transcript}"',
+  'cook.microphoneDenied': 'Der Zugriff auf das Mikrofon wurde verweigert.',
+  'cook.startTimer': 'Timer starten',
+  'cook.stepTimer': 'Schritt {step}: {duration}',
+  'cook.timerSet': 'Timer auf {duration} gestellt.',
+  'cook.timerDone': 'Der Timer {labels} ist abgelaufen.',
+  'cook.hour': '{count} Stunde',
+  'cook.hours': '{count} Stunden',
+  'cook.minute': '{count} Minute',
+  'cook.minutes': '{count} Minuten',
+  'cook.timesUp': 'Zeit ist um!',
+  'cook.dismissTimer': 'Timer {label} ausblenden',
+  'cook.back': 'Zurück',
+  'cook.next': 'Weiter',
+  'cook.done': 'Fertig',
+
+  'chef.suggestMissing': 'Was kann ich statt einer fehlenden Zutat nehmen?',
+  'chef.suggestDairyFree': 'Mach es milchfrei',
+  'chef.suggestFaster': 'Wie geht das schneller?',
+  'chef.recipeUpdated': 'Rezept aktualisiert',
+  'chef.addedVariation': 'Als Variante hinzugefügt',
+  'chef.useVersion': 'Diese Version verwenden',
+  'chef.keepBoth': 'Beide behalten',
+  'chef.thinking': 'Der Koch überlegt...',
+  'chef.placeholder': 'z. B. Kann ich griechischen Joghurt statt Sahne nehmen?',
+  'chef.send': 'Senden',
+  'chef.emptyReply': 'Entschuldigung, darauf habe ich keine Antwort. Kannst du es anders fragen?',
+  'chef.withheld': '{reply}\n\n(Das geänderte Rezept wird nicht angezeigt, weil es {violations} enthält.)',
+  'chef.variationName': '{name} (Variante)',
+
+  'changes.and': 'und',
+  'changes.usesInstead': 'Verwendet {added} statt {removed}',
+  'changes.adds': 'Fügt {added} hinzu',
+  'changes.leavesOut': 'Lässt {removed} weg',
+  'changes.amounts': 'Andere Mengen von {ingredients}',
+  'changes.step': 'Neuer oder umgeschriebener Schritt {steps}',
+  'changes.steps': 'Neue oder umgeschriebene Schritte {steps}',
+  'changes.name': 'Heißt jetzt {value}',
+  'changes.difficulty': 'Schwierigkeit ist jetzt {value}',
+  'changes.prepTime': 'Zubereitungszeit ist jetzt {value}',
+  'changes.servings': 'Ergibt jetzt {value} Portionen',
+  'changes.calories': 'Hat jetzt {value} Kalorien pro Portion',
+  'changes.unspecified': 'nicht angegeben',
+
+  'common.back': 'Zurück',
+
+  'location.Fridge': 'Kühlschrank',
+  'location.Freezer': 'Gefrierfach',
+  'location.Cupboard': 'Vorratsschrank',
+
+  'category.Produce': 'Obst & Gemüse',
+  'category.Dairy': 'Milchprodukte',
+  'category.Meat': 'Fleisch',
+  'category.Seafood': 'Fisch & Meeresfrüchte',
+  'category.Bakery': 'Backwaren',
+  'category.Frozen': 'Tiefkühlware',
+  'category.Pantry': 'Vorrat',
+  'category.Condiments': 'Soßen & Gewürze',
+  'category.Beverages': 'Getränke',
+  'category.Other': 'Sonstiges',
+
+  'allergen.Peanuts': 'Erdnüsse',
+  'allergen.Tree nuts': 'Schalenfrüchte',
+  'allergen.Dairy': 'Milchprodukte',
+  'allergen.Eggs': 'Eier',
+  'allergen.Gluten': 'Gluten',
+  'allergen.Soy': 'Soja',
+  'allergen.Fish': 'Fisch',
+  'allergen.Shellfish': 'Krebstiere',
+  'allergen.Sesame': 'Sesam',
+
+  'slot.Breakfast': 'Frühstück',
+  'slot.Lunch': 'Mittagessen',
+  'slot.Dinner': 'Abendessen',
+
+  'upload.title': 'Hol das Beste aus deinem Kühlschrank',
+  'upload.subtitle': 'Fotografiere Fächer, Tür und Schubladen und lass die KI deine Küchenhilfe sein!',
+  'upload.uploadPhotos': 'Fotos hochladen ({location})',
+  'upload.takePhoto': 'Foto aufnehmen',
+  'upload.dragAndDrop': 'oder Bilder hierher ziehen',
+  'upload.photoLabel': 'Foto {number}',
+  'upload.removePhoto': '{label} entfernen',
+  'upload.analyzing': 'Wird analysiert...',
+  'upload.analyzePhoto': '1 Foto analysieren',
+  'upload.analyzePhotos': '{count} Fotos analysieren',
+
+  'review.title': 'Zutaten prüfen',
+  'review.subtitle': 'Korrigiere, was wir falsch gelesen haben, entferne, was du nicht verwenden willst, und ergänze, was fehlt.',
+  'review.quantityOf': 'Menge von {name}',
+  'review.unit': 'Einheit',
+  'review.unitOf': 'Einheit von {name}',
+  'review.categoryOf': 'Kategorie von {name}',
+  'review.remove': '{name} entfernen',
+  'review.useWithinDay': 'Innerhalb von ~1 Tag verbrauchen',
+  'review.useWithinDays': 'Innerhalb von ~{days} Tagen verbrauchen',
+  'review.notSure': 'Hier sind wir unsicher ({percent} % sicher).',
+  'review.looksRight': 'Stimmt so',
+  'review.empty': 'Noch keine Zutaten. Füge unten welche hinzu.',
+  'review.addPlaceholder': 'Zutat hinzufügen, z. B. saure Sahne',
+  'review.add': 'Hinzufügen',
+  'review.duplicate': '1 doppelter Eintrag gefunden.',
+  'review.duplicates': '{count} doppelte Einträge gefunden.',
+  'review.mergeDuplicates': 'Doppelte zusammenführen',
+  'review.uploadDifferent': 'Andere Fotos hochladen',
+  'review.findRecipes': 'Rezepte finden',
+
+  'pantry.title': 'Dein Vorrat',
+  'pantry.subtitle': 'Alles, was du in Kühlschrank, Gefrierfach und Vorratsschrank gescannt hast.',
+  'pantry.empty': 'Dein Vorrat ist leer. Scanne ein Foto, um ihn zu füllen.',
+  'pantry.spoiled': 'Wahrscheinlich verdorben',
+  'pantry.useWithinDay': 'Innerhalb von 1 Tag verbrauchen',
+  'pantry.useWithinDays': 'Innerhalb von {days} Tagen verbrauchen',
+  'pantry.goodFor': 'Hält noch ~{days} Tage',
+  'pantry.added': 'Hinzugefügt am {date}',
+  'pantry.usedUp': 'Aufgebraucht',
+  'pantry.usedUpItem': '1 aufgebrauchter Eintrag.',
+  'pantry.usedUpItems': '{count} aufgebrauchte Einträge.',
+  'pantry.clear': 'Entfernen',
+  'pantry.scanMore': 'Weiteres Foto scannen',
+  'pantry.cookWithEverything': 'Mit allem kochen',
+
+  'shopping.title': 'Einkaufsliste',
+  'shopping.empty': 'Deine Einkaufsliste ist leer. Öffne ein Rezept und setze die fehlenden Zutaten darauf.',
+  'shopping.forRecipes': 'für {recipes}',
+  'shopping.remove': '{name} entfernen',
+  'shopping.clearChecked': 'Abgehakte entfernen ({count})',
+  'shopping.copy': 'Kopieren',
+  'shopping.copied': 'Kopiert!',
+  'shopping.text': 'Text',
+
+  'library.title': 'Gespeicherte Rezepte',
+  'library.subtitle': 'Deine Lieblingsfunde, mit deinen eigenen Bewertungen und Notizen.',
+  'library.search': 'Namen, Zutaten, Tags durchsuchen...',
+  'library.difficulty': 'Schwierigkeit',
+  'library.anyDifficulty': 'Jede Schwierigkeit',
+  'library.prepTime': 'Zubereitungszeit',
+  'library.anyPrepTime': 'Beliebige Zubereitungszeit',
+  'library.upToMinutes': 'Bis {minutes} Min.',
+  'library.calories': 'Kalorien',
+  'library.anyCalories': 'Beliebige Kalorien',
+  'library.upToCalories': 'Bis {calories} kcal',
+  'library.favorites': 'Favoriten',
+  'library.favorite': '{name} als Favorit markieren',
+  'library.unfavorite': '{name} aus den Favoriten entfernen',
+  'library.missing': 'Fehlt: {ingredients}',
+  'library.importJsonLd': 'JSON-LD importieren',
+  'library.importRecipes': 'Rezepte importieren',
+  'library.importedRecipe': '1 Rezept importiert.',
+  'library.importedRecipes': '{count} Rezepte importiert.',
+  'library.importFailed': 'Es konnten keine Rezepte importiert werden.',
+  'library.unreadable': 'die Datei konnte nicht gelesen werden',
+  'library.saveFailed': 'Deine Rezeptsammlung konnte nicht gespeichert werden, weil der Browserspeicher voll ist. Die letzten Änderungen gehen verloren, wenn du die App schließt.',
+  'library.empty': 'Noch nichts gespeichert. Öffne ein Rezept und tippe auf "Speichern", um es hier aufzubewahren.',
+  'library.noMatches': 'Keine gespeicherten Rezepte passen zu deiner Suche.',
+
+  'notes.favorite': 'Favorit',
+  'notes.addToFavorites': 'Zu den Favoriten',
+  'notes.rating': 'Bewertung',
+  'notes.star': '1 Stern',
+  'notes.stars': '{count} Sterne',
+  'notes.remove': 'Aus der Sammlung entfernen',
+  'notes.notesPlaceholder': "Deine Notizen, z. B. 'doppelt so viel Knoblauch'",
+  'notes.tagsPlaceholder': 'Tags, durch Kommas getrennt',
+
+  'history.title': 'Kochverlauf',
+  'history.subtitle': 'Was du gekocht hast und was es über deinen Geschmack verrät.',
+  'history.empty': 'Noch nichts gekocht. Öffne ein Rezept und tippe auf "Gekocht", sobald du es zubereitet hast.',
+  'history.learned': 'Was wir gelernt haben',
+  'history.learning': 'Bewerte noch ein paar Gerichte, dann richten sich neue Vorschläge nach deinem Geschmack.',
+  'history.favoriteCuisines': 'Küchen, die du magst:',
+  'history.dislikedIngredients': 'Nicht so dein Fall:',
+  'history.prepTimeBudget': 'Du kochst meist Gerichte, die höchstens so lange dauern:',
+  'history.minutes': '{minutes} Minuten',
+  'history.recentDishes': 'Schlagen wir nicht vor, weil du es kürzlich hattest:',
+  'history.rating': 'Bewertung für {name}',
+  'history.remove': '{name} aus dem Verlauf entfernen',
+
+  'export.label': 'Exportieren',
+  'export.labelCount': '{count} Rezepte exportieren',
+  'export.print': 'Drucken',
+  'export.recipes': 'Rezepte',
+  'export.difficulty': 'Schwierigkeit',
+  'export.time': 'Zeit',
+  'export.perServing': '{calories} pro Portion',
+  'export.serving': '1 Portion',
+  'export.servings': '{servings} Portionen',
+  'export.kcalPerServing': '{calories} kcal pro Portion',
+
+  'toolbar.sortBy': 'Sortieren nach',
+  'toolbar.sort.default': 'Vorgeschlagene Reihenfolge',
+  'toolbar.sort.calories': 'Wenigste Kalorien',
+  'toolbar.sort.protein': 'Meistes Eiweiß',
+  'toolbar.sort.carbs': 'Wenigste Kohlenhydrate',
+  'toolbar.sort.fat': 'Wenigstes Fett',
+  'toolbar.sort.fiber': 'Meiste Ballaststoffe',
+  'toolbar.sort.sugar': 'Wenigster Zucker',
+  'toolbar.sort.sodium': 'Wenigstes Natrium',
+  'toolbar.maxCalories': 'Max. kcal',
+  'toolbar.minProtein': 'Min. Eiweiß (g)',
+  'toolbar.maxCarbs': 'Max. Kohlenhydrate (g)',
+  'toolbar.maxFat': 'Max. Fett (g)',
+  'toolbar.showing': '{shown} von {total} werden angezeigt.',
+  'toolbar.clearLimits': 'Grenzen zurücksetzen',
+
+  'plan.title': 'Wochenplan',
+  'plan.subtitle': 'Drei Mahlzeiten am Tag für die nächste Woche, so geplant, dass Verderbliches rechtzeitig verbraucht wird.',
+  'plan.needIngredients': 'Scanne zuerst deinen Kühlschrank oder fülle deinen Vorrat, damit der Plan auf dem aufbaut, was du hast.',
+  'plan.planning': 'Deine Woche wird geplant...',
+  'plan.planWith': 'Meine Woche mit {count} Zutaten planen',
+  'plan.regenerate': 'Nicht fixierte Mahlzeiten neu erstellen',
+  'plan.addToList': 'Woche auf die Einkaufsliste setzen',
+  'plan.export': 'In den Kalender exportieren (.ics)',
+  'plan.startOver': 'Neu anfangen',
+  'plan.unused': '{name} verdirbt in ~{days} Tagen, wird diese Woche aber nicht verwendet.',
+  'plan.usedLate': '{name} verdirbt in ~{days} Tagen, wird aber erst am {date} verwendet.',
+  'plan.lock': '{slot} am {date} fixieren',
+  'plan.unlock': '{slot} am {date} lösen',
+  'plan.swap': '{slot} am {date} tauschen',
+  'plan.pending': 'Wird geplant...',
+  'plan.suggestMeal': 'Mahlzeit vorschlagen',
+  'plan.mealLabel': '{recipe} ({day} {slot})',
+  'plan.event.Breakfast': 'Frühstück: {recipe}',
+  'plan.event.Lunch': 'Mittagessen: {recipe}',
+  'plan.event.Dinner': 'Abendessen: {recipe}',
+  'plan.eventIngredients': 'Zutaten: {ingredients}',
+
+  'profiles.title': 'Allergien & Abneigungen',
+  'profiles.intro': 'Rezepte werden vor dem Anzeigen mit jedem aktiven Profil abgeglichen.',
+  'profiles.name': 'Profilname',
+  'profiles.active': 'Aktiv',
+  'profiles.delete': '{name} löschen',
+  'profiles.avoidPlaceholder': 'Zutat meiden, z. B. Koriander',
+  'profiles.addAvoided': 'Zu meidende Zutat hinzufügen',
+  'profiles.stopAvoiding': '{name} nicht mehr meiden',
+  'profiles.strict': 'Rezepte ausblenden, die gegen dieses Profil verstoßen (sonst werden sie mit einem Hinweis angezeigt)',
+  'profiles.add': 'Profil hinzufügen',
+  'profiles.defaultName': 'Allergien',
+  'profiles.numberedName': 'Profil {number}',
+};
+
+export const MESSAGES: Record<Locale, Messages> = { en, es, de };
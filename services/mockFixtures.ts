@@ -0,0 +1,140 @@
+import { Recipe, DietaryRestriction, InventoryItem, IngredientCategory } from '../types';
+
+export const MOCK_INVENTORY: InventoryItem[] = [
+  { name: 'eggs', quantity: 6, unit: 'pieces', category: IngredientCategory.Dairy, confidence: 0.95, shelfLifeDays: 14 },
+  { name: 'milk', quantity: 1, unit: 'liters', category: IngredientCategory.Dairy, confidence: 0.9, shelfLifeDays: 5 },
+  { name: 'spinach', quantity: 1, unit: 'bag', category: IngredientCategory.Produce, confidence: 0.8, shelfLifeDays: 2 },
+  { name: 'cherry tomatoes', quantity: 250, unit: 'grams', category: IngredientCategory.Produce, confidence: 0.85, shelfLifeDays: 4 },
+  { name: 'chicken breast', quantity: 2, unit: 'pieces', category: IngredientCategory.Meat, confidence: 0.75, shelfLifeDays: 2 },
+  { name: 'cheddar cheese', quantity: 200, unit: 'grams', category: IngredientCategory.Dairy, confidence: 0.7, shelfLifeDays: 21 },
+  { name: 'sour cream', quantity: 1, unit: 'tub', category: IngredientCategory.Dairy, confidence: 0.45, shelfLifeDays: 7 },
+  { name: 'lemons', quantity: 2, unit: 'pieces', category: IngredientCategory.Produce, confidence: 0.9, shelfLifeDays: 10 },
+];
+
+export const MOCK_RECIPES: { recipe: Recipe; diets: DietaryRestriction[] }[] = [
+  {
+    recipe: {
+      name: 'Spinach and Cheddar Omelette',
+      difficulty: 'Easy',
+      prepTime: '15 minutes',
+      cuisine: 'American',
+      servings: 1,
+      calories: 380,
+      nutrition: { protein: 26, carbs: 4, fat: 29, fiber: 1, sugar: 2, sodium: 520 },
+      ingredients: [
+        { name: 'eggs', quantity: '3 large' },
+        { name: 'spinach', quantity: '1 cup' },
+        { name: 'cheddar cheese', quantity: '1/4 cup, grated' },
+        { name: 'butter', quantity: '1 tbsp' },
+        { name: 'salt and pepper', quantity: 'to taste' },
+      ],
+      instructions: [
+        'Whisk the eggs with a pinch of salt and pepper.',
+        'Melt the butter in a non-stick pan over medium heat and wilt the spinach for 1 minute.',
+        'Pour in the eggs and cook for 2 minutes until the edges set.',
+        'Sprinkle over the cheddar, fold the omelette in half and serve.',
+      ],
+    },
+    diets: [DietaryRestriction.Vegetarian, DietaryRestriction.Keto, DietaryRestriction.GlutenFree, DietaryRestriction.LowCarb, DietaryRestriction.HighProtein],
+  },
+  {
+    recipe: {
+      name: 'Lemon Garlic Chicken with Blistered Tomatoes',
+      difficulty: 'Medium',
+      prepTime: '35 minutes',
+      cuisine: 'Mediterranean',
+      servings: 2,
+      calories: 450,
+      nutrition: { protein: 38, carbs: 9, fat: 22, fiber: 2, sugar: 5, sodium: 640 },
+      ingredients: [
+        { name: 'chicken breast', quantity: '2 pieces' },
+        { name: 'cherry tomatoes', quantity: '250 g' },
+        { name: 'lemons', quantity: '1' },
+        { name: 'garlic', quantity: '3 cloves' },
+        { name: 'olive oil', quantity: '2 tbsp' },
+      ],
+      instructions: [
+        'Season the chicken with salt, pepper and the zest of the lemon.',
+        'Sear the chicken in olive oil for 6 minutes per side, then set aside to rest.',
+        'Add the garlic and tomatoes to the pan and cook for 5 minutes until blistered.',
+        'Squeeze over the lemon juice, slice the chicken and serve with the tomatoes.',
+      ],
+    },
+    diets: [DietaryRestriction.Keto, DietaryRestriction.GlutenFree, DietaryRestriction.LowCarb, DietaryRestriction.HighProtein],
+  },
+  {
+    recipe: {
+      name: 'Creamy Tomato Spinach Pasta',
+      difficulty: 'Easy',
+      prepTime: '25 minutes',
+      cuisine: 'Italian',
+      servings: 2,
+      calories: 560,
+      nutrition: { protein: 18, carbs: 68, fat: 22, fiber: 6, sugar: 8, sodium: 580 },
+      ingredients: [
+        { name: 'pasta', quantity: '200 g' },
+        { name: 'cherry tomatoes', quantity: '150 g' },
+        { name: 'spinach', quantity: '2 cups' },
+        { name: 'sour cream', quantity: '1/2 cup' },
+        { name: 'parmesan', quantity: '1/4 cup' },
+      ],
+      instructions: [
+        'Cook the pasta in salted water according to the package, reserving half a cup of the water.',
+        'Soften the halved tomatoes in a pan for 5 minutes, then stir in the spinach until wilted.',
+        'Take the pan off the heat and stir in the sour cream and parmesan.',
+        'Toss with the pasta, loosening with the reserved water as needed.',
+      ],
+    },
+    diets: [DietaryRestriction.Vegetarian],
+  },
+  {
+    recipe: {
+      name: 'Chickpea and Spinach Lemon Stew',
+      difficulty: 'Medium',
+      prepTime: '40 minutes',
+      cuisine: 'Moroccan',
+      servings: 3,
+      calories: 410,
+      nutrition: { protein: 14, carbs: 46, fat: 9, fiber: 13, sugar: 9, sodium: 720 },
+      ingredients: [
+        { name: 'chickpeas', quantity: '1 can' },
+        { name: 'spinach', quantity: '3 cups' },
+        { name: 'cherry tomatoes', quantity: '200 g' },
+        { name: 'onion', quantity: '1' },
+        { name: 'lemons', quantity: '1' },
+        { name: 'vegetable stock', quantity: '2 cups' },
+      ],
+      instructions: [
+        'Sweat the diced onion in a pot for 8 minutes.',
+        'Add the chickpeas, tomatoes and stock and simmer for 20 minutes.',
+        'Stir in the spinach until wilted and finish with lemon juice.',
+      ],
+    },
+    diets: [DietaryRestriction.Vegetarian, DietaryRestriction.Vegan, DietaryRestriction.GlutenFree],
+  },
+  {
+    recipe: {
+      name: 'Baked Lemon Salmon with Greens',
+      difficulty: 'Hard',
+      prepTime: '45 minutes',
+      cuisine: 'Scandinavian',
+      servings: 2,
+      calories: 520,
+      nutrition: { protein: 34, carbs: 6, fat: 24, fiber: 3, sugar: 2, sodium: 410 },
+      ingredients: [
+        { name: 'salmon fillet', quantity: '2' },
+        { name: 'lemons', quantity: '1' },
+        { name: 'spinach', quantity: '2 cups' },
+        { name: 'butter', quantity: '2 tbsp' },
+        { name: 'dill', quantity: '1 tbsp, chopped' },
+      ],
+      instructions: [
+        'Preheat the oven to 200°C.',
+        'Lay the salmon on lemon slices, dot with butter and dill and bake for 15 minutes.',
+        'Meanwhile, wilt the spinach in the remaining butter.',
+        'Serve the salmon over the greens with the pan juices.',
+      ],
+    },
+    diets: [DietaryRestriction.Pescatarian, DietaryRestriction.Keto, DietaryRestriction.GlutenFree, DietaryRestriction.LowCarb, DietaryRestriction.HighProtein],
+  },
+];
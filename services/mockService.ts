@@ -0,0 +1,66 @@
+import { Recipe, DietaryRestriction, ExclusionProfile, InventoryItem, MealPlanRequest, PlannedMeal } from '../types';
+import { ChefChat, RecipeProvider, RecipeRequestOptions } from './recipeProvider';
+import { MOCK_INVENTORY, MOCK_RECIPES } from './mockFixtures';
+import { parsePrepTime } from './recipeValidation';
+
+export const analyzeFridgeContents = async (_imageFile: File): Promise<InventoryItem[]> =>
+  MOCK_INVENTORY.map(item => ({ ...item }));
+
+/**
+ * Lists the fixtures that fit the filters, with any dish cooked recently moved to the end, up to the
+ * requested number. The other constraints are left for the app to check.
+ */
+export const getRecipes = async (_ingredients: InventoryItem[], filters: DietaryRestriction[], _exclusions?: ExclusionProfile[], { preferences, constraints }: RecipeRequestOptions = {}): Promise<Recipe[]> => {
+  const matching = MOCK_RECIPES.filter(({ diets }) => filters.every(filter => diets.includes(filter)));
+  const isRecent = (recipe: Recipe) => !!preferences?.recentDishes.includes(recipe.name);
+  const recipes = (matching.length > 0 ? matching : MOCK_RECIPES).map(({ recipe }) => recipe);
+  return recipes.sort((a, b) => Number(isRecent(a)) - Number(isRecent(b))).slice(0, constraints?.recipeCount).map(recipe => ({
+    ...structuredClone(recipe),
+    prepTimeMinutes: parsePrepTime(recipe.prepTime),
+  }));
+};
+
+const MEAL_SLOT_ORDER = ['Breakfast', 'Lunch', 'Dinner'];
+
+/** Fills each requested slot by cycling through the fixture recipes in a fixed order. */
+export const getMealPlan = async (ingredients: InventoryItem[], filters: DietaryRestriction[], request: MealPlanRequest): Promise<PlannedMeal[]> => {
+  const recipes = await getRecipes(ingredients, filters);
+  return request.slots.map(({ day, slot }) => ({
+    day,
+    slot,
+    recipe: recipes[(day * MEAL_SLOT_ORDER.length + MEAL_SLOT_ORDER.indexOf(slot)) % recipes.length],
+    locked: false,
+  }));
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const generateRecipeImage = async (recipeName: string): Promise<string> => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="100%" height="100%" fill="#dbeafe"/><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#1e3a8a">${escapeXml(recipeName)}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/** Follows a script: asking for the recipe "without" some of its ingredients leaves them out. */
+export const startChefChat = (recipe: Recipe): ChefChat => {
+  let current = recipe;
+  return {
+    send: async (message) => {
+      const request = /\bwithout\b(.*)/i.exec(message)?.[1].toLowerCase() ?? '';
+      const omitted = current.ingredients.filter(ing => request.includes(ing.name.toLowerCase()));
+      if (omitted.length === 0) {
+        return { role: 'chef', text: `Good question! The offline chef can only leave ingredients out of ${current.name}, so try asking for it "without" one of them.` };
+      }
+      current = { ...current, ingredients: current.ingredients.filter(ing => !omitted.includes(ing)) };
+      return { role: 'chef', text: `Here is ${current.name} without the ${omitted.map(ing => ing.name.toLowerCase()).join(' and ')}.`, recipe: current };
+    },
+  };
+};
+
+/** Deterministic offline provider backed by canned fixtures, for development, demos and tests. */
+export const mockProvider: RecipeProvider = {
+  analyzeFridgeContents,
+  getRecipes,
+  generateRecipeImage,
+  getMealPlan,
+  startChefChat,
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { DietaryRestriction, Nutrition } from '../types';
+import { checkDietaryFit, filterByNutrition, formatNutrient, sortRecipes } from './nutrition';
+import { createTranslator } from './i18n';
+import { makeRecipe } from './testFixtures';
+
+const nutrition = (overrides: Partial<Nutrition>): Nutrition => ({ protein: 20, carbs: 30, fat: 15, fiber: 5, sugar: 5, sodium: 500, ...overrides });
+
+const steak = makeRecipe({ name: 'Steak', calories: 600, nutrition: nutrition({ protein: 45, carbs: 4, fat: 40, fiber: 1 }) });
+const pasta = makeRecipe({ name: 'Pasta', calories: 700, nutrition: nutrition({ protein: 18, carbs: 90, fat: 20, fiber: 6 }) });
+const salad = makeRecipe({ name: 'Salad', calories: 250, nutrition: nutrition({ protein: 8, carbs: 22, fat: 12, fiber: 9 }) });
+const mystery = makeRecipe({ name: 'Mystery Stew', calories: 400 });
+
+describe('checkDietaryFit', () => {
+  it('flags recipes that miss macro-based diets', () => {
+    expect(checkDietaryFit(pasta, [DietaryRestriction.Keto, DietaryRestriction.HighProtein])).toEqual([
+      '84 g net carbs is high for keto',
+      '18 g protein is low for high-protein',
+    ]);
+  });
+
+  it('uses net carbs for keto', () => {
+    expect(checkDietaryFit(salad, [DietaryRestriction.Keto])).toEqual([]);
+    expect(checkDietaryFit(salad, [DietaryRestriction.LowCarb])).toEqual([]);
+  });
+
+  it('ignores diets that are not about macros and recipes without nutrition', () => {
+    expect(checkDietaryFit(pasta, [DietaryRestriction.Vegetarian])).toEqual([]);
+    expect(checkDietaryFit(mystery, [DietaryRestriction.Keto])).toEqual([]);
+  });
+
+  it('words the warnings in the given language', () => {
+    expect(checkDietaryFit(pasta, [DietaryRestriction.LowCarb], createTranslator('es'))).toEqual([
+      '90 g de carbohidratos es mucho para una dieta baja en carbohidratos',
+    ]);
+  });
+});
+
+describe('filterByNutrition', () => {
+  it('applies every limit', () => {
+    expect(filterByNutrition([steak, pasta, salad], { minProtein: 15, maxCarbs: 50 })).toEqual([steak]);
+    expect(filterByNutrition([steak, pasta, salad], { maxCalories: 600 })).toEqual([steak, salad]);
+  });
+
+  it('only lets recipes without nutrition through calorie limits', () => {
+    expect(filterByNutrition([mystery], { maxCalories: 500 })).toEqual([mystery]);
+    expect(filterByNutrition([mystery], { maxFat: 20 })).toEqual([]);
+  });
+});
+
+describe('sortRecipes', () => {
+  it('sorts best first for each nutrient', () => {
+    expect(sortRecipes([pasta, salad, steak], 'protein').map(r => r.name)).toEqual(['Steak', 'Pasta', 'Salad']);
+    expect(sortRecipes([pasta, salad, steak], 'carbs').map(r => r.name)).toEqual(['Steak', 'Salad', 'Pasta']);
+    expect(sortRecipes([pasta, salad, steak], 'calories').map(r => r.name)).toEqual(['Salad', 'Steak', 'Pasta']);
+  });
+
+  it('puts recipes without the value last and keeps the original order by default', () => {
+    expect(sortRecipes([mystery, pasta, steak], 'fiber').map(r => r.name)).toEqual(['Pasta', 'Steak', 'Mystery Stew']);
+    const original = [pasta, steak];
+    expect(sortRecipes(original, 'default')).toBe(original);
+  });
+});
+
+describe('formatNutrient', () => {
+  it('uses milligrams for sodium', () => {
+    expect(formatNutrient(nutrition({ sodium: 512.4 }), 'sodium')).toBe('512 mg');
+    expect(formatNutrient(nutrition({ protein: 12.6 }), 'protein')).toBe('13 g');
+  });
+});
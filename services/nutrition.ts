@@ -0,0 +1,83 @@
+import { DietaryRestriction, Nutrition, Recipe } from '../types';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+
+export type NutrientKey = keyof Nutrition;
+
+export const NUTRIENTS: { key: NutrientKey; unit: 'g' | 'mg' }[] = [
+  { key: 'protein', unit: 'g' },
+  { key: 'carbs', unit: 'g' },
+  { key: 'fat', unit: 'g' },
+  { key: 'fiber', unit: 'g' },
+  { key: 'sugar', unit: 'g' },
+  { key: 'sodium', unit: 'mg' },
+];
+
+export type RecipeSortKey = 'default' | 'calories' | NutrientKey;
+
+/** Which way is "better" for each sort key: more protein and fiber, less of everything else. */
+const SORT_DESCENDING: Record<RecipeSortKey, boolean> = {
+  default: false, calories: false, protein: true, carbs: false, fat: false, fiber: true, sugar: false, sodium: false,
+};
+
+export interface NutritionFilters {
+  maxCalories?: number;
+  minProtein?: number;
+  maxCarbs?: number;
+  maxFat?: number;
+}
+
+// Per-serving thresholds used to check a recipe against the diets that are defined by macros.
+const KETO_MAX_NET_CARBS = 20;
+const LOW_CARB_MAX_CARBS = 30;
+const HIGH_PROTEIN_MIN_PROTEIN = 25;
+
+export const netCarbs = (nutrition: Nutrition) => Math.max(0, nutrition.carbs - nutrition.fiber);
+
+export const formatNutrient = (nutrition: Nutrition, key: NutrientKey) => {
+  const { unit } = NUTRIENTS.find(nutrient => nutrient.key === key)!;
+  return `${Math.round(nutrition[key])} ${unit}`;
+};
+
+/**
+ * Checks a recipe's nutrition against the macro-based diets the user asked for, returning a
+ * warning for each one it misses. Recipes without nutrition facts can't be checked.
+ */
+export const checkDietaryFit = (recipe: Recipe, filters: DietaryRestriction[], t: Translate = createTranslator(DEFAULT_LOCALE)): string[] => {
+  const { nutrition } = recipe;
+  if (!nutrition) return [];
+  const warnings: string[] = [];
+  if (filters.includes(DietaryRestriction.Keto) && netCarbs(nutrition) > KETO_MAX_NET_CARBS) {
+    warnings.push(t('card.highNetCarbs', { grams: Math.round(netCarbs(nutrition)) }));
+  }
+  if (filters.includes(DietaryRestriction.LowCarb) && nutrition.carbs > LOW_CARB_MAX_CARBS) {
+    warnings.push(t('card.highCarbs', { grams: Math.round(nutrition.carbs) }));
+  }
+  if (filters.includes(DietaryRestriction.HighProtein) && nutrition.protein < HIGH_PROTEIN_MIN_PROTEIN) {
+    warnings.push(t('card.lowProtein', { grams: Math.round(nutrition.protein) }));
+  }
+  return warnings;
+};
+
+const passes = (value: number | undefined, limit: number | undefined, kind: 'min' | 'max') =>
+  limit === undefined || (value !== undefined && (kind === 'max' ? value <= limit : value >= limit));
+
+/** Filters recipes by per-serving nutrition. Recipes without nutrition facts only pass a calorie limit. */
+export const filterByNutrition = (recipes: Recipe[], filters: NutritionFilters) =>
+  recipes.filter(recipe =>
+    passes(recipe.calories, filters.maxCalories, 'max') &&
+    passes(recipe.nutrition?.protein, filters.minProtein, 'min') &&
+    passes(recipe.nutrition?.carbs, filters.maxCarbs, 'max') &&
+    passes(recipe.nutrition?.fat, filters.maxFat, 'max')
+  );
+
+/** Sorts recipes by calories or a nutrient, best first. Recipes without the value go last; "default" keeps the original order. */
+export const sortRecipes = (recipes: Recipe[], key: RecipeSortKey) => {
+  if (key === 'default') return recipes;
+  const valueOf = (recipe: Recipe) => (key === 'calories' ? recipe.calories : recipe.nutrition?.[key]);
+  const direction = SORT_DESCENDING[key] ? -1 : 1;
+  return [...recipes].sort((a, b) => {
+    const [valueA, valueB] = [valueOf(a), valueOf(b)];
+    if (valueA === undefined || valueB === undefined) return Number(valueA === undefined) - Number(valueB === undefined);
+    return (valueA - valueB) * direction;
+  });
+};
@@ -0,0 +1,140 @@
+import { Recipe, DietaryRestriction, ExclusionProfile, InventoryItem, IngredientCategory, Locale, MealPlanRequest, PlannedMeal } from '../types';
+import { ChefChat, RecipeProvider, RecipeRequestOptions } from './recipeProvider';
+import { FRIDGE_ANALYSIS_PROMPT, buildRecipePrompt, buildRecipeImagePrompt, buildMealPlanPrompt, buildChefChatInstruction } from './prompts';
+import { readFileAsDataURL } from './fileUtils';
+import { generateValidatedRecipes, generateValidatedMealPlan } from './recipeValidation';
+import { isReportable } from './errors';
+import { errorForStatus, withRetry } from './request';
+import { parseChefReply } from './chefChat';
+import { createTranslator } from './i18n';
+
+const baseUrl = (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, '');
+const model = process.env.OPENAI_MODEL || 'llama3.2-vision';
+
+const INVENTORY_FORMAT = `Respond only with JSON of the form {"items": [{"name": string, "quantity": number, "unit": string, "category": one of ${Object.values(IngredientCategory).map(c => `"${c}"`).join(', ')}, "confidence": number from 0 to 1, "shelfLifeDays": integer}]}.`;
+const RECIPE_FORMAT = `{"name": string, "difficulty": "Easy" | "Medium" | "Hard", "prepTime": string, "prepTimeMinutes": integer, "servings": integer, "cuisine": string, "calories": integer, "nutrition": {"protein": number, "carbs": number, "fat": number, "fiber": number, "sugar": number, "sodium": number}, "ingredients": [{"name": string, "quantity": string, "englishName"?: string}], "instructions": [string]}`;
+const RECIPES_FORMAT = `Respond only with JSON of the form {"recipes": [${RECIPE_FORMAT}]}.`;
+const CHEF_REPLY_FORMAT = `Always respond only with JSON of the form {"reply": string, "recipe"?: ${RECIPE_FORMAT}}.`;
+const MEAL_PLAN_FORMAT = `Respond only with JSON of the form {"meals": [{"day": integer, "slot": "Breakfast" | "Lunch" | "Dinner", "recipe": ${RECIPE_FORMAT}}]}.`;
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: MessageContent;
+}
+
+const headers = () => ({
+  'Content-Type': 'application/json',
+  ...(process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {}),
+});
+
+const postJSON = (path: string, body: unknown, signal?: AbortSignal) => withRetry(async () => {
+  const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers: headers(), body: JSON.stringify(body), signal });
+  if (!response.ok) {
+    const message = `${baseUrl}${path} responded with ${response.status} ${response.statusText}`;
+    throw errorForStatus(response.status, await response.text().catch(() => ''), new Error(message)) ?? new Error(message);
+  }
+  return response.json();
+}, { signal });
+
+const completeChat = async (messages: ChatMessage[], signal?: AbortSignal): Promise<string | undefined> => {
+  const data = await postJSON('/chat/completions', {
+    model,
+    messages,
+    response_format: { type: 'json_object' },
+  }, signal);
+  return data.choices?.[0]?.message?.content;
+};
+
+const chatCompletion = (content: MessageContent, signal?: AbortSignal) => completeChat([{ role: 'user', content }], signal);
+
+export const analyzeFridgeContents = async (imageFile: File): Promise<InventoryItem[]> => {
+  try {
+    const imageUrl = await readFileAsDataURL(imageFile);
+    const text = await chatCompletion([
+      { type: 'image_url', image_url: { url: imageUrl } },
+      { type: 'text', text: `${FRIDGE_ANALYSIS_PROMPT} ${INVENTORY_FORMAT}` },
+    ]);
+    if (!text) return [];
+    const result = JSON.parse(text);
+    return (result.items as InventoryItem[])
+      .map(item => ({ ...item, name: item.name.trim().toLowerCase() }))
+      .filter(item => item.name);
+  } catch (error) {
+    if (isReportable(error)) throw error;
+    console.error("Error analyzing fridge contents:", error);
+    throw new Error("Failed to analyze image with the local model.");
+  }
+};
+
+export const getRecipes = async (ingredients: InventoryItem[], filters: DietaryRestriction[], exclusions: ExclusionProfile[] = [], { signal, locale, preferences, constraints }: RecipeRequestOptions = {}): Promise<Recipe[]> => {
+  try {
+    return await generateValidatedRecipes(`${buildRecipePrompt(ingredients, filters, exclusions, locale, preferences, constraints)} ${RECIPES_FORMAT}`, prompt => chatCompletion(prompt, signal));
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    if (isReportable(error)) throw error;
+    console.error("Error generating recipes:", error);
+    throw new Error("Failed to generate recipes with the local model.");
+  }
+};
+
+export const getMealPlan = async (ingredients: InventoryItem[], filters: DietaryRestriction[], request: MealPlanRequest, exclusions: ExclusionProfile[] = [], locale: Locale = 'en'): Promise<PlannedMeal[]> => {
+  try {
+    return await generateValidatedMealPlan(`${buildMealPlanPrompt(ingredients, filters, request, exclusions, locale)} ${MEAL_PLAN_FORMAT}`, request, chatCompletion);
+  } catch (error) {
+    if (isReportable(error)) throw error;
+    console.error("Error generating meal plan:", error);
+    throw new Error("Failed to generate a meal plan with the local model.");
+  }
+};
+
+export const generateRecipeImage = async (recipeName: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    if (!process.env.OPENAI_IMAGE_MODEL) {
+      throw new Error("OPENAI_IMAGE_MODEL environment variable not set");
+    }
+    const data = await postJSON('/images/generations', {
+      model: process.env.OPENAI_IMAGE_MODEL,
+      prompt: buildRecipeImagePrompt(recipeName),
+      response_format: 'b64_json',
+    }, signal);
+    const base64ImageBytes: string | undefined = data.data?.[0]?.b64_json;
+    if (!base64ImageBytes) throw new Error("No image data found in response.");
+    return `data:image/png;base64,${base64ImageBytes}`;
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    if (isReportable(error)) throw error;
+    console.error(`Error generating image for recipe "${recipeName}":`, error);
+    throw new Error(`Failed to generate an image for the recipe: ${recipeName}.`);
+  }
+};
+
+/** The server keeps no state, so the conversation so far is sent along with every message. */
+export const startChefChat = (recipe: Recipe, ownedIngredients: string[], exclusions: ExclusionProfile[] = [], locale: Locale = 'en'): ChefChat => {
+  const messages: ChatMessage[] = [{ role: 'system', content: `${buildChefChatInstruction(recipe, ownedIngredients, exclusions, locale)} ${CHEF_REPLY_FORMAT}` }];
+  return {
+    send: async (message, signal) => {
+      try {
+        const userMessage: ChatMessage = { role: 'user', content: message };
+        const text = await completeChat([...messages, userMessage], signal);
+        messages.push(userMessage, { role: 'assistant', content: text ?? '' });
+        return parseChefReply(text, createTranslator(locale));
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        if (isReportable(error)) throw error;
+        console.error("Error asking the chef:", error);
+        throw new Error("Failed to get an answer from the chef with the local model.");
+      }
+    },
+  };
+};
+
+/** Adapter for a local OpenAI-compatible server such as Ollama, LM Studio or llama.cpp. */
+export const openAiProvider: RecipeProvider = {
+  analyzeFridgeContents,
+  getRecipes,
+  generateRecipeImage,
+  getMealPlan,
+  startChefChat,
+};
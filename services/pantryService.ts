@@ -0,0 +1,90 @@
+import { InventoryItem, PantryItem, StorageLocation } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { normalizeIngredient } from './ingredientMatcher';
+
+const PANTRY_STORAGE_KEY = 'smart-fridge.pantry';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeItemName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Key under which two names count as the same item, e.g. "Tomatoes" and "fresh tomato". */
+export const itemKey = (name: string) => normalizeIngredient(name) || normalizeItemName(name);
+
+/**
+ * Combines items that share a name, e.g. the same ingredient detected in several photos.
+ * Quantities are summed when the units agree, and the soonest spoilage estimate wins.
+ */
+export const mergeInventoryItems = (items: InventoryItem[]): InventoryItem[] => {
+  const merged = new Map<string, InventoryItem>();
+  for (const item of items) {
+    const name = normalizeItemName(item.name);
+    if (!name) continue;
+    const key = itemKey(name);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...item, name });
+      continue;
+    }
+    const sourceImages = [...new Set([...(existing.sourceImages ?? []), ...(item.sourceImages ?? [])])];
+    merged.set(key, {
+      ...existing,
+      quantity: existing.unit === item.unit ? existing.quantity + item.quantity : existing.quantity,
+      confidence: Math.max(existing.confidence, item.confidence),
+      shelfLifeDays: existing.shelfLifeDays === undefined ? item.shelfLifeDays
+        : item.shelfLifeDays === undefined ? existing.shelfLifeDays
+        : Math.min(existing.shelfLifeDays, item.shelfLifeDays),
+      sourceImages: sourceImages.length > 0 ? sourceImages : undefined,
+    });
+  }
+  return [...merged.values()];
+};
+
+export const loadPantry = (): PantryItem[] => loadJSON<PantryItem[]>(PANTRY_STORAGE_KEY, []);
+
+export const savePantry = (items: PantryItem[]) => saveJSON(PANTRY_STORAGE_KEY, items);
+
+export const isActive = (item: PantryItem) => !item.usedUpAt;
+
+/**
+ * Merges a fresh scan into the pantry. Re-scanning an item that is already stocked in the
+ * same location updates its estimates but keeps its original `addedAt`; anything else is
+ * added as a new entry.
+ */
+export const mergeScanIntoPantry = (pantry: PantryItem[], scan: InventoryItem[], location: StorageLocation, now = new Date()): PantryItem[] => {
+  const merged = [...pantry];
+  for (const { sourceImages, ...item } of scan) {
+    const name = normalizeItemName(item.name);
+    if (!name) continue;
+    const index = merged.findIndex(existing => isActive(existing) && existing.location === location && itemKey(existing.name) === itemKey(name));
+    if (index === -1) {
+      merged.push({ ...item, name, id: crypto.randomUUID(), location, addedAt: now.toISOString() });
+    } else {
+      const existing = merged[index];
+      merged[index] = { ...existing, ...item, name, shelfLifeDays: item.shelfLifeDays ?? existing.shelfLifeDays };
+    }
+  }
+  return merged;
+};
+
+export const markUsedUp = (pantry: PantryItem[], id: string, now = new Date()): PantryItem[] =>
+  pantry.map(item => (item.id === id ? { ...item, usedUpAt: now.toISOString() } : item));
+
+export const clearUsedUp = (pantry: PantryItem[]): PantryItem[] => pantry.filter(isActive);
+
+/** Days left before the item spoils, counting down from the estimate made when it was added. */
+export const remainingShelfLife = (item: PantryItem, now = new Date()): number | undefined => {
+  if (item.shelfLifeDays === undefined) return undefined;
+  const daysStored = Math.floor((now.getTime() - new Date(item.addedAt).getTime()) / DAY_MS);
+  return item.shelfLifeDays - daysStored;
+};
+
+/** Converts the active pantry into inventory items with up-to-date shelf life, ready for `getRecipes`. */
+export const pantryToInventory = (pantry: PantryItem[], now = new Date()): InventoryItem[] =>
+  pantry.filter(isActive).map(item => ({
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    category: item.category,
+    confidence: item.confidence,
+    shelfLifeDays: remainingShelfLife(item, now),
+  }));
@@ -0,0 +1,54 @@
+import { dataURLToBlob, readFileAsDataURL } from './fileUtils';
+import { openDatabase, requestResult, transactionDone } from './indexedDb';
+
+// Photos of saved recipes, kept apart from the response cache so that eviction never removes them.
+const DB_NAME = 'smart-fridge-photos';
+const DB_VERSION = 1;
+const PHOTO_STORE = 'photos';
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const openPhotos = () => {
+  databasePromise ??= openDatabase(DB_NAME, DB_VERSION, db => db.createObjectStore(PHOTO_STORE));
+  return databasePromise;
+};
+
+/** Stores a data URL photo as a blob under the given id. Failures are only logged. */
+export const storePhoto = async (id: string, dataUrl: string) => {
+  try {
+    const db = await openPhotos();
+    if (!db) return;
+    const transaction = db.transaction(PHOTO_STORE, 'readwrite');
+    transaction.objectStore(PHOTO_STORE).put(dataURLToBlob(dataUrl), id);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Could not store the photo "${id}":`, error);
+  }
+};
+
+/** Reads photos back as data URLs, keyed by id. Photos that can't be read are left out. */
+export const loadPhotos = async (ids: string[]): Promise<Record<string, string>> => {
+  try {
+    const db = await openPhotos();
+    if (!db || ids.length === 0) return {};
+    const store = db.transaction(PHOTO_STORE, 'readonly').objectStore(PHOTO_STORE);
+    const blobs = await Promise.all(ids.map(id => requestResult<Blob | undefined>(store.get(id))));
+    const entries = await Promise.all(ids.map(async (id, index) => [id, blobs[index] && await readFileAsDataURL(blobs[index])] as const));
+    return Object.fromEntries(entries.filter(([, dataUrl]) => dataUrl));
+  } catch (error) {
+    console.warn('Could not load the saved photos:', error);
+    return {};
+  }
+};
+
+export const deletePhotos = async (ids: string[]) => {
+  try {
+    const db = await openPhotos();
+    if (!db) return;
+    const transaction = db.transaction(PHOTO_STORE, 'readwrite');
+    ids.forEach(id => transaction.objectStore(PHOTO_STORE).delete(id));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn('Could not delete the saved photos:', error);
+  }
+};
@@ -0,0 +1,95 @@
+import { CookingPreferences, DietaryRestriction, ExclusionProfile, InventoryItem, Locale, MealPlanRequest, Recipe, RecipeConstraints } from '../types';
+import { LOCALES } from './i18n';
+import { ALL_EQUIPMENT, DEFAULT_RECIPE_CONSTRAINTS } from './recipeConstraints';
+
+export const FRIDGE_ANALYSIS_PROMPT = "Analyze this image of a fridge's contents. Identify all edible food items and ingredients. For each item, estimate the quantity and unit you can see, assign a category, rate how confident you are in the identification, and estimate how many days it will stay fresh based on its typical shelf life and visible condition. Focus only on ingredients and use short, lowercase names such as 'cheddar cheese' or 'chicken breast'.";
+
+const describeInventoryItem = (item: InventoryItem) => {
+  const details: string[] = [];
+  if (item.quantity) details.push(`about ${item.quantity}${item.unit ? ` ${item.unit}` : ''}`);
+  if (item.shelfLifeDays !== undefined) details.push(`spoils in ~${item.shelfLifeDays} days`);
+  return details.length > 0 ? `${item.name} (${details.join(', ')})` : item.name;
+};
+
+const unique = (values: string[]) => [...new Set(values.map(value => value.toLowerCase()))];
+
+const describeExclusions = (profiles: ExclusionProfile[]) => {
+  const enabled = profiles.filter(profile => profile.enabled);
+  const allergens = unique(enabled.flatMap(profile => profile.allergens));
+  const forbidden = unique(enabled.filter(profile => profile.strict).flatMap(profile => profile.avoidIngredients));
+  const disliked = unique(enabled.filter(profile => !profile.strict).flatMap(profile => profile.avoidIngredients)).filter(name => !forbidden.includes(name));
+  return [
+    allergens.length > 0 ? ` Someone eating has allergies to ${allergens.join(', ')}: no recipe may contain these or any ingredient made from them, not even as a garnish.` : '',
+    forbidden.length > 0 ? ` Never use these ingredients: ${forbidden.join(', ')}.` : '',
+    disliked.length > 0 ? ` Avoid these disliked ingredients where possible: ${disliked.join(', ')}.` : '',
+  ].join('');
+};
+
+const describeIngredientsBySpoilage = (ingredients: InventoryItem[]) =>
+  [...ingredients].sort((a, b) => (a.shelfLifeDays ?? Infinity) - (b.shelfLifeDays ?? Infinity)).map(describeInventoryItem).join(', ');
+
+const describeRestrictions = (filters: DietaryRestriction[], exclusions: ExclusionProfile[]) =>
+  `${filters.length > 0 ? ` The user has the following dietary restrictions: ${filters.join(', ')}.` : ''}${describeExclusions(exclusions)}`;
+
+/** Leans towards what the user has enjoyed cooking and away from what they cooked lately. */
+const describePreferences = (preferences?: CookingPreferences) => {
+  if (!preferences) return '';
+  const { favoriteCuisines, dislikedIngredients, prepTimeBudget, recentDishes } = preferences;
+  return [
+    favoriteCuisines.length > 0 ? ` The user especially enjoys ${favoriteCuisines.join(', ')} cooking, so lean towards it while keeping some variety.` : '',
+    dislikedIngredients.length > 0 ? ` The user hasn't enjoyed dishes with ${dislikedIngredients.join(', ')}, so use them sparingly.` : '',
+    prepTimeBudget ? ` The user usually cooks dishes that take up to ${prepTimeBudget} minutes.` : '',
+    recentDishes.length > 0 ? ` The user cooked these dishes recently, so don't suggest them or close variations of them: ${recentDishes.join('; ')}.` : '',
+  ].join('');
+};
+
+const describeEquipment = (equipment: RecipeConstraints['equipment']) => {
+  if (equipment.length === 0) return ' The user has no cooking equipment, so only suggest dishes that need no cooking.';
+  const missing = ALL_EQUIPMENT.filter(item => !equipment.includes(item));
+  const names = (items: typeof equipment) => items.map(item => item.toLowerCase()).join(', ');
+  return missing.length > 0 ? ` The user has no ${names(missing)}, so only suggest dishes that can be made with: ${names(equipment)}.` : '';
+};
+
+/** The sidebar's limits, which are hard requirements unlike the learned preferences. */
+const describeConstraints = ({ cuisine, maxPrepMinutes, maxDifficulty, equipment, onePan }: RecipeConstraints) =>
+  [
+    cuisine.trim() ? ` Every recipe must be ${cuisine.trim()} cuisine.` : '',
+    maxPrepMinutes ? ` Every recipe must take ${maxPrepMinutes} minutes or less in total, including cooking.` : '',
+    maxDifficulty === 'Easy' ? ' Only suggest Easy recipes.' : maxDifficulty === 'Medium' ? ' Only suggest Easy or Medium recipes.' : '',
+    describeEquipment(equipment),
+    onePan ? ' Each recipe must be cooked in a single pan or pot.' : '',
+  ].join('');
+
+const RECIPE_DETAILS = "a name, difficulty (Easy, Medium, or Hard), estimated prep time, the same prep time as a whole number of minutes, the cuisine it belongs to (such as Italian or Thai), the number of servings it makes, approximate calories per serving, nutrition facts per serving (protein, carbs, fat, fiber and sugar in grams, sodium in milligrams), a list of all required ingredients with quantities for that many servings, and step-by-step instructions";
+
+/**
+ * Asks for recipes in the user's language. The user's ingredients stay in English as they were
+ * scanned, so every recipe ingredient also carries its English name to be matched by.
+ */
+const describeLanguage = (locale: Locale) =>
+  locale === 'en' ? '' : ` Write the recipe names, ingredient names and quantities, and instructions in ${LOCALES[locale].language}, but keep the difficulty as Easy, Medium or Hard. Also give each ingredient's common English name in "englishName", such as "onion" for "cebolla" or "Zwiebel".`;
+
+/** `preferences` come from the cooking history and are left out until there is one. */
+export const buildRecipePrompt = (ingredients: InventoryItem[], filters: DietaryRestriction[], exclusions: ExclusionProfile[] = [], locale: Locale = 'en', preferences?: CookingPreferences, constraints: RecipeConstraints = DEFAULT_RECIPE_CONSTRAINTS) =>
+  `Based on the following ingredients, listed from soonest to spoil to longest lasting: ${describeIngredientsBySpoilage(ingredients)}, suggest ${constraints.recipeCount} diverse ${constraints.recipeCount === 1 ? 'recipe' : 'recipes'}. Prefer recipes that use up the ingredients that spoil soonest.${describeRestrictions(filters, exclusions)}${describeConstraints(constraints)}${describePreferences(preferences)} For each recipe, provide ${RECIPE_DETAILS}. Some of the provided ingredients might not be enough for a full recipe, so feel free to include other common ingredients as 'missing'.${describeLanguage(locale)}`;
+
+/** Day numbers in the prompt and the response count from 1 (today), unlike `PlannedMeal.day`. */
+export const buildMealPlanPrompt = (ingredients: InventoryItem[], filters: DietaryRestriction[], request: MealPlanRequest, exclusions: ExclusionProfile[] = [], locale: Locale = 'en') => {
+  const start = new Date(`${request.startDate}T00:00:00`);
+  const dayName = (day: number) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + day).toLocaleDateString('en-US', { weekday: 'long' });
+  const slots = request.slots.map(({ day, slot }) => `day ${day + 1} (${dayName(day)}) ${slot.toLowerCase()}`).join(', ');
+  const kept = request.keep.length > 0
+    ? ` These meals are already planned and must stay as they are: ${request.keep.map(({ day, slot, recipe }) => `day ${day + 1} ${slot.toLowerCase()}: ${recipe.name}`).join('; ')}. Don't repeat them, and count the ingredients they use.`
+    : '';
+  return `Plan meals for the week starting today, ${dayName(0)}, as day 1. The user has the following ingredients, listed from soonest to spoil to longest lasting: ${describeIngredientsBySpoilage(ingredients)}. Schedule the meals so that every ingredient with a spoil estimate is used on or before the day it spoils, and use up as much of the rest as is reasonable.${kept}${describeRestrictions(filters, exclusions)} Suggest one recipe for each of these meals: ${slots}. Keep breakfasts quick, vary the dishes across the week, and don't suggest the same dish twice. For each meal, give the day number, the slot (Breakfast, Lunch or Dinner) and a recipe with ${RECIPE_DETAILS}. Feel free to include common ingredients the user doesn't have; they will be added to a shopping list.${describeLanguage(locale)}`;
+};
+
+const describeRecipe = ({ name, difficulty, prepTime, servings, calories, ingredients, instructions }: Recipe) =>
+  JSON.stringify({ name, difficulty, prepTime, servings, calories, ingredients, instructions });
+
+/** Seeds an "Ask the chef" conversation with the recipe on screen and what the user has at home. */
+export const buildChefChatInstruction = (recipe: Recipe, ownedIngredients: string[], exclusions: ExclusionProfile[] = [], locale: Locale = 'en') =>
+  `You are a friendly, practical chef helping the user with the recipe they are looking at: ${describeRecipe(recipe)}. The user has these ingredients at home: ${ownedIngredients.length > 0 ? ownedIngredients.join(', ') : 'none listed'}.${describeExclusions(exclusions)} Answer questions about substitutions, techniques, timing and variations briefly and concretely, preferring ingredients the user already has. Put your answer in "reply". When the answer changes the recipe, for example a substitution or making it dairy-free, also return the complete modified recipe in "recipe" with ${RECIPE_DETAILS}. Keep the name unless it has become a different dish. Leave "recipe" out when nothing about the recipe changes.${locale === 'en' ? '' : ` Reply in ${LOCALES[locale].language}.`}${describeLanguage(locale)}`;
+
+export const buildRecipeImagePrompt = (recipeName: string) =>
+  `A delicious and professional photo of "${recipeName}", beautifully plated on a clean, modern dish. The lighting should be bright and natural, highlighting the textures of the food.`;
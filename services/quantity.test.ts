@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuantity, formatAmount, formatQuantity, combineQuantities, convertQuantity, adjustQuantity } from './quantity';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['2 cups', { amount: 2, unit: 'cup', note: '' }],
+    ['1 1/2 tablespoons', { amount: 1.5, unit: 'tbsp', note: '' }],
+    ['1/4 tsp', { amount: 0.25, unit: 'tsp', note: '' }],
+    ['½ cup, chopped', { amount: 0.5, unit: 'cup', note: 'chopped' }],
+    ['1½ cups', { amount: 1.5, unit: 'cup', note: '' }],
+    ['2-3 cloves', { amount: 3, unit: 'clove', note: '' }],
+    ['250 g', { amount: 250, unit: 'g', note: '' }],
+    ['8 fl oz', { amount: 8, unit: 'fl oz', note: '' }],
+    ['3 large', { amount: 3, unit: '', note: 'large' }],
+    ['1 can of chickpeas', { amount: 1, unit: 'can', note: 'chickpeas' }],
+  ])('parses "%s"', (input, expected) => {
+    expect(parseQuantity(input)).toEqual(expected);
+  });
+
+  it('returns null when there is no amount', () => {
+    expect(parseQuantity('to taste')).toBeNull();
+  });
+});
+
+describe('formatAmount', () => {
+  it('renders common fractions', () => {
+    expect(formatAmount(1.5)).toBe('1 1/2');
+    expect(formatAmount(0.333)).toBe('1/3');
+    expect(formatAmount(2)).toBe('2');
+    expect(formatAmount(1.37)).toBe('1.37');
+  });
+});
+
+describe('formatQuantity', () => {
+  it('pluralizes word units but not abbreviations', () => {
+    expect(formatQuantity({ amount: 3, unit: 'cup' })).toBe('3 cups');
+    expect(formatQuantity({ amount: 2, unit: 'pinch' })).toBe('2 pinches');
+    expect(formatQuantity({ amount: 3, unit: 'tbsp' })).toBe('3 tbsp');
+    expect(formatQuantity({ amount: 1, unit: 'cup' })).toBe('1 cup');
+  });
+});
+
+describe('combineQuantities', () => {
+  it('sums quantities that share a unit and keeps the rest', () => {
+    expect(combineQuantities(['2 cups', '1 cup', 'to taste', '1 tbsp'])).toEqual(['3 cups', '1 tbsp', 'to taste']);
+  });
+
+  it('keeps the original wording of quantities that appear alone', () => {
+    expect(combineQuantities(['1/2 cup, chopped'])).toEqual(['1/2 cup, chopped']);
+  });
+
+  it('only sums counts of the same thing', () => {
+    expect(combineQuantities(['1 bottle', '2 packets'])).toEqual(['1 bottle', '2 packets']);
+    expect(combineQuantities(['2 large', '1 large', '1 bottle'])).toEqual(['3 large', '1 bottle']);
+  });
+
+  it('keeps units it does not know apart, ignoring plurals', () => {
+    expect(combineQuantities(['2 tazas', '3 cucharadas', '1 taza'])).toEqual(['3 tazas', '3 cucharadas']);
+  });
+});
+
+describe('convertQuantity', () => {
+  it('converts imperial units to metric', () => {
+    expect(convertQuantity({ amount: 1, unit: 'cup', note: '' }, 'metric')).toEqual({ amount: 235, unit: 'ml', note: '' });
+    expect(convertQuantity({ amount: 3, unit: 'lb', note: '' }, 'metric')).toEqual({ amount: 1.4, unit: 'kg', note: '' });
+  });
+
+  it('converts metric units to the nearest sensible imperial unit', () => {
+    expect(convertQuantity({ amount: 250, unit: 'g', note: '' }, 'imperial')).toEqual({ amount: 8.75, unit: 'oz', note: '' });
+    expect(convertQuantity({ amount: 30, unit: 'ml', note: '' }, 'imperial')).toEqual({ amount: 2, unit: 'tbsp', note: '' });
+    expect(convertQuantity({ amount: 1, unit: 'l', note: '' }, 'imperial')).toEqual({ amount: 4.25, unit: 'cup', note: '' });
+  });
+
+  it('leaves units shared by both systems alone', () => {
+    const quantity = { amount: 2, unit: 'tbsp', note: '' };
+    expect(convertQuantity(quantity, 'metric')).toBe(quantity);
+  });
+});
+
+describe('adjustQuantity', () => {
+  it('scales amounts and keeps the note', () => {
+    expect(adjustQuantity('1 1/2 cups', 2)).toBe('3 cups');
+    expect(adjustQuantity('3 large', 2 / 3)).toBe('2 large');
+    expect(adjustQuantity('1/4 cup, grated', 2)).toBe('1/2 cup grated');
+  });
+
+  it('scales and converts together', () => {
+    expect(adjustQuantity('1/2 cup', 2, 'metric')).toBe('235 ml');
+  });
+
+  it('returns the original text when nothing changes or there is no amount', () => {
+    expect(adjustQuantity('2 tbsp, melted', 1)).toBe('2 tbsp, melted');
+    expect(adjustQuantity('2 tbsp, melted', 1, 'metric')).toBe('2 tbsp, melted');
+    expect(adjustQuantity('to taste', 3)).toBe('to taste');
+  });
+});
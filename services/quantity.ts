@@ -0,0 +1,194 @@
+import { loadJSON, saveJSON } from './storage';
+
+export interface ParsedQuantity {
+  amount: number;
+  /** Canonical unit, e.g. 'cup', 'tbsp' or 'g'. Empty for plain counts like "3 large". */
+  unit: string;
+  /** Whatever followed the amount and unit, e.g. "large" or "chopped". */
+  note: string;
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+  cup: 'cup', cups: 'cup', c: 'cup',
+  tbsp: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  tsp: 'tsp', tsps: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  clove: 'clove', cloves: 'clove',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece',
+  can: 'can', cans: 'can',
+  slice: 'slice', slices: 'slice',
+  pinch: 'pinch', pinches: 'pinch',
+  bunch: 'bunch', bunches: 'bunch',
+  handful: 'handful', handfuls: 'handful',
+  stalk: 'stalk', stalks: 'stalk',
+  sprig: 'sprig', sprigs: 'sprig',
+};
+
+/** Abbreviated units that are never pluralized. */
+const INVARIANT_UNITS = new Set(['tbsp', 'tsp', 'g', 'kg', 'ml', 'l', 'oz', 'fl oz', 'lb']);
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅛': '1/8',
+};
+
+const NICE_FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'],
+];
+
+const NUMBER = String.raw`\d+\/\d+|\d+(?:\.\d+)?(?:\s+\d+\/\d+)?`;
+const QUANTITY_PATTERN = new RegExp(String.raw`^(${NUMBER})(?:\s*(?:-|to)\s*(${NUMBER}))?\s*(.*)$`, 'i');
+
+const parseAmount = (text: string) =>
+  text.trim().split(/\s+/).reduce((total, part) => {
+    const [numerator, denominator] = part.split('/');
+    return total + (denominator ? Number(numerator) / Number(denominator) : Number(numerator));
+  }, 0);
+
+/** Parses strings like "2 cups", "1 1/2 tbsp", "½ cup, chopped" or "2-3 cloves". Ranges resolve to their upper bound. */
+export const parseQuantity = (text: string): ParsedQuantity | null => {
+  const normalized = text.replace(/(\d)?([½⅓⅔¼¾⅛])/g, (_, whole, fraction) => `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`);
+  const match = normalized.trim().match(QUANTITY_PATTERN);
+  if (!match) return null;
+  const amount = parseAmount(match[2] ?? match[1]);
+  let rest = match[3].trim();
+  let unit = '';
+  if (/^fl\.?\s*oz\b/i.test(rest)) {
+    unit = 'fl oz';
+    rest = rest.replace(/^fl\.?\s*oz\.?/i, '');
+  } else {
+    const word = rest.match(/^([a-z]+)\.?(?![a-z])/i);
+    const alias = word && UNIT_ALIASES[word[1].toLowerCase()];
+    if (alias) {
+      unit = alias;
+      rest = rest.slice(word[0].length);
+    }
+  }
+  return { amount, unit, note: rest.replace(/^[\s,]+/, '').replace(/^of\s+/i, '').trim() };
+};
+
+export const formatAmount = (amount: number) => {
+  const whole = Math.floor(amount);
+  const fraction = amount - whole;
+  if (fraction < 0.02) return String(whole);
+  if (fraction > 0.98) return String(whole + 1);
+  const nice = NICE_FRACTIONS.find(([value]) => Math.abs(value - fraction) < 0.02);
+  if (nice) return whole > 0 ? `${whole} ${nice[1]}` : nice[1];
+  return String(Math.round(amount * 100) / 100);
+};
+
+export const pluralizeUnit = (unit: string, amount: number) => {
+  if (!unit || amount <= 1 || INVARIANT_UNITS.has(unit)) return unit;
+  return /(?:ch|sh|s)$/.test(unit) ? `${unit}es` : `${unit}s`;
+};
+
+export const formatQuantity = ({ amount, unit }: Pick<ParsedQuantity, 'amount' | 'unit'>) =>
+  unit ? `${formatAmount(amount)} ${pluralizeUnit(unit, amount)}` : formatAmount(amount);
+
+/**
+ * The key quantities are summed under. A count's note names what is counted, e.g. "bottle" or
+ * "tazas", so counts only add up when their notes match, ignoring plurals.
+ */
+const groupKey = ({ unit, note }: ParsedQuantity) =>
+  unit || `#${note.toLowerCase().split(/\s+/).map(word => word.replace(/(?:es|s)$/, '')).join(' ')}`;
+
+/**
+ * Sums quantities that share a unit, e.g. ["2 cups", "1 cup", "to taste"] becomes
+ * ["3 cups", "to taste"]. Quantities that appear alone keep their original wording.
+ */
+export const combineQuantities = (quantities: string[]): string[] => {
+  const groups = new Map<string, { total: number; unit: string; note: string; originals: string[] }>();
+  const unparsed: string[] = [];
+  for (const quantity of quantities) {
+    const parsed = parseQuantity(quantity);
+    if (!parsed) {
+      if (!unparsed.includes(quantity.trim())) unparsed.push(quantity.trim());
+      continue;
+    }
+    const key = groupKey(parsed);
+    const group = groups.get(key) ?? { total: 0, unit: parsed.unit, note: '', originals: [] };
+    group.total += parsed.amount;
+    // A count keeps the plural wording of its note when there is one, e.g. "3 tazas" over "1 taza".
+    if (!parsed.unit && (!group.note || parsed.amount > 1)) group.note = parsed.note;
+    group.originals.push(quantity.trim());
+    groups.set(key, group);
+  }
+  const combined = [...groups.values()].map(({ total, unit, note, originals }) => {
+    if (originals.length === 1) return originals[0];
+    const formatted = formatQuantity({ amount: total, unit });
+    return note ? `${formatted} ${note}` : formatted;
+  });
+  return [...combined, ...unparsed];
+};
+
+export type UnitSystem = 'metric' | 'imperial';
+
+const UNIT_SYSTEM_STORAGE_KEY = 'smart-fridge.unit-system';
+
+/** The preferred unit system, or null to show quantities as the recipe wrote them. */
+export const loadUnitSystem = (): UnitSystem | null => loadJSON<UnitSystem | null>(UNIT_SYSTEM_STORAGE_KEY, null);
+
+export const saveUnitSystem = (system: UnitSystem | null) => saveJSON(UNIT_SYSTEM_STORAGE_KEY, system);
+
+/** Units that only belong to one system, with their size in the metric base unit (ml or g). */
+const CONVERSIONS: Record<string, { system: UnitSystem; kind: 'volume' | 'mass'; base: number }> = {
+  ml: { system: 'metric', kind: 'volume', base: 1 },
+  l: { system: 'metric', kind: 'volume', base: 1000 },
+  g: { system: 'metric', kind: 'mass', base: 1 },
+  kg: { system: 'metric', kind: 'mass', base: 1000 },
+  cup: { system: 'imperial', kind: 'volume', base: 236.588 },
+  'fl oz': { system: 'imperial', kind: 'volume', base: 29.5735 },
+  oz: { system: 'imperial', kind: 'mass', base: 28.3495 },
+  lb: { system: 'imperial', kind: 'mass', base: 453.592 },
+};
+
+const roundMetric = (amount: number) => (amount >= 20 ? Math.round(amount / 5) * 5 : Math.round(amount * 10) / 10);
+
+const toMetric = (base: number, kind: 'volume' | 'mass') => {
+  if (base >= 1000) return { amount: Math.round(base / 100) / 10, unit: kind === 'volume' ? 'l' : 'kg' };
+  return { amount: roundMetric(base), unit: kind === 'volume' ? 'ml' : 'g' };
+};
+
+/** Rounds to the nearest quarter, which is as precise as cups and ounces get in a kitchen. */
+const roundImperial = (amount: number) => Math.max(Math.round(amount * 4) / 4, 0.25);
+
+const toImperial = (base: number, kind: 'volume' | 'mass') => {
+  if (kind === 'mass') {
+    return base >= CONVERSIONS.lb.base
+      ? { amount: roundImperial(base / CONVERSIONS.lb.base), unit: 'lb' }
+      : { amount: roundImperial(base / CONVERSIONS.oz.base), unit: 'oz' };
+  }
+  if (base < 15) return { amount: roundImperial(base / 4.929), unit: 'tsp' };
+  if (base < 60) return { amount: roundImperial(base / 14.787), unit: 'tbsp' };
+  return { amount: roundImperial(base / CONVERSIONS.cup.base), unit: 'cup' };
+};
+
+/**
+ * Converts a quantity into the given unit system. Spoons, counts and units like "clove" are
+ * shared by both systems and pass through unchanged.
+ */
+export const convertQuantity = (quantity: ParsedQuantity, system: UnitSystem): ParsedQuantity => {
+  const conversion = CONVERSIONS[quantity.unit];
+  if (!conversion || conversion.system === system) return quantity;
+  const base = quantity.amount * conversion.base;
+  return { ...quantity, ...(system === 'metric' ? toMetric(base, conversion.kind) : toImperial(base, conversion.kind)) };
+};
+
+/**
+ * Rescales a free-form quantity by `factor` and, when a unit system is given, converts it.
+ * Quantities without an amount, like "to taste", are returned as they are.
+ */
+export const adjustQuantity = (text: string, factor: number, system?: UnitSystem) => {
+  const parsed = parseQuantity(text);
+  if (!parsed) return text;
+  if (factor === 1 && !system) return text;
+  const scaled = { ...parsed, amount: parsed.amount * factor };
+  const converted = system ? convertQuantity(scaled, system) : scaled;
+  if (factor === 1 && converted === scaled) return text;
+  const formatted = formatQuantity(converted);
+  return converted.note ? `${formatted} ${converted.note}` : formatted;
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Allergen, DietaryRestriction, Equipment, ExclusionProfile, IngredientCategory, InventoryItem } from '../types';
+import { CacheMeta, imageCacheKey, recipesCacheKey, selectEvictions } from './recipeCache';
+import { dataURLToBlob, readFileAsDataURL } from './fileUtils';
+
+const item = (name: string, quantity = 1): InventoryItem => ({ name, quantity, unit: 'pieces', category: IngredientCategory.Produce, confidence: 1 });
+
+const profile = (overrides: Partial<ExclusionProfile>): ExclusionProfile =>
+  ({ id: '1', name: 'Kim', allergens: [], avoidIngredients: [], strict: true, enabled: true, ...overrides });
+
+const meta = (key: string, size: number, lastUsed: number): CacheMeta => ({ key, size, lastUsed, createdAt: 0 });
+
+describe('recipesCacheKey', () => {
+  it('ignores ingredient order, case, plurals and quantities, and filter order', () => {
+    expect(recipesCacheKey('gemini', [item('Eggs', 6), item('spinach')], [DietaryRestriction.Vegan, DietaryRestriction.Keto], []))
+      .toBe(recipesCacheKey('gemini', [item('spinach', 2), item('egg')], [DietaryRestriction.Keto, DietaryRestriction.Vegan], []));
+  });
+
+  it('differs by provider, ingredients, filters and active exclusions', () => {
+    const base = recipesCacheKey('gemini', [item('eggs')], [], []);
+    expect(recipesCacheKey('mock', [item('eggs')], [], [])).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs'), item('milk')], [], [])).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [DietaryRestriction.Vegan], [])).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [profile({ allergens: [Allergen.Dairy] })])).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [profile({ allergens: [Allergen.Dairy], enabled: false })])).toBe(base);
+  });
+
+  it('differs by the sidebar constraints', () => {
+    const constraints = { cuisine: 'Italian', equipment: [Equipment.Oven, Equipment.Stovetop], onePan: false, recipeCount: 5 };
+    const base = recipesCacheKey('gemini', [item('eggs')], [], [], 'en', undefined, constraints);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', undefined, { ...constraints, cuisine: 'italian', equipment: [Equipment.Stovetop, Equipment.Oven] })).toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', undefined, { ...constraints, maxPrepMinutes: 20 })).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', undefined, { ...constraints, recipeCount: 8 })).not.toBe(base);
+  });
+
+  it('differs when the cooking history changes what to suggest', () => {
+    const preferences = { favoriteCuisines: ['italian'], dislikedIngredients: [], recentDishes: ['Risotto'] };
+    const base = recipesCacheKey('gemini', [item('eggs')], [], [], 'en', preferences);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', { ...preferences, recentDishes: ['risotto'] })).toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', { ...preferences, recentDishes: ['Risotto', 'Paella'] })).not.toBe(base);
+    expect(recipesCacheKey('gemini', [item('eggs')], [], [], 'en', { ...preferences, prepTimeBudget: 30 })).not.toBe(base);
+  });
+
+  it('tells strict exclusions from dislikes', () => {
+    expect(recipesCacheKey('gemini', [], [], [profile({ avoidIngredients: ['cilantro'] })]))
+      .not.toBe(recipesCacheKey('gemini', [], [], [profile({ avoidIngredients: ['cilantro'], strict: false })]));
+  });
+});
+
+describe('imageCacheKey', () => {
+  it('normalizes the recipe name', () => {
+    expect(imageCacheKey('gemini', ' Spinach  Omelette')).toBe(imageCacheKey('gemini', 'spinach omelette'));
+  });
+});
+
+describe('selectEvictions', () => {
+  it('evicts the least recently used entries beyond the entry limit', () => {
+    const entries = [meta('a', 1, 3), meta('b', 1, 1), meta('c', 1, 2)];
+    expect(selectEvictions(entries, { maxEntries: 2, maxBytes: 100 })).toEqual(['b']);
+  });
+
+  it('evicts the least recently used entries beyond the size limit', () => {
+    const entries = [meta('old', 40, 1), meta('new', 50, 3), meta('mid', 30, 2)];
+    expect(selectEvictions(entries, { maxEntries: 10, maxBytes: 100 })).toEqual(['old']);
+    expect(selectEvictions(entries, { maxEntries: 10, maxBytes: 60 })).toEqual(['mid', 'old']);
+  });
+});
+
+describe('dataURLToBlob', () => {
+  it('decodes base64 data URLs to bytes', async () => {
+    const blob = dataURLToBlob(`data:image/png;base64,${btoa('abc')}`);
+    expect(blob.type).toBe('image/png');
+    expect(await readFileAsDataURL(blob)).toBe(`data:image/png;base64,${btoa('abc')}`);
+  });
+
+  it('decodes URL-encoded data URLs', () => {
+    const blob = dataURLToBlob(`data:image/svg+xml;charset=utf-8,${encodeURIComponent('<svg/>')}`);
+    expect(blob.size).toBe(6);
+    expect(blob.type).toContain('image/svg+xml');
+  });
+});
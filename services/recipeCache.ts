@@ -0,0 +1,150 @@
+import { CookingPreferences, DietaryRestriction, ExclusionProfile, InventoryItem, Locale, Recipe, RecipeConstraints } from '../types';
+import { itemKey, normalizeItemName } from './pantryService';
+import { activeProfiles } from './exclusions';
+import { dataURLToBlob, readFileAsDataURL } from './fileUtils';
+import { openDatabase, requestResult, transactionDone } from './indexedDb';
+
+const DB_NAME = 'smart-fridge-cache';
+const DB_VERSION = 1;
+// Entry metadata lives apart from the values so that eviction can scan it without loading any images.
+const META_STORE = 'meta';
+const VALUE_STORE = 'values';
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export const CACHE_LIMITS: CacheLimits = { maxEntries: 300, maxBytes: 50 * 1024 * 1024 };
+
+export interface CacheMeta {
+  key: string;
+  /** Approximate size of the stored value in bytes. */
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB isn't available, which turns the cache into a no-op.
+const openCache = () => {
+  databasePromise ??= openDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+    db.createObjectStore(VALUE_STORE);
+  });
+  return databasePromise;
+};
+
+/** Keys to evict so that the most recently used entries fit within the limits. */
+export const selectEvictions = (entries: CacheMeta[], limits: CacheLimits = CACHE_LIMITS): string[] => {
+  let count = 0;
+  let bytes = 0;
+  return [...entries]
+    .sort((a, b) => b.lastUsed - a.lastUsed)
+    .filter(entry => {
+      count++;
+      bytes += entry.size;
+      return count > limits.maxEntries || bytes > limits.maxBytes;
+    })
+    .map(entry => entry.key);
+};
+
+/** Reads a cached value and marks it as used. Failures are treated as a miss. */
+const readCache = async <T>(key: string): Promise<{ value: T; createdAt: number } | null> => {
+  try {
+    const db = await openCache();
+    if (!db) return null;
+    const transaction = db.transaction([META_STORE, VALUE_STORE], 'readwrite');
+    const meta = await requestResult<CacheMeta | undefined>(transaction.objectStore(META_STORE).get(key));
+    if (!meta) return null;
+    const value = await requestResult<T | undefined>(transaction.objectStore(VALUE_STORE).get(key));
+    if (value === undefined) return null;
+    transaction.objectStore(META_STORE).put({ ...meta, lastUsed: Date.now() });
+    await transactionDone(transaction);
+    return { value, createdAt: meta.createdAt };
+  } catch (error) {
+    console.warn(`Could not read "${key}" from the response cache:`, error);
+    return null;
+  }
+};
+
+/** Stores a value, then evicts the least recently used entries beyond the limits. Failures are only logged. */
+const writeCache = async (key: string, value: unknown, size: number) => {
+  try {
+    const db = await openCache();
+    if (!db) return;
+    const now = Date.now();
+    const transaction = db.transaction([META_STORE, VALUE_STORE], 'readwrite');
+    const metaStore = transaction.objectStore(META_STORE);
+    const valueStore = transaction.objectStore(VALUE_STORE);
+    metaStore.put({ key, size, createdAt: now, lastUsed: now } satisfies CacheMeta);
+    valueStore.put(value, key);
+    const entries = await requestResult<CacheMeta[]>(metaStore.getAll());
+    for (const evicted of selectEvictions(entries)) {
+      metaStore.delete(evicted);
+      valueStore.delete(evicted);
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Could not write "${key}" to the response cache:`, error);
+  }
+};
+
+const sorted = (values: string[]) => [...new Set(values)].sort();
+
+/**
+ * Identifies a recipe request by what shapes the answer: the provider, the language, the set of
+ * ingredient names (ignoring order, case, plurals and quantities), the dietary filters and sidebar
+ * constraints, the active exclusions and the preferences learned from the cooking history. Cooking something
+ * therefore leads to fresh suggestions instead of ones that may repeat it.
+ */
+export const recipesCacheKey = (provider: string, ingredients: InventoryItem[], filters: DietaryRestriction[], exclusions: ExclusionProfile[], locale: Locale = 'en', preferences?: CookingPreferences, constraints?: RecipeConstraints) => {
+  const profiles = activeProfiles(exclusions);
+  return `recipes:${provider}:${locale}:${JSON.stringify({
+    ingredients: sorted(ingredients.map(item => itemKey(item.name))),
+    filters: sorted(filters),
+    allergens: sorted(profiles.flatMap(profile => profile.allergens)),
+    forbidden: sorted(profiles.filter(profile => profile.strict).flatMap(profile => profile.avoidIngredients.map(itemKey))),
+    disliked: sorted(profiles.filter(profile => !profile.strict).flatMap(profile => profile.avoidIngredients.map(itemKey))),
+    ...(constraints ? {
+      constraints: {
+        cuisine: normalizeItemName(constraints.cuisine),
+        maxPrepMinutes: constraints.maxPrepMinutes ?? null,
+        maxDifficulty: constraints.maxDifficulty ?? null,
+        equipment: sorted(constraints.equipment),
+        onePan: constraints.onePan,
+        recipeCount: constraints.recipeCount,
+      },
+    } : {}),
+    ...(preferences ? {
+      preferences: {
+        cuisines: sorted(preferences.favoriteCuisines),
+        dislikedIngredients: sorted(preferences.dislikedIngredients.map(itemKey)),
+        prepTimeBudget: preferences.prepTimeBudget ?? null,
+        recentDishes: sorted(preferences.recentDishes.map(name => name.toLowerCase())),
+      },
+    } : {}),
+  })}`;
+};
+
+export const imageCacheKey = (provider: string, recipeName: string) => `image:${provider}:${normalizeItemName(recipeName)}`;
+
+export const getCachedRecipes = (key: string) => readCache<Recipe[]>(key);
+
+export const cacheRecipes = (key: string, recipes: Recipe[]) => {
+  // Strings take two bytes per character in memory, which is close enough for the limits.
+  return writeCache(key, recipes, JSON.stringify(recipes).length * 2);
+};
+
+/** Images are kept as blobs, a quarter smaller than their base64 text, and handed back as data URLs. */
+export const getCachedImage = async (key: string): Promise<string | null> => {
+  const cached = await readCache<Blob>(key);
+  return cached && readFileAsDataURL(cached.value);
+};
+
+export const cacheImage = async (key: string, dataUrl: string) => {
+  if (!dataUrl.startsWith('data:')) return;
+  const blob = dataURLToBlob(dataUrl);
+  await writeCache(key, blob, blob.size);
+};
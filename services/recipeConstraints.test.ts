@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { Equipment } from '../types';
+import { DEFAULT_RECIPE_CONSTRAINTS, describeConstraintViolation, enforceConstraints, findConstraintViolations, sameConstraints } from './recipeConstraints';
+import { createTranslator } from './i18n';
+import { validateRecipe } from './recipeValidation';
+import { makeRecipe } from './testFixtures';
+
+describe('findConstraintViolations', () => {
+  const constraints = { ...DEFAULT_RECIPE_CONSTRAINTS, maxPrepMinutes: 30, maxDifficulty: 'Medium' as const };
+
+  it('reports recipes that take too long or are too hard', () => {
+    expect(findConstraintViolations(makeRecipe({ name: 'Roast', prepTimeMinutes: 90, difficulty: 'Hard' }), constraints)).toEqual([
+      { kind: 'prepTime', minutes: 90, limit: 30 },
+      { kind: 'difficulty', difficulty: 'Hard', limit: 'Medium' },
+    ]);
+  });
+
+  it('accepts recipes at the limits and prep times that could not be read', () => {
+    expect(findConstraintViolations(makeRecipe({ name: 'Stew', prepTimeMinutes: 30, difficulty: 'Medium' }), constraints)).toEqual([]);
+    expect(findConstraintViolations(makeRecipe({ name: 'Salad', prepTime: 'quick', prepTimeMinutes: undefined }), constraints)).toEqual([]);
+  });
+
+  it('reads prep times written in Spanish and German', () => {
+    const limit = { ...DEFAULT_RECIPE_CONSTRAINTS, maxPrepMinutes: 20 };
+    const written = (prepTime: string) => validateRecipe({ ...makeRecipe({ name: 'Guiso' }), prepTime, prepTimeMinutes: undefined }).recipe!;
+    expect(findConstraintViolations(written('45 minutos'), limit)).toEqual([{ kind: 'prepTime', minutes: 45, limit: 20 }]);
+    expect(findConstraintViolations(written('1 Stunde'), limit)).toEqual([{ kind: 'prepTime', minutes: 60, limit: 20 }]);
+  });
+
+  it('has nothing to check without limits', () => {
+    expect(findConstraintViolations(makeRecipe({ name: 'Roast', prepTimeMinutes: 90, difficulty: 'Hard' }), DEFAULT_RECIPE_CONSTRAINTS)).toEqual([]);
+  });
+});
+
+describe('enforceConstraints', () => {
+  it('splits the recipes by whether they keep to the limits', () => {
+    const { allowed, rejected } = enforceConstraints([makeRecipe({ name: 'Omelette' }), makeRecipe({ name: 'Roast', prepTimeMinutes: 90 })], { ...DEFAULT_RECIPE_CONSTRAINTS, maxPrepMinutes: 20 });
+    expect(allowed.map(recipe => recipe.name)).toEqual(['Omelette']);
+    expect(rejected.map(({ recipe }) => recipe.name)).toEqual(['Roast']);
+  });
+});
+
+describe('describeConstraintViolation', () => {
+  it('describes the violation in the given language', () => {
+    expect(describeConstraintViolation({ kind: 'prepTime', minutes: 45, limit: 20 }, createTranslator('en'))).toBe('Takes 45 min, over your 20 min limit');
+    expect(describeConstraintViolation({ kind: 'difficulty', difficulty: 'Hard', limit: 'Easy' }, createTranslator('de'))).toBe('Schwer, schwieriger als gewünscht');
+  });
+});
+
+describe('sameConstraints', () => {
+  it('ignores the order of the equipment and the case of the cuisine', () => {
+    const a = { ...DEFAULT_RECIPE_CONSTRAINTS, cuisine: 'Italian', equipment: [Equipment.Oven, Equipment.Stovetop] };
+    expect(sameConstraints(a, { ...a, cuisine: ' italian', equipment: [Equipment.Stovetop, Equipment.Oven] })).toBe(true);
+    expect(sameConstraints(a, { ...a, equipment: [Equipment.Stovetop] })).toBe(false);
+    expect(sameConstraints(a, { ...a, recipeCount: 3 })).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { Difficulty, Equipment, Recipe, RecipeConstraints } from '../types';
+import { normalizeItemName } from './pantryService';
+import { Translate } from './i18n';
+
+export const ALL_EQUIPMENT = Object.values(Equipment);
+
+export const RECIPE_COUNT_OPTIONS = [3, 5, 8, 10];
+
+export const MAX_PREP_TIME_OPTIONS = [15, 20, 30, 45, 60];
+
+export const CUISINE_SUGGESTIONS = ['American', 'Chinese', 'French', 'Greek', 'Indian', 'Italian', 'Japanese', 'Korean', 'Mediterranean', 'Mexican', 'Middle Eastern', 'Thai'];
+
+export const DEFAULT_RECIPE_CONSTRAINTS: RecipeConstraints = { cuisine: '', equipment: ALL_EQUIPMENT, onePan: false, recipeCount: 5 };
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = { Easy: 0, Medium: 1, Hard: 2 };
+
+export type ConstraintViolation =
+  | { kind: 'prepTime'; minutes: number; limit: number }
+  | { kind: 'difficulty'; difficulty: Difficulty; limit: Difficulty };
+
+export const sameConstraints = (a: RecipeConstraints, b: RecipeConstraints) =>
+  normalizeItemName(a.cuisine) === normalizeItemName(b.cuisine)
+  && a.maxPrepMinutes === b.maxPrepMinutes
+  && a.maxDifficulty === b.maxDifficulty
+  && a.onePan === b.onePan
+  && a.recipeCount === b.recipeCount
+  && a.equipment.length === b.equipment.length
+  && a.equipment.every(item => b.equipment.includes(item));
+
+/**
+ * The limits a recipe breaks, judged by its prep time and difficulty. A prep time that couldn't be
+ * parsed gets the benefit of the doubt.
+ */
+export const findConstraintViolations = (recipe: Recipe, { maxPrepMinutes, maxDifficulty }: RecipeConstraints): ConstraintViolation[] => {
+  const violations: ConstraintViolation[] = [];
+  if (maxPrepMinutes !== undefined && recipe.prepTimeMinutes !== undefined && recipe.prepTimeMinutes > maxPrepMinutes) {
+    violations.push({ kind: 'prepTime', minutes: recipe.prepTimeMinutes, limit: maxPrepMinutes });
+  }
+  if (maxDifficulty && DIFFICULTY_RANK[recipe.difficulty] > DIFFICULTY_RANK[maxDifficulty]) {
+    violations.push({ kind: 'difficulty', difficulty: recipe.difficulty, limit: maxDifficulty });
+  }
+  return violations;
+};
+
+/** Splits recipes into those within the limits and those that break them, along with how. */
+export const enforceConstraints = (recipes: Recipe[], constraints: RecipeConstraints) => {
+  const allowed: Recipe[] = [];
+  const rejected: { recipe: Recipe; violations: ConstraintViolation[] }[] = [];
+  for (const recipe of recipes) {
+    const violations = findConstraintViolations(recipe, constraints);
+    if (violations.length > 0) rejected.push({ recipe, violations });
+    else allowed.push(recipe);
+  }
+  return { allowed, rejected };
+};
+
+export const describeConstraintViolation = (violation: ConstraintViolation, t: Translate) =>
+  violation.kind === 'prepTime'
+    ? t('card.tooLong', { minutes: violation.minutes, limit: violation.limit })
+    : t('card.tooHard', { difficulty: t(`difficulty.${violation.difficulty}`) });
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { Recipe } from '../types';
+import {
+  exportFileName, parseIngredientLine, parseIsoDuration, parseRecipesJsonLd, recipesToJsonLd, recipesToMarkdown, recipesToPrintHtml, toIsoDuration,
+} from './recipeFormats';
+import { createTranslator } from './i18n';
+
+const recipe: Recipe = {
+  name: 'Chicken Stir Fry',
+  difficulty: 'Medium',
+  prepTime: '1 hour 15 minutes',
+  prepTimeMinutes: 75,
+  cuisine: 'Chinese',
+  servings: 2,
+  calories: 450,
+  nutrition: { protein: 32.5, carbs: 20, fat: 14, fiber: 4, sugar: 6, sodium: 820 },
+  ingredients: [
+    { name: 'Chicken Breast', quantity: '2 pieces' },
+    { name: 'Soy Sauce', quantity: '2 tbsp' },
+    { name: 'Salt', quantity: 'to taste' },
+    { name: 'Sesame seeds', quantity: 'as needed' },
+  ],
+  instructions: ['Slice everything.', 'Stir fry for 10 minutes.'],
+};
+
+describe('ISO durations', () => {
+  it('round-trips minutes', () => {
+    expect(toIsoDuration(75)).toBe('PT1H15M');
+    expect(toIsoDuration(120)).toBe('PT2H');
+    expect(toIsoDuration(20)).toBe('PT20M');
+    expect(parseIsoDuration('PT1H15M')).toBe(75);
+    expect(parseIsoDuration('P0DT45M')).toBe(45);
+    expect(parseIsoDuration('PT0S')).toBeUndefined();
+    expect(parseIsoDuration('45 minutes')).toBeUndefined();
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it('splits the amount from the name', () => {
+    expect(parseIngredientLine('2 cups of flour')).toEqual({ name: 'flour', quantity: '2 cups' });
+    expect(parseIngredientLine('1 ½ tbsp olive oil')).toEqual({ name: 'olive oil', quantity: '1 ½ tbsp' });
+    expect(parseIngredientLine('3 eggs')).toEqual({ name: 'eggs', quantity: '3' });
+  });
+
+  it('reads a trailing quantity in parentheses and treats bare names as as needed', () => {
+    expect(parseIngredientLine('salt (to taste)')).toEqual({ name: 'salt', quantity: 'to taste' });
+    expect(parseIngredientLine('Fresh basil')).toEqual({ name: 'Fresh basil', quantity: 'as needed' });
+  });
+});
+
+describe('recipesToJsonLd', () => {
+  it('writes a schema.org Recipe', () => {
+    const document = JSON.parse(recipesToJsonLd([recipe]));
+    expect(document).toMatchObject({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Chicken Stir Fry',
+      totalTime: 'PT1H15M',
+      recipeYield: '2 servings',
+      recipeCuisine: 'Chinese',
+      keywords: 'medium',
+      nutrition: { '@type': 'NutritionInformation', calories: '450 calories', proteinContent: '32.5 g', sodiumContent: '820 mg' },
+      recipeIngredient: ['2 pieces Chicken Breast', '2 tbsp Soy Sauce', 'Salt (to taste)', 'Sesame seeds'],
+      recipeInstructions: [{ '@type': 'HowToStep', text: 'Slice everything.' }, { '@type': 'HowToStep', text: 'Stir fry for 10 minutes.' }],
+    });
+  });
+
+  it('puts several recipes in a graph', () => {
+    const document = JSON.parse(recipesToJsonLd([recipe, { ...recipe, name: 'Beef Stir Fry' }]));
+    expect(document['@graph'].map((node: { name: string }) => node.name)).toEqual(['Chicken Stir Fry', 'Beef Stir Fry']);
+  });
+
+  it('reads back what it wrote', () => {
+    const { recipes, issues } = parseRecipesJsonLd(recipesToJsonLd([recipe]));
+    expect(issues).toEqual([]);
+    expect(recipes).toEqual([{ ...recipe, prepTime: '75 minutes', imageUrl: undefined }]);
+  });
+});
+
+describe('parseRecipesJsonLd', () => {
+  it('finds recipes in graphs and web pages and reads the common shapes of each property', () => {
+    const page = {
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebSite', name: 'Some blog' },
+        {
+          '@type': 'WebPage',
+          mainEntity: {
+            '@type': ['Recipe'],
+            name: 'Banana Bread',
+            image: [{ '@type': 'ImageObject', url: 'https://example.com/bread.jpg' }],
+            prepTime: 'PT15M',
+            cookTime: 'PT1H',
+            recipeYield: ['8', '1 loaf'],
+            nutrition: { calories: '240 kcal' },
+            recipeIngredient: ['3 ripe bananas', '250 g flour'],
+            recipeInstructions: [
+              { '@type': 'HowToSection', name: 'Batter', itemListElement: [{ '@type': 'HowToStep', text: 'Mash the bananas.' }, 'Fold in the flour.'] },
+              { '@type': 'HowToStep', text: 'Bake.' },
+            ],
+          },
+        },
+      ],
+    };
+    const { recipes, issues } = parseRecipesJsonLd(JSON.stringify(page));
+    expect(issues).toEqual([]);
+    expect(recipes).toEqual([{
+      name: 'Banana Bread',
+      difficulty: 'Hard',
+      prepTime: '75 minutes',
+      prepTimeMinutes: 75,
+      servings: 8,
+      calories: 240,
+      nutrition: undefined,
+      ingredients: [{ name: 'ripe bananas', quantity: '3' }, { name: 'flour', quantity: '250 g' }],
+      instructions: ['Mash the bananas.', 'Fold in the flour.', 'Bake.'],
+      imageUrl: 'https://example.com/bread.jpg',
+    }]);
+  });
+
+  it('splits instructions given as one block of text', () => {
+    const { recipes } = parseRecipesJsonLd(JSON.stringify({ '@type': 'Recipe', name: 'Toast', recipeIngredient: ['bread'], recipeInstructions: 'Toast the bread.\nButter it.' }));
+    expect(recipes[0]).toMatchObject({ difficulty: 'Medium', prepTime: 'Not specified', instructions: ['Toast the bread.', 'Butter it.'] });
+  });
+
+  it('skips unusable recipes and explains what was wrong with the file', () => {
+    expect(parseRecipesJsonLd(JSON.stringify({ '@type': 'Recipe', name: 'Empty' }))).toMatchObject({ recipes: [], issues: ['"Empty" has no ingredients', '"Empty" has no instructions'] });
+    expect(parseRecipesJsonLd('{"@type": "Person"}').issues).toEqual(['the file contains no schema.org recipes']);
+    expect(parseRecipesJsonLd('not json').issues).toEqual(['the file is not valid JSON']);
+  });
+});
+
+describe('recipesToMarkdown', () => {
+  it('writes a section per recipe', () => {
+    const markdown = recipesToMarkdown([recipe, { ...recipe, name: 'Beef Stir Fry', nutrition: undefined }]);
+    expect(markdown).toContain('# Chicken Stir Fry\n\n**Difficulty:** Medium · **Time:** 1 hour 15 minutes · **Servings:** 2 · **Calories:** 450 per serving');
+    expect(markdown).toContain('Protein 33 g');
+    expect(markdown).toContain('## Ingredients\n- Chicken Breast (2 pieces)\n- Soy Sauce (2 tbsp)');
+    expect(markdown).toContain('## Instructions\n1. Slice everything.\n2. Stir fry for 10 minutes.');
+    expect(markdown).toContain('\n\n---\n\n# Beef Stir Fry');
+  });
+
+  it('writes the headings in the given language', () => {
+    const markdown = recipesToMarkdown([recipe], createTranslator('es'));
+    expect(markdown).toContain('**Dificultad:** Media · **Tiempo:** 1 hour 15 minutes · **Raciones:** 2 · **Calorías:** 450 por ración');
+    expect(markdown).toContain('Proteínas 33 g');
+    expect(markdown).toContain('## Ingredientes\n- Chicken Breast (2 pieces)');
+    expect(markdown).toContain('## Preparación\n1. Slice everything.');
+  });
+});
+
+describe('recipesToPrintHtml', () => {
+  it('escapes the recipe text', () => {
+    const html = recipesToPrintHtml([{ ...recipe, name: 'Mac & <Cheese>' }]);
+    expect(html).toContain('<title>Mac &amp; &lt;Cheese&gt;</title>');
+    expect(html).toContain('<li>2 pieces Chicken Breast</li>');
+  });
+
+  it('writes the headings in the given language', () => {
+    const html = recipesToPrintHtml([recipe, { ...recipe, servings: 1 }], createTranslator('de'));
+    expect(html).toContain('<title>Rezepte</title>');
+    expect(html).toContain('Mittel · 1 hour 15 minutes · 2 Portionen · 450 kcal pro Portion');
+    expect(html).toContain('1 Portion · 450 kcal pro Portion');
+    expect(html).toContain('<h2>Zutaten</h2>');
+  });
+});
+
+describe('exportFileName', () => {
+  it('names single recipes after themselves', () => {
+    expect(exportFileName([recipe], 'md')).toBe('chicken-stir-fry.md');
+    expect(exportFileName([recipe, recipe], 'jsonld')).toBe('recipes.jsonld');
+  });
+});
@@ -0,0 +1,227 @@
+import { Difficulty, Recipe, RecipeIngredient } from '../types';
+import { NUTRIENTS, formatNutrient } from './nutrition';
+import { DEFAULT_LOCALE, Translate, createTranslator } from './i18n';
+import { parseQuantity } from './quantity';
+import { normalizeDifficulty, validateRecipe } from './recipeValidation';
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+// schema.org names for the nutrition facts; all but sodium are in grams.
+const NUTRITION_PROPERTIES = {
+  protein: 'proteinContent',
+  carbs: 'carbohydrateContent',
+  fat: 'fatContent',
+  fiber: 'fiberContent',
+  sugar: 'sugarContent',
+  sodium: 'sodiumContent',
+} as const;
+
+/** Minutes as an ISO 8601 duration, e.g. 75 becomes "PT1H15M". */
+export const toIsoDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+};
+
+/** Parses ISO 8601 durations such as "PT1H15M" or "P0DT45M" into minutes. */
+export const parseIsoDuration = (text: unknown): number | undefined => {
+  const match = typeof text === 'string' ? /^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:\d+(?:\.\d+)?S)?)?$/i.exec(text.trim()) : null;
+  if (!match) return undefined;
+  const minutes = Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return minutes > 0 ? Math.round(minutes) : undefined;
+};
+
+/** "2 cups flour" when the quantity is an amount, and "salt (to taste)" otherwise. */
+const ingredientLine = ({ name, quantity }: RecipeIngredient) => {
+  if (!quantity || quantity === 'as needed') return name;
+  return parseQuantity(quantity) ? `${quantity} ${name}` : `${name} (${quantity})`;
+};
+
+/** Splits an ingredient line back into its name and quantity; lines without an amount are "as needed". */
+export const parseIngredientLine = (line: string): RecipeIngredient => {
+  const text = line.trim().replace(/\s+/g, ' ');
+  const trailing = /^(.+?)\s*\(([^)]+)\)$/.exec(text);
+  if (trailing && !parseQuantity(text)) return { name: trailing[1], quantity: trailing[2] };
+  const parsed = parseQuantity(text);
+  if (!parsed?.note) return { name: text, quantity: 'as needed' };
+  const quantity = text.slice(0, text.lastIndexOf(parsed.note)).replace(/[\s,]+$/, '').replace(/\s+of$/i, '');
+  return { name: parsed.note, quantity };
+};
+
+/** A schema.org `Recipe` object for the recipe, without the `@context`. */
+const toSchemaRecipe = (recipe: Recipe) => ({
+  '@type': 'Recipe',
+  name: recipe.name,
+  ...(recipe.imageUrl ? { image: recipe.imageUrl } : {}),
+  ...(recipe.prepTimeMinutes ? { totalTime: toIsoDuration(recipe.prepTimeMinutes) } : {}),
+  ...(recipe.servings ? { recipeYield: `${recipe.servings} servings` } : {}),
+  ...(recipe.cuisine ? { recipeCuisine: recipe.cuisine } : {}),
+  // schema.org has no difficulty property, so it travels as a keyword.
+  keywords: recipe.difficulty.toLowerCase(),
+  nutrition: {
+    '@type': 'NutritionInformation',
+    calories: `${recipe.calories} calories`,
+    ...(recipe.nutrition
+      ? Object.fromEntries(NUTRIENTS.map(({ key, unit }) => [NUTRITION_PROPERTIES[key], `${recipe.nutrition![key]} ${unit}`]))
+      : {}),
+  },
+  recipeIngredient: recipe.ingredients.map(ingredientLine),
+  recipeInstructions: recipe.instructions.map(text => ({ '@type': 'HowToStep', text })),
+});
+
+/** Serializes one recipe as a schema.org `Recipe`, or several as a `@graph` of them. */
+export const recipesToJsonLd = (recipes: Recipe[]) =>
+  JSON.stringify(
+    recipes.length === 1
+      ? { '@context': SCHEMA_CONTEXT, ...toSchemaRecipe(recipes[0]) }
+      : { '@context': SCHEMA_CONTEXT, '@graph': recipes.map(toSchemaRecipe) },
+    null,
+    2,
+  );
+
+const recipeToMarkdown = (recipe: Recipe, t: Translate) => [
+  `# ${recipe.name}`,
+  [
+    `**${t('export.difficulty')}:** ${t(`difficulty.${recipe.difficulty}`)}`,
+    `**${t('export.time')}:** ${recipe.prepTime}`,
+    ...(recipe.servings ? [`**${t('recipe.servings')}:** ${recipe.servings}`] : []),
+    `**${t('nutrient.calories')}:** ${t('export.perServing', { calories: recipe.calories })}`,
+  ].join(' · '),
+  ...(recipe.nutrition ? [NUTRIENTS.map(({ key }) => `${t(`nutrient.${key}`)} ${formatNutrient(recipe.nutrition!, key)}`).join(' · ')] : []),
+  [`## ${t('recipe.ingredients')}`, ...recipe.ingredients.map(ing => `- ${ing.name} (${ing.quantity})`)].join('\n'),
+  [`## ${t('recipe.instructions')}`, ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`)].join('\n'),
+].join('\n\n');
+
+export const recipesToMarkdown = (recipes: Recipe[], t: Translate = createTranslator(DEFAULT_LOCALE)) =>
+  recipes.map(recipe => recipeToMarkdown(recipe, t)).join('\n\n---\n\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; margin: 0; }
+  article { padding: 1.5rem 0; page-break-after: always; }
+  article:last-child { page-break-after: auto; }
+  h1 { font-size: 1.8rem; margin: 0 0 0.5rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #999; padding-bottom: 0.2rem; }
+  .meta { color: #444; margin: 0 0 1rem; }
+  .columns { display: grid; grid-template-columns: 1fr 2fr; gap: 2rem; }
+  img { max-width: 14rem; max-height: 10rem; object-fit: cover; float: right; margin: 0 0 1rem 1rem; }
+  li { margin-bottom: 0.4rem; line-height: 1.4; }
+  @page { margin: 1.5cm; }
+`;
+
+const servingsText = (servings: number, t: Translate) => (servings === 1 ? t('export.serving') : t('export.servings', { servings }));
+
+const recipeToPrintHtml = (recipe: Recipe, t: Translate) => `<article>
+  ${recipe.imageUrl ? `<img src="${escapeHtml(recipe.imageUrl)}" alt="">` : ''}
+  <h1>${escapeHtml(recipe.name)}</h1>
+  <p class="meta">${[
+    t(`difficulty.${recipe.difficulty}`),
+    recipe.prepTime,
+    ...(recipe.servings ? [servingsText(recipe.servings, t)] : []),
+    t('export.kcalPerServing', { calories: recipe.calories }),
+  ].map(escapeHtml).join(' · ')}</p>
+  <div class="columns">
+    <section><h2>${escapeHtml(t('recipe.ingredients'))}</h2><ul>${recipe.ingredients.map(ing => `<li>${escapeHtml(ingredientLine(ing))}</li>`).join('')}</ul></section>
+    <section><h2>${escapeHtml(t('recipe.instructions'))}</h2><ol>${recipe.instructions.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol></section>
+  </div>
+</article>`;
+
+/** A standalone page laid out for paper: one recipe per page, no app chrome. */
+export const recipesToPrintHtml = (recipes: Recipe[], t: Translate = createTranslator(DEFAULT_LOCALE)) => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(recipes.length === 1 ? recipes[0].name : t('export.recipes'))}</title><style>${PRINT_STYLES}</style></head>
+<body>${recipes.map(recipe => recipeToPrintHtml(recipe, t)).join('\n')}</body></html>`;
+
+/** A file name for an export of these recipes, e.g. "chicken-stir-fry.md". */
+export const exportFileName = (recipes: Recipe[], extension: string) => {
+  const slug = recipes.length === 1 ? recipes[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') : '';
+  return `${slug || 'recipes'}.${extension}`;
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasType = (node: JsonObject, type: string) =>
+  [node['@type']].flat().some(value => typeof value === 'string' && value.replace(/^.*[/:]/, '') === type);
+
+/** Every `Recipe` node in a JSON-LD document, whether top level, in an array, in a `@graph` or as a page's main entity. */
+const findRecipeNodes = (value: unknown): JsonObject[] => {
+  if (Array.isArray(value)) return value.flatMap(findRecipeNodes);
+  if (!isObject(value)) return [];
+  if (hasType(value, 'Recipe')) return [value];
+  return [value['@graph'], value.mainEntity, value.itemListElement, value.item].flatMap(findRecipeNodes);
+};
+
+const textOf = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return textOf(value[0]);
+  if (isObject(value)) return textOf(value.text ?? value.name ?? value.url);
+  return '';
+};
+
+/** Instructions come as one string, a list of strings, `HowToStep`s or `HowToSection`s of steps. */
+const instructionSteps = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/\n+/).map(step => step.trim()).filter(Boolean);
+  if (Array.isArray(value)) return value.flatMap(instructionSteps);
+  if (!isObject(value)) return [];
+  if (hasType(value, 'HowToSection')) return instructionSteps(value.itemListElement);
+  return [textOf(value)].filter(Boolean);
+};
+
+const DIFFICULTY_BY_MINUTES: [number, Difficulty][] = [[30, 'Easy'], [60, 'Medium']];
+
+/** The difficulty from the keywords, or else a guess from how long the recipe takes. */
+const inferDifficulty = (keywords: unknown, minutes: number | undefined): Difficulty => {
+  const words = (Array.isArray(keywords) ? keywords : textOf(keywords).split(',')).map(textOf);
+  const stated = words.map(normalizeDifficulty).find(Boolean);
+  if (stated) return stated;
+  if (minutes === undefined) return 'Medium';
+  return DIFFICULTY_BY_MINUTES.find(([limit]) => minutes <= limit)?.[1] ?? 'Hard';
+};
+
+const imageUrl = (value: unknown) => {
+  const url = textOf(value);
+  return /^(?:https?:|data:image\/)/.test(url) ? url : undefined;
+};
+
+const fromSchemaRecipe = (node: JsonObject) => {
+  const minutes = parseIsoDuration(node.totalTime)
+    ?? ((parseIsoDuration(node.prepTime) ?? 0) + (parseIsoDuration(node.cookTime) ?? 0) || undefined);
+  const nutrition = isObject(node.nutrition) ? node.nutrition : {};
+  const facts = Object.fromEntries(Object.entries(NUTRITION_PROPERTIES).map(([key, property]) => [key, textOf(nutrition[property])]));
+  const { recipe, issues } = validateRecipe({
+    name: textOf(node.name),
+    difficulty: inferDifficulty(node.keywords, minutes),
+    prepTime: minutes ? `${minutes} minutes` : 'Not specified',
+    servings: Number.parseInt(textOf(node.recipeYield), 10) || undefined,
+    cuisine: textOf(node.recipeCuisine),
+    calories: Number.parseFloat(textOf(nutrition.calories)) || 0,
+    nutrition: Object.values(facts).every(Boolean) ? facts : undefined,
+    ingredients: [node.recipeIngredient ?? node.ingredients].flat().map(textOf).filter(Boolean).map(parseIngredientLine),
+    instructions: instructionSteps(node.recipeInstructions),
+  });
+  return { recipe: recipe && { ...recipe, imageUrl: imageUrl(node.image) }, issues };
+};
+
+/**
+ * Reads the schema.org recipes from a JSON-LD document. Recipes that can't be used, for example
+ * because they have no ingredients, are skipped and reported in `issues`.
+ */
+export const parseRecipesJsonLd = (json: string): { recipes: Recipe[]; issues: string[] } => {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    return { recipes: [], issues: ['the file is not valid JSON'] };
+  }
+  const nodes = findRecipeNodes(document);
+  if (nodes.length === 0) return { recipes: [], issues: ['the file contains no schema.org recipes'] };
+  const results = nodes.map(fromSchemaRecipe);
+  return {
+    recipes: results.flatMap(result => (result.recipe ? [result.recipe] : [])),
+    issues: results.flatMap(result => result.issues),
+  };
+};
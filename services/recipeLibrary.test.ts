@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SavedRecipe } from '../types';
+import { EMPTY_LIBRARY_FILTERS, findSavedRecipe, loadLibrary, parseTags, replaceSavedRecipe, saveLibrary, saveRecipeToLibrary, searchLibrary, updateSavedRecipe, withLibraryPhotos } from './recipeLibrary';
+import { makeRecipe } from './testFixtures';
+
+const library = [
+  makeRecipe({ name: 'Spinach Omelette', prepTime: '10 minutes', prepTimeMinutes: 10, calories: 300, ingredients: [{ name: 'eggs', quantity: '3' }, { name: 'spinach', quantity: '1 cup' }] }),
+  makeRecipe({ name: 'Beef Stew', difficulty: 'Hard', prepTime: '2 hours', prepTimeMinutes: 120, calories: 650, ingredients: [{ name: 'beef', quantity: '500 g' }] }),
+  makeRecipe({ name: 'Tomato Pasta', difficulty: 'Medium', prepTime: '25 minutes', prepTimeMinutes: 25, calories: 520, ingredients: [{ name: 'pasta', quantity: '200 g' }, { name: 'tomatoes', quantity: '3' }] }),
+].reduce<SavedRecipe[]>((saved, recipe, index) => saveRecipeToLibrary(saved, recipe, new Date(2024, 0, index + 1)), []);
+
+const names = (filters = {}) => searchLibrary(library, { ...EMPTY_LIBRARY_FILTERS, ...filters }).map(saved => saved.recipe.name);
+
+describe('saveRecipeToLibrary', () => {
+  it('refreshes a recipe saved under the same name but keeps its notes and image', () => {
+    const withImage = saveRecipeToLibrary(library, { ...library[0].recipe, imageUrl: 'data:image/png;base64,abc' });
+    const withNotes = updateSavedRecipe(withImage, library[0].id, { notes: 'Add chives', rating: 5 });
+    const resaved = saveRecipeToLibrary(withNotes, makeRecipe({ name: 'spinach omelette ', calories: 280 }));
+    expect(resaved).toHaveLength(3);
+    expect(findSavedRecipe(resaved, makeRecipe({ name: 'Spinach Omelette' }))).toMatchObject({
+      notes: 'Add chives',
+      rating: 5,
+      recipe: { calories: 280, imageUrl: 'data:image/png;base64,abc' },
+    });
+  });
+});
+
+describe('saveLibrary', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps generated photos out of local storage and puts them back once loaded', () => {
+    const photo = 'data:image/png;base64,abc';
+    const withPhoto = saveRecipeToLibrary(library, { ...library[0].recipe, imageUrl: photo });
+    expect(saveLibrary(withPhoto)).toBe(true);
+    expect(localStorage.getItem('smart-fridge.library')).not.toContain(photo);
+    const loaded = loadLibrary();
+    expect(loaded[0]).toMatchObject({ photoId: library[0].id, recipe: { name: 'Spinach Omelette' } });
+    expect(loaded[0].recipe.imageUrl).toBeUndefined();
+    expect(withLibraryPhotos(loaded, { [library[0].id]: photo })[0].recipe.imageUrl).toBe(photo);
+  });
+
+  it('reports when local storage is full', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); });
+    expect(saveLibrary(library)).toBe(false);
+  });
+});
+
+describe('replaceSavedRecipe', () => {
+  it('swaps in the changed recipe, even under a new name, and keeps the notes', () => {
+    const withNotes = updateSavedRecipe(library, library[0].id, { notes: 'Add chives' });
+    const replaced = replaceSavedRecipe(withNotes, library[0].recipe, makeRecipe({ name: 'Dairy-Free Spinach Omelette' }));
+    expect(replaced).toHaveLength(3);
+    expect(replaced[0]).toMatchObject({ id: library[0].id, notes: 'Add chives', recipe: { name: 'Dairy-Free Spinach Omelette' } });
+  });
+
+  it('leaves the library alone when the recipe was not saved', () => {
+    expect(replaceSavedRecipe(library, makeRecipe({ name: 'Pancakes' }), makeRecipe({ name: 'Vegan Pancakes' }))).toBe(library);
+  });
+});
+
+describe('searchLibrary', () => {
+  it('matches every query word against names and ingredients', () => {
+    expect(names({ query: 'spinach' })).toEqual(['Spinach Omelette']);
+    expect(names({ query: 'tomato pasta' })).toEqual(['Tomato Pasta']);
+    expect(names({ query: 'beef pasta' })).toEqual([]);
+  });
+
+  it('searches tags and notes too', () => {
+    const tagged = updateSavedRecipe(library, library[1].id, { tags: ['winter'], notes: 'Great for meal prep' });
+    expect(searchLibrary(tagged, { ...EMPTY_LIBRARY_FILTERS, query: 'winter' }).map(saved => saved.recipe.name)).toEqual(['Beef Stew']);
+    expect(searchLibrary(tagged, { ...EMPTY_LIBRARY_FILTERS, query: 'meal prep' }).map(saved => saved.recipe.name)).toEqual(['Beef Stew']);
+  });
+
+  it('filters by difficulty, prep time and calories', () => {
+    expect(names({ difficulty: 'Hard' })).toEqual(['Beef Stew']);
+    expect(names({ maxPrepMinutes: 30 })).toEqual(['Tomato Pasta', 'Spinach Omelette']);
+    expect(names({ maxCalories: 550 })).toEqual(['Tomato Pasta', 'Spinach Omelette']);
+  });
+
+  it('lists favorites first, then the most recently saved', () => {
+    const favorited = updateSavedRecipe(library, library[0].id, { favorite: true });
+    expect(searchLibrary(favorited, EMPTY_LIBRARY_FILTERS).map(saved => saved.recipe.name)).toEqual(['Spinach Omelette', 'Tomato Pasta', 'Beef Stew']);
+    expect(searchLibrary(favorited, { ...EMPTY_LIBRARY_FILTERS, favoritesOnly: true })).toHaveLength(1);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and hashes and drops duplicates', () => {
+    expect(parseTags('Quick, weeknight #spicy, quick')).toEqual(['quick', 'weeknight', 'spicy']);
+  });
+});
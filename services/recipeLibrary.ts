@@ -0,0 +1,117 @@
+import { Difficulty, Recipe, SavedRecipe } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { normalizeItemName } from './pantryService';
+import { deletePhotos, loadPhotos, storePhoto } from './photoStore';
+
+const LIBRARY_STORAGE_KEY = 'smart-fridge.library';
+
+export type SavedRecipeChanges = Partial<Pick<SavedRecipe, 'favorite' | 'rating' | 'notes' | 'tags'>>;
+
+export interface LibraryFilters {
+  query: string;
+  difficulty?: Difficulty;
+  maxPrepMinutes?: number;
+  maxCalories?: number;
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = { query: '', favoritesOnly: false };
+
+export const loadLibrary = (): SavedRecipe[] => loadJSON<SavedRecipe[]>(LIBRARY_STORAGE_KEY, []);
+
+// The photo each entry was last stored or loaded with, so that saving the library only writes new photos.
+const storedPhotos = new Map<string, string>();
+
+const isDataUrl = (url: string | undefined): url is string => url?.startsWith('data:') ?? false;
+
+const withoutPhoto = (saved: SavedRecipe): SavedRecipe => {
+  if (!isDataUrl(saved.recipe.imageUrl)) return saved;
+  const { imageUrl, ...recipe } = saved.recipe;
+  return { ...saved, recipe, photoId: saved.id };
+};
+
+/**
+ * Saves the library. Generated photos are data URLs of a megabyte or more, so each one is kept as a
+ * blob in IndexedDB and local storage only gets its id. Returns false when the library couldn't be saved.
+ */
+export const saveLibrary = (library: SavedRecipe[]) => {
+  const ids = new Set(library.map(saved => saved.id));
+  const removed = [...storedPhotos.keys()].filter(id => !ids.has(id));
+  removed.forEach(id => storedPhotos.delete(id));
+  if (removed.length > 0) void deletePhotos(removed);
+  for (const { id, recipe } of library) {
+    if (isDataUrl(recipe.imageUrl) && storedPhotos.get(id) !== recipe.imageUrl) {
+      storedPhotos.set(id, recipe.imageUrl);
+      void storePhoto(id, recipe.imageUrl);
+    }
+  }
+  return saveJSON(LIBRARY_STORAGE_KEY, library.map(withoutPhoto));
+};
+
+/** Reads the photos of saved recipes back from IndexedDB, keyed by photo id. */
+export const loadLibraryPhotos = async (library: SavedRecipe[]) => {
+  const photos = await loadPhotos(library.flatMap(saved => (saved.photoId && !saved.recipe.imageUrl ? [saved.photoId] : [])));
+  for (const saved of library) {
+    if (saved.photoId && photos[saved.photoId]) storedPhotos.set(saved.id, photos[saved.photoId]);
+  }
+  return photos;
+};
+
+/** Puts loaded photos back into the entries that are still missing theirs. */
+export const withLibraryPhotos = (library: SavedRecipe[], photos: Record<string, string>): SavedRecipe[] =>
+  library.map(saved => {
+    const imageUrl = saved.photoId && !saved.recipe.imageUrl ? photos[saved.photoId] : undefined;
+    return imageUrl ? { ...saved, recipe: { ...saved.recipe, imageUrl } } : saved;
+  });
+
+export const findSavedRecipe = (library: SavedRecipe[], recipe: Recipe | null) =>
+  recipe ? library.find(saved => normalizeItemName(saved.recipe.name) === normalizeItemName(recipe.name)) : undefined;
+
+/** Saves a recipe to the library. Saving a recipe with the same name again refreshes it but keeps the notes, rating and tags. */
+export const saveRecipeToLibrary = (library: SavedRecipe[], recipe: Recipe, now = new Date()): SavedRecipe[] => {
+  const existing = findSavedRecipe(library, recipe);
+  if (existing) {
+    return library.map(saved => (saved.id === existing.id ? { ...saved, recipe: { ...recipe, imageUrl: recipe.imageUrl ?? saved.recipe.imageUrl } } : saved));
+  }
+  return [...library, { id: crypto.randomUUID(), recipe, savedAt: now.toISOString(), favorite: false, notes: '', tags: [] }];
+};
+
+/** Puts a changed version of a saved recipe in its place, keeping the notes, rating and tags. */
+export const replaceSavedRecipe = (library: SavedRecipe[], original: Recipe, updated: Recipe): SavedRecipe[] => {
+  const existing = findSavedRecipe(library, original);
+  return existing ? library.map(saved => (saved.id === existing.id ? { ...saved, recipe: updated } : saved)) : library;
+};
+
+export const removeFromLibrary = (library: SavedRecipe[], id: string): SavedRecipe[] => library.filter(saved => saved.id !== id);
+
+export const updateSavedRecipe = (library: SavedRecipe[], id: string, changes: SavedRecipeChanges): SavedRecipe[] =>
+  library.map(saved => (saved.id === id ? { ...saved, ...changes } : saved));
+
+export const toggleFavorite = (library: SavedRecipe[], id: string): SavedRecipe[] =>
+  library.map(saved => (saved.id === id ? { ...saved, favorite: !saved.favorite } : saved));
+
+/** Splits free-form tag input like "quick, weeknight #spicy" into distinct lowercase tags. */
+export const parseTags = (text: string) =>
+  [...new Set(text.split(/[,#]/).map(tag => normalizeItemName(tag)).filter(Boolean))];
+
+const searchableText = ({ recipe, notes, tags }: SavedRecipe) =>
+  [recipe.name, ...recipe.ingredients.map(ing => ing.name), ...tags, notes].join(' ').toLowerCase();
+
+/**
+ * Returns the saved recipes that match every word of the query and every active filter,
+ * favorites first and then most recently saved.
+ */
+export const searchLibrary = (library: SavedRecipe[], filters: LibraryFilters): SavedRecipe[] => {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return library
+    .filter(saved => {
+      const { recipe } = saved;
+      if (filters.favoritesOnly && !saved.favorite) return false;
+      if (filters.difficulty && recipe.difficulty !== filters.difficulty) return false;
+      if (filters.maxPrepMinutes !== undefined && (recipe.prepTimeMinutes === undefined || recipe.prepTimeMinutes > filters.maxPrepMinutes)) return false;
+      if (filters.maxCalories !== undefined && recipe.calories > filters.maxCalories) return false;
+      const text = searchableText(saved);
+      return words.every(word => text.includes(word));
+    })
+    .sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.savedAt.localeCompare(a.savedAt));
+};
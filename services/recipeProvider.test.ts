@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Allergen, ExclusionProfile, Recipe } from '../types';
+import { generateRecipeImage, getMealPlan, getRecipes, startChefChat } from './recipeProvider';
+import { mockProvider } from './mockService';
+import { containsAllergen } from './exclusions';
+import { ExclusionViolationError } from './errors';
+
+const { getCachedRecipes, getCachedImage, cacheImage } = vi.hoisted(() => ({ getCachedRecipes: vi.fn(), getCachedImage: vi.fn(), cacheImage: vi.fn() }));
+
+vi.mock('./recipeCache', async (importOriginal) => ({ ...(await importOriginal<typeof import('./recipeCache')>()), getCachedRecipes, getCachedImage, cacheImage }));
+
+const dairyAllergy: ExclusionProfile = { id: '1', name: 'Kim', allergens: [Allergen.Dairy], avoidIngredients: [], strict: true, enabled: true };
+
+beforeEach(() => {
+  vi.stubEnv('RECIPE_PROVIDER', 'mock');
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  getCachedRecipes.mockResolvedValue(null);
+  getCachedImage.mockResolvedValue(null);
+  cacheImage.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getRecipes', () => {
+  it('drops recipes that break a strict exclusion profile', async () => {
+    const recipes = await getRecipes([], [], [dairyAllergy]);
+    expect(recipes.length).toBeGreaterThan(0);
+    expect(recipes.flatMap(recipe => recipe.ingredients).some(ing => containsAllergen(ing.name, Allergen.Dairy))).toBe(false);
+  });
+
+  it('asks again and then gives up when every recipe breaks a strict profile', async () => {
+    const spy = vi.spyOn(mockProvider, 'getRecipes');
+    const everything: ExclusionProfile = { ...dairyAllergy, allergens: Object.values(Allergen), avoidIngredients: ['lemon', 'spinach'] };
+    await expect(getRecipes([], [], [everything])).rejects.toBeInstanceOf(ExclusionViolationError);
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes every returned recipe to onRecipe exactly once, even from providers that do not stream', async () => {
+    const onRecipe = vi.fn();
+    const recipes = await getRecipes([], [], [dairyAllergy], { onRecipe });
+    expect(onRecipe.mock.calls.map(([recipe]) => recipe)).toEqual(recipes);
+  });
+
+  it('answers from the cache unless asked to refresh', async () => {
+    const cached = await mockProvider.getRecipes([], []);
+    getCachedRecipes.mockResolvedValue({ value: cached, createdAt: 1000 });
+    const spy = vi.spyOn(mockProvider, 'getRecipes');
+    const onCacheHit = vi.fn();
+    await expect(getRecipes([], [], [], { onCacheHit })).resolves.toBe(cached);
+    expect(onCacheHit).toHaveBeenCalledWith(new Date(1000));
+    expect(spy).not.toHaveBeenCalled();
+
+    await getRecipes([], [], [], { onCacheHit, refresh: true });
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(onCacheHit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getMealPlan', () => {
+  it('asks again for slots whose meal broke a strict profile and keeps the safe ones', async () => {
+    const spy = vi.spyOn(mockProvider, 'getMealPlan');
+    const slots = [{ day: 0, slot: 'Breakfast' as const }, { day: 0, slot: 'Lunch' as const }, { day: 0, slot: 'Dinner' as const }];
+    const meals = await getMealPlan([], [], { startDate: '2026-10-19', slots, keep: [] }, [dairyAllergy]);
+    expect(meals.map(meal => meal.slot)).toEqual(['Lunch']);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(spy.mock.calls[1][2]).toMatchObject({ slots: [slots[0], slots[2]], keep: meals });
+  });
+});
+
+describe('generateRecipeImage', () => {
+  it('reuses the cached photo unless asked to refresh, and then replaces it', async () => {
+    getCachedImage.mockResolvedValue('data:image/png;base64,old');
+    const spy = vi.spyOn(mockProvider, 'generateRecipeImage').mockResolvedValue('data:image/png;base64,new');
+    await expect(generateRecipeImage('Omelette')).resolves.toBe('data:image/png;base64,old');
+    expect(spy).not.toHaveBeenCalled();
+
+    await expect(generateRecipeImage('Omelette', undefined, true)).resolves.toBe('data:image/png;base64,new');
+    expect(cacheImage).toHaveBeenCalledWith(expect.stringContaining('omelette'), 'data:image/png;base64,new');
+  });
+
+  it('makes at most two image calls at once and skips queued ones that were cancelled', async () => {
+    const resolvers: (() => void)[] = [];
+    const spy = vi.spyOn(mockProvider, 'generateRecipeImage').mockImplementation(
+      name => new Promise(resolve => resolvers.push(() => resolve(`data:image/png;base64,${btoa(name)}`))),
+    );
+    const controller = new AbortController();
+    const first = generateRecipeImage('A');
+    const second = generateRecipeImage('B');
+    const cancelled = generateRecipeImage('C', controller.signal);
+    const last = generateRecipeImage('D');
+    await vi.waitFor(() => expect(spy).toHaveBeenCalledTimes(2));
+    controller.abort();
+    resolvers.shift()!();
+    const [firstResult, cancelledResult] = await Promise.allSettled([first, cancelled]);
+    expect(firstResult).toMatchObject({ status: 'fulfilled', value: `data:image/png;base64,${btoa('A')}` });
+    expect(cancelledResult).toMatchObject({ status: 'rejected', reason: { name: 'AbortError' } });
+    await vi.waitFor(() => expect(spy).toHaveBeenCalledTimes(3));
+    expect(spy.mock.calls.map(([name]) => name)).toEqual(['A', 'B', 'D']);
+    resolvers.forEach(resolve => resolve());
+    await Promise.all([second, last]);
+  });
+});
+
+describe('startChefChat', () => {
+  const recipe: Recipe = {
+    name: 'Pancakes', difficulty: 'Easy', prepTime: '20 minutes', calories: 350,
+    ingredients: [{ name: 'flour', quantity: '200 g' }, { name: 'milk', quantity: '300 ml' }, { name: 'eggs', quantity: '2' }],
+    instructions: ['Whisk everything.', 'Fry.'],
+  };
+
+  it('passes on proposals that respect the exclusion profiles', async () => {
+    const reply = await startChefChat(recipe, [], [dairyAllergy]).send('Make it without milk');
+    expect(reply.recipe?.ingredients.map(ing => ing.name)).toEqual(['flour', 'eggs']);
+  });
+
+  it('withholds a proposal that breaks a strict profile and says why', async () => {
+    const reply = await startChefChat(recipe, [], [dairyAllergy]).send('Make it without eggs');
+    expect(reply.recipe).toBeUndefined();
+    expect(reply.text).toContain("isn't shown because it contains milk (Dairy, Kim)");
+  });
+
+  it('says why a proposal was withheld in the chat language', async () => {
+    const reply = await startChefChat(recipe, [], [dairyAllergy], 'de').send('Make it without eggs');
+    expect(reply.text).toContain('weil es milk (Milchprodukte, Kim) enthält');
+  });
+});
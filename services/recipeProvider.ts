@@ -0,0 +1,192 @@
+import { Recipe, DietaryRestriction, ExclusionProfile, InventoryItem, Locale, MealPlanRequest, PlannedMeal, ChefMessage, CookingPreferences, RecipeConstraints } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { openAiProvider } from './openAiService';
+import { enforceExclusions, describeViolation } from './exclusions';
+import { ExclusionViolationError } from './errors';
+import { recipesCacheKey, imageCacheKey, getCachedRecipes, cacheRecipes, getCachedImage, cacheImage } from './recipeCache';
+import { createConcurrencyLimiter } from './request';
+import { createTranslator, DEFAULT_LOCALE } from './i18n';
+
+const MAX_EXCLUSION_ATTEMPTS = 2;
+// Image calls are slow and rate limited, so a page of results asks for a couple of photos at a time.
+const IMAGE_CONCURRENCY = 2;
+const limitImageRequests = createConcurrencyLimiter(IMAGE_CONCURRENCY);
+
+export interface RecipeRequestOptions {
+  /** Called with each recipe as soon as it has arrived and passed validation. */
+  onRecipe?: (recipe: Recipe) => void;
+  /** Cancels the request, which then rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** The language to write the recipes in. Defaults to English. */
+  locale?: Locale;
+  /** Tastes learned from the cooking history, including the dishes to avoid repeating. */
+  preferences?: CookingPreferences;
+  /** Cuisine, time, difficulty and equipment limits, and how many recipes to suggest. Defaults to five recipes without limits. */
+  constraints?: RecipeConstraints;
+}
+
+export interface ChefChat {
+  /** Sends the user's next message. The reply may carry a modified version of the recipe. */
+  send: (message: string, signal?: AbortSignal) => Promise<ChefMessage>;
+}
+
+export interface RecipeProvider {
+  analyzeFridgeContents: (imageFile: File) => Promise<InventoryItem[]>;
+  /** Resolves with every recipe once the response is complete. Providers that stream may also call `onRecipe` before then. */
+  getRecipes: (ingredients: InventoryItem[], filters: DietaryRestriction[], exclusions?: ExclusionProfile[], options?: RecipeRequestOptions) => Promise<Recipe[]>;
+  generateRecipeImage: (recipeName: string, signal?: AbortSignal) => Promise<string>;
+  /** Suggests a recipe for each requested slot of the week; the meals in `request.keep` stay as they are. */
+  getMealPlan: (ingredients: InventoryItem[], filters: DietaryRestriction[], request: MealPlanRequest, exclusions?: ExclusionProfile[], locale?: Locale) => Promise<PlannedMeal[]>;
+  /** Starts a multi-turn conversation about a recipe, seeded with the recipe and the names of the owned ingredients. The chef answers in `locale`. */
+  startChefChat: (recipe: Recipe, ownedIngredients: string[], exclusions?: ExclusionProfile[], locale?: Locale) => ChefChat;
+}
+
+export interface CachedRecipeRequestOptions extends RecipeRequestOptions {
+  /** Skips the cached answer and replaces it with a fresh one. */
+  refresh?: boolean;
+  /** Called when the recipes come from the cache, with when they were first generated. */
+  onCacheHit?: (generatedAt: Date) => void;
+}
+
+export type ProviderName = 'gemini' | 'mock' | 'openai';
+
+const providers: Record<ProviderName, RecipeProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  openai: openAiProvider,
+};
+
+/**
+ * Picks the provider named by `RECIPE_PROVIDER`. Without one, Gemini is used when an API key
+ * is configured and the offline mock otherwise.
+ */
+export const getProviderName = (): ProviderName => {
+  const configured = process.env.RECIPE_PROVIDER?.toLowerCase();
+  if (configured && configured in providers) return configured as ProviderName;
+  if (configured) console.warn(`Unknown RECIPE_PROVIDER "${configured}", falling back to the default provider.`);
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const getRecipeProvider = (): RecipeProvider => providers[getProviderName()];
+
+export const analyzeFridgeContents: RecipeProvider['analyzeFridgeContents'] = (imageFile) =>
+  getRecipeProvider().analyzeFridgeContents(imageFile);
+
+/**
+ * Generates recipes and drops any that break a strict exclusion profile, since the model can't
+ * be trusted to honor allergies from the prompt alone. Asks again if nothing safe is left.
+ */
+const generateSafeRecipes = async (
+  ingredients: InventoryItem[],
+  filters: DietaryRestriction[],
+  exclusions: ExclusionProfile[],
+  emit: (recipe: Recipe) => void,
+  options: Pick<RecipeRequestOptions, 'signal' | 'locale' | 'preferences' | 'constraints'>,
+) => {
+  let violations: string[] = [];
+  for (let attempt = 1; attempt <= MAX_EXCLUSION_ATTEMPTS; attempt++) {
+    const recipes = await getRecipeProvider().getRecipes(ingredients, filters, exclusions, { ...options, onRecipe: emit });
+    options.signal?.throwIfAborted();
+    const { allowed, rejected } = enforceExclusions(recipes, exclusions);
+    violations = rejected.flatMap(({ recipe, violations }) => violations.map(violation => `${recipe.name}: ${describeViolation(violation)}`));
+    if (violations.length > 0) {
+      console.warn(`Rejected recipes that break exclusion profiles (attempt ${attempt}):`, violations);
+    }
+    if (allowed.length > 0) return allowed.map(({ recipe }) => recipe);
+  }
+  throw new ExclusionViolationError(violations);
+};
+
+/**
+ * Answers from the cache when the same ingredients, filters, constraints, exclusions and preferences were asked for before,
+ * and generates safe recipes otherwise. `onRecipe` is called exactly once for every recipe that is
+ * returned: as it streams in when the provider supports streaming, and otherwise at the end.
+ */
+export const getRecipes = async (
+  ingredients: InventoryItem[],
+  filters: DietaryRestriction[],
+  exclusions: ExclusionProfile[] = [],
+  { onRecipe, signal, locale = DEFAULT_LOCALE, preferences, constraints, refresh = false, onCacheHit }: CachedRecipeRequestOptions = {},
+): Promise<Recipe[]> => {
+  const emitted = new Set<string>();
+  const emit = (recipe: Recipe) => {
+    if (signal?.aborted || emitted.has(recipe.name) || enforceExclusions([recipe], exclusions).rejected.length > 0) return;
+    emitted.add(recipe.name);
+    onRecipe?.(recipe);
+  };
+  const cacheKey = recipesCacheKey(getProviderName(), ingredients, filters, exclusions, locale, preferences, constraints);
+  const cached = refresh ? null : await getCachedRecipes(cacheKey);
+  signal?.throwIfAborted();
+  if (cached) {
+    onCacheHit?.(new Date(cached.createdAt));
+    cached.value.forEach(emit);
+    return cached.value;
+  }
+  const recipes = await generateSafeRecipes(ingredients, filters, exclusions, emit, { signal, locale, preferences, constraints });
+  recipes.forEach(emit);
+  await cacheRecipes(cacheKey, recipes);
+  return recipes;
+};
+
+/**
+ * Plans the requested meals, leaving out any that break a strict exclusion profile. Slots that
+ * end up empty are asked for once more; whatever is still missing can be swapped in later.
+ */
+export const getMealPlan: RecipeProvider['getMealPlan'] = async (ingredients, filters, request, exclusions = [], locale = DEFAULT_LOCALE) => {
+  const planned: PlannedMeal[] = [];
+  let slots = request.slots;
+  for (let attempt = 1; attempt <= MAX_EXCLUSION_ATTEMPTS && slots.length > 0; attempt++) {
+    const meals = await getRecipeProvider().getMealPlan(ingredients, filters, { ...request, slots, keep: [...request.keep, ...planned] }, exclusions, locale);
+    for (const meal of meals) {
+      const { rejected } = enforceExclusions([meal.recipe], exclusions);
+      if (rejected.length > 0) {
+        console.warn(`Rejected a planned meal that breaks exclusion profiles (attempt ${attempt}):`, rejected[0].violations.map(violation => describeViolation(violation)));
+      } else {
+        planned.push(meal);
+      }
+    }
+    slots = slots.filter(({ day, slot }) => !planned.some(meal => meal.day === day && meal.slot === slot));
+  }
+  if (planned.length === 0 && request.slots.length > 0) {
+    throw new ExclusionViolationError([]);
+  }
+  return planned;
+};
+
+/**
+ * Reuses the photo from the last time a recipe with this name was shown, and otherwise waits for a
+ * free image slot. `refresh` skips the cached photo and replaces it with the new one.
+ */
+export const generateRecipeImage = async (recipeName: string, signal?: AbortSignal, refresh = false) => {
+  const cacheKey = imageCacheKey(getProviderName(), recipeName);
+  const cached = refresh ? null : await getCachedImage(cacheKey);
+  if (cached) return cached;
+  const imageUrl = await limitImageRequests(() => {
+    // Requests that were cancelled while queued give up their slot without calling the API.
+    signal?.throwIfAborted();
+    return getRecipeProvider().generateRecipeImage(recipeName, signal);
+  });
+  await cacheImage(cacheKey, imageUrl);
+  return imageUrl;
+};
+
+/**
+ * Starts a chef conversation whose proposed recipes are held to the same strict exclusion
+ * profiles as generated ones: a proposal that breaks one is withheld and the reply says why.
+ */
+export const startChefChat: RecipeProvider['startChefChat'] = (recipe, ownedIngredients, exclusions = [], locale = DEFAULT_LOCALE) => {
+  const chat = getRecipeProvider().startChefChat(recipe, ownedIngredients, exclusions, locale);
+  return {
+    send: async (message, signal) => {
+      const reply = await chat.send(message, signal);
+      if (!reply.recipe) return reply;
+      const { rejected } = enforceExclusions([reply.recipe], exclusions);
+      if (rejected.length === 0) return reply;
+      const t = createTranslator(locale);
+      const violations = rejected[0].violations.filter(violation => violation.profile.strict).map(violation => describeViolation(violation, t));
+      console.warn('Withheld a modified recipe that breaks exclusion profiles:', violations);
+      return { role: 'chef', text: t('chef.withheld', { reply: reply.text, violations: violations.join(', ') }) };
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parsePrepTime, normalizeDifficulty, validateRecipe, validateRecipesResponse } from './recipeValidation';
+
+const validRecipe = {
+  name: 'Omelette',
+  difficulty: 'Easy',
+  prepTime: '10 minutes',
+  calories: 300,
+  ingredients: [{ name: 'eggs', quantity: '3' }],
+  instructions: ['Whisk the eggs.', 'Cook them.'],
+};
+
+describe('parsePrepTime', () => {
+  it.each([
+    ['30 minutes', 30],
+    ['45 mins', 45],
+    ['1 hour', 60],
+    ['1.5 hours', 90],
+    ['1 hr 15 min', 75],
+    ['1h30m', 90],
+    ['20-30 minutes', 30],
+    ['25', 25],
+    ['30 minutos', 30],
+    ['1 hora 15 minutos', 75],
+    ['20 a 30 min', 30],
+    ['25 Minuten', 25],
+    ['1 Stunde', 60],
+    ['1,5 Stunden', 90],
+  ])('parses "%s" as %i minutes', (input, expected) => {
+    expect(parsePrepTime(input)).toBe(expected);
+  });
+
+  it('returns undefined for text without a duration', () => {
+    expect(parsePrepTime('quick')).toBeUndefined();
+  });
+});
+
+describe('normalizeDifficulty', () => {
+  it('normalizes casing and common synonyms', () => {
+    expect(normalizeDifficulty('easy')).toBe('Easy');
+    expect(normalizeDifficulty(' MEDIUM ')).toBe('Medium');
+    expect(normalizeDifficulty('intermediate')).toBe('Medium');
+    expect(normalizeDifficulty('Advanced')).toBe('Hard');
+  });
+
+  it('rejects unknown values', () => {
+    expect(normalizeDifficulty('Impossible')).toBeUndefined();
+    expect(normalizeDifficulty(3)).toBeUndefined();
+  });
+});
+
+describe('validateRecipe', () => {
+  it('repairs numeric strings, numbered steps and missing quantities', () => {
+    const { recipe, issues } = validateRecipe({
+      ...validRecipe,
+      calories: '320 kcal',
+      ingredients: [{ name: ' eggs ', quantity: 3 }, { name: 'salt' }, { quantity: '1 cup' }],
+      instructions: ['1. Whisk the eggs.', 'Step 2: Cook them.', ''],
+    });
+    expect(issues).toEqual([]);
+    expect(recipe).toEqual({
+      ...validRecipe,
+      prepTimeMinutes: 10,
+      calories: 320,
+      ingredients: [{ name: 'eggs', quantity: '3' }, { name: 'salt', quantity: 'as needed' }],
+      instructions: ['Whisk the eggs.', 'Cook them.'],
+    });
+  });
+
+  it('prefers the prep time in minutes given by the model to the written one', () => {
+    expect(validateRecipe({ ...validRecipe, prepTime: 'media hora', prepTimeMinutes: 30 }).recipe?.prepTimeMinutes).toBe(30);
+    expect(validateRecipe({ ...validRecipe, prepTime: '25 Minuten', prepTimeMinutes: 0 }).recipe?.prepTimeMinutes).toBe(25);
+  });
+
+  it('keeps a positive servings count and drops an unusable one', () => {
+    expect(validateRecipe({ ...validRecipe, servings: '4' }).recipe?.servings).toBe(4);
+    expect(validateRecipe({ ...validRecipe, servings: 0 }).recipe?.servings).toBeUndefined();
+  });
+
+  it('parses nutrition facts and drops incomplete ones without rejecting the recipe', () => {
+    const nutrition = { protein: '25g', carbs: 10, fat: 12.34, fiber: 2, sugar: 1, sodium: 450 };
+    expect(validateRecipe({ ...validRecipe, nutrition }).recipe?.nutrition).toEqual({ protein: 25, carbs: 10, fat: 12.3, fiber: 2, sugar: 1, sodium: 450 });
+    const { recipe, issues } = validateRecipe({ ...validRecipe, nutrition: { protein: 25 } });
+    expect(issues).toEqual([]);
+    expect(recipe?.nutrition).toBeUndefined();
+  });
+
+  it('rejects negative calories and empty instructions', () => {
+    const { recipe, issues } = validateRecipe({ ...validRecipe, calories: -50, instructions: [] });
+    expect(recipe).toBeUndefined();
+    expect(issues).toEqual(['"Omelette" has invalid calories "-50"', '"Omelette" has no instructions']);
+  });
+});
+
+describe('validateRecipesResponse', () => {
+  it('reports malformed JSON', () => {
+    expect(validateRecipesResponse('not json')).toEqual({ recipes: [], issues: ['response is not valid JSON'] });
+  });
+
+  it('reports a missing recipes array', () => {
+    expect(validateRecipesResponse('{}').issues).toEqual(['response has no "recipes" array']);
+  });
+
+  it('accepts a bare array of recipes', () => {
+    expect(validateRecipesResponse(JSON.stringify([validRecipe])).recipes).toHaveLength(1);
+  });
+});
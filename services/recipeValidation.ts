@@ -0,0 +1,242 @@
+import { Recipe, RecipeIngredient, Difficulty, Nutrition, MealPlanRequest, MealSlot, PlannedMeal } from '../types';
+import { RecipeValidationError } from './errors';
+import { extractCompleteArrayItems } from './jsonStream';
+
+const MAX_ATTEMPTS = 2;
+
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+  easy: 'Easy',
+  simple: 'Easy',
+  beginner: 'Easy',
+  medium: 'Medium',
+  moderate: 'Medium',
+  intermediate: 'Medium',
+  hard: 'Hard',
+  difficult: 'Hard',
+  advanced: 'Hard',
+  challenging: 'Hard',
+};
+
+export const normalizeDifficulty = (value: unknown): Difficulty | undefined =>
+  typeof value === 'string' ? DIFFICULTY_ALIASES[value.trim().toLowerCase()] : undefined;
+
+// Units and range words in English, Spanish and German, since recipes come back in the user's language.
+const RANGE = String.raw`(?:-|to|a|bis)`;
+const HOUR_PATTERN = new RegExp(String.raw`(\d+(?:[.,]\d+)?)\s*${RANGE}?\s*(\d+(?:[.,]\d+)?)?\s*(?:hours?|hrs?|h|horas?|stunden?|std)(?![a-zä])`, 'i');
+const MINUTE_PATTERN = new RegExp(String.raw`(\d+)\s*${RANGE}?\s*(\d+)?\s*(?:minutes?|mins?|m|minutos?|minuten)(?![a-zä])`, 'i');
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+/**
+ * Parses free-form durations such as "30 minutes", "1 hr 15 min", "1.5 hours", "20-30 mins",
+ * "1 hora 15 minutos" or "1,5 Stunden" into minutes. Ranges resolve to their upper bound.
+ */
+export const parsePrepTime = (prepTime: string): number | undefined => {
+  const hours = prepTime.match(HOUR_PATTERN);
+  const minutes = prepTime.replace(HOUR_PATTERN, '').match(MINUTE_PATTERN);
+  if (!hours && !minutes) {
+    const bare = prepTime.trim().match(/^\d+$/);
+    return bare ? Number(bare[0]) : undefined;
+  }
+  const total = (hours ? toNumber(hours[2] ?? hours[1]) * 60 : 0) + (minutes ? Number(minutes[2] ?? minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : undefined;
+};
+
+/** The prep time in minutes as the model gave it, or else as parsed from the written prep time. */
+const normalizePrepTimeMinutes = (value: unknown, prepTime: string) => {
+  const minutes = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : parsePrepTime(prepTime);
+};
+
+const asTrimmedString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const NUTRITION_KEYS: (keyof Nutrition)[] = ['protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+/** Parses nutrition facts such as `{ protein: "25g" }`. Missing or partial facts are dropped rather than failing the recipe. */
+const normalizeNutrition = (value: unknown): Nutrition | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  const nutrition: Partial<Nutrition> = {};
+  for (const key of NUTRITION_KEYS) {
+    const amount = typeof raw[key] === 'string' ? Number.parseFloat(raw[key] as string) : raw[key];
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) return undefined;
+    nutrition[key] = Math.round(amount * 10) / 10;
+  }
+  return nutrition as Nutrition;
+};
+
+const normalizeIngredient = (value: unknown): RecipeIngredient | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, quantity, englishName } = value as Record<string, unknown>;
+  const trimmedName = asTrimmedString(name);
+  if (!trimmedName) return null;
+  const trimmedQuantity = typeof quantity === 'number' ? String(quantity) : asTrimmedString(quantity);
+  const trimmedEnglishName = asTrimmedString(englishName);
+  return { name: trimmedName, quantity: trimmedQuantity || 'as needed', ...(trimmedEnglishName ? { englishName: trimmedEnglishName } : {}) };
+};
+
+/** Validates one recipe from the model, repairing what it can. Returns the problems that made it unusable. */
+export const validateRecipe = (value: unknown): { recipe?: Recipe; issues: string[] } => {
+  if (typeof value !== 'object' || value === null) {
+    return { issues: ['recipe is not an object'] };
+  }
+  const raw = value as Record<string, unknown>;
+  const name = asTrimmedString(raw.name);
+  const label = name ? `"${name}"` : 'recipe without a name';
+  const issues: string[] = [];
+
+  if (!name) issues.push('recipe is missing a name');
+
+  const difficulty = normalizeDifficulty(raw.difficulty);
+  if (!difficulty) issues.push(`${label} has an invalid difficulty "${String(raw.difficulty)}"`);
+
+  const prepTime = asTrimmedString(raw.prepTime);
+  if (!prepTime) issues.push(`${label} is missing a prep time`);
+
+  const calories = typeof raw.calories === 'string' ? Number.parseFloat(raw.calories) : raw.calories;
+  if (typeof calories !== 'number' || !Number.isFinite(calories) || calories < 0) {
+    issues.push(`${label} has invalid calories "${String(raw.calories)}"`);
+  }
+
+  const servings = typeof raw.servings === 'string' ? Number.parseInt(raw.servings, 10) : raw.servings;
+
+  const ingredients = Array.isArray(raw.ingredients)
+    ? raw.ingredients.map(normalizeIngredient).filter((ing): ing is RecipeIngredient => ing !== null)
+    : [];
+  if (ingredients.length === 0) issues.push(`${label} has no ingredients`);
+
+  const instructions = Array.isArray(raw.instructions)
+    ? raw.instructions.map(asTrimmedString).map(step => step.replace(/^(?:step\s*)?\d+[.):]\s*/i, '')).filter(Boolean)
+    : [];
+  if (instructions.length === 0) issues.push(`${label} has no instructions`);
+
+  if (issues.length > 0) return { issues };
+
+  return {
+    recipe: {
+      name,
+      difficulty: difficulty!,
+      prepTime,
+      prepTimeMinutes: normalizePrepTimeMinutes(raw.prepTimeMinutes, prepTime),
+      cuisine: asTrimmedString(raw.cuisine) || undefined,
+      servings: typeof servings === 'number' && Number.isFinite(servings) && servings > 0 ? Math.round(servings) : undefined,
+      calories: Math.round(calories as number),
+      nutrition: normalizeNutrition(raw.nutrition),
+      ingredients,
+      instructions,
+    },
+    issues,
+  };
+};
+
+/** Parses and validates a raw model response, dropping recipes that can't be repaired. */
+const validateRecipeList = (list: unknown[]) => {
+  const results = list.map(validateRecipe);
+  return {
+    recipes: results.flatMap(result => (result.recipe ? [result.recipe] : [])),
+    issues: results.flatMap(result => result.issues),
+  };
+};
+
+/**
+ * Parses and validates a recipe list response. When the response was cut off, the recipes that
+ * did arrive complete are still used, since a streamed response may already have shown them.
+ */
+export const validateRecipesResponse = (text: string | undefined): { recipes: Recipe[]; issues: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text?.trim() ?? '');
+  } catch {
+    const salvaged = extractCompleteArrayItems(text ?? '', 'recipes');
+    if (salvaged.length === 0) {
+      return { recipes: [], issues: ['response is not valid JSON'] };
+    }
+    const { recipes, issues } = validateRecipeList(salvaged);
+    return { recipes, issues: ['response was cut off', ...issues] };
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { recipes?: unknown } | null)?.recipes;
+  if (!Array.isArray(list)) {
+    return { recipes: [], issues: ['response has no "recipes" array'] };
+  }
+  if (list.length === 0) {
+    return { recipes: [], issues: ['response contained no recipes'] };
+  }
+  return validateRecipeList(list);
+};
+
+const MEAL_SLOTS: MealSlot[] = ['Breakfast', 'Lunch', 'Dinner'];
+
+/**
+ * Parses and validates a meal plan response. Days in the response count from 1; the returned
+ * meals count from 0 like the rest of the app. Meals for slots that weren't asked for are dropped.
+ */
+export const validateMealPlanResponse = (text: string | undefined, request: MealPlanRequest): { meals: PlannedMeal[]; issues: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text?.trim() ?? '');
+  } catch {
+    return { meals: [], issues: ['response is not valid JSON'] };
+  }
+  const list = (parsed as { meals?: unknown } | null)?.meals;
+  if (!Array.isArray(list)) {
+    return { meals: [], issues: ['response has no "meals" array'] };
+  }
+  const meals: PlannedMeal[] = [];
+  const issues: string[] = [];
+  for (const value of list) {
+    const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const day = Number(raw.day) - 1;
+    const slot = MEAL_SLOTS.find(candidate => candidate.toLowerCase() === asTrimmedString(raw.slot).toLowerCase());
+    if (!slot || !request.slots.some(requested => requested.day === day && requested.slot === slot)) {
+      issues.push(`meal for day ${String(raw.day)} ${String(raw.slot)} was not requested`);
+      continue;
+    }
+    if (meals.some(meal => meal.day === day && meal.slot === slot)) continue;
+    const { recipe, issues: recipeIssues } = validateRecipe(raw.recipe);
+    issues.push(...recipeIssues);
+    if (recipe) meals.push({ day, slot, recipe, locked: false });
+  }
+  const missing = request.slots.filter(requested => !meals.some(meal => meal.day === requested.day && meal.slot === requested.slot));
+  if (missing.length > 0) {
+    issues.push(`no meal for ${missing.map(({ day, slot }) => `day ${day + 1} ${slot}`).join(', ')}`);
+  }
+  return { meals, issues };
+};
+
+/**
+ * Runs `generate` until `validate` yields at least one usable value, re-prompting with the
+ * validation problems on failure. Throws a `RecipeValidationError` once the attempts are used up.
+ */
+const generateValidated = async <T>(
+  prompt: string,
+  generate: (prompt: string) => Promise<string | undefined>,
+  validate: (text: string | undefined) => { values: T[]; issues: string[] },
+  reminder: string,
+): Promise<T[]> => {
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const result = validate(await generate(currentPrompt));
+    if (result.issues.length > 0) {
+      console.warn(`Response had validation issues (attempt ${attempt}):`, result.issues);
+    }
+    if (result.values.length > 0) return result.values;
+    issues = result.issues;
+    currentPrompt = `${prompt}\n\nYour previous response could not be used because: ${issues.join('; ')}. Respond again with valid JSON that follows the schema exactly. ${reminder}`;
+  }
+  throw new RecipeValidationError(issues);
+};
+
+const RECIPE_REMINDER = 'Difficulty must be one of Easy, Medium or Hard, calories must be a non-negative number, and every recipe needs ingredients and instructions.';
+
+export const generateValidatedRecipes = (prompt: string, generate: (prompt: string) => Promise<string | undefined>): Promise<Recipe[]> =>
+  generateValidated(prompt, generate, text => {
+    const { recipes, issues } = validateRecipesResponse(text);
+    return { values: recipes, issues };
+  }, RECIPE_REMINDER);
+
+export const generateValidatedMealPlan = (prompt: string, request: MealPlanRequest, generate: (prompt: string) => Promise<string | undefined>): Promise<PlannedMeal[]> =>
+  generateValidated(prompt, generate, text => {
+    const { meals, issues } = validateMealPlanResponse(text, request);
+    return { values: meals, issues };
+  }, `Every meal needs a day number, a slot of Breakfast, Lunch or Dinner, and a complete recipe. ${RECIPE_REMINDER}`);
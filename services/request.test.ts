@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { backoffDelay, classifyError, createConcurrencyLimiter, errorForStatus, withRetry } from './request';
+import {
+  AuthenticationError, NetworkError, QuotaExceededError, RateLimitError, ServiceUnavailableError, describeError,
+} from './errors';
+import { createTranslator } from './i18n';
+
+const withStatus = (status: number, message = 'request failed') => Object.assign(new Error(message), { status });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('classifyError', () => {
+  it('classifies errors by their HTTP status', () => {
+    expect(classifyError(withStatus(429))).toBeInstanceOf(RateLimitError);
+    expect(classifyError(withStatus(401))).toBeInstanceOf(AuthenticationError);
+    expect(classifyError(withStatus(503))).toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  it('tells a daily quota apart from a short-term rate limit', () => {
+    expect(classifyError(withStatus(429, 'Quota exceeded for quota metric: requests per day'))).toBeInstanceOf(QuotaExceededError);
+  });
+
+  it('reads the suggested wait from a rate limit', () => {
+    const error = classifyError(withStatus(429, '{"retryDelay": "31s"}'));
+    expect(error).toMatchObject({ retryAfterMs: 31000, message: expect.stringContaining('31000 ms') });
+  });
+
+  it('recognises network failures and invalid keys without a status', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.'))).toBeInstanceOf(AuthenticationError);
+  });
+
+  it('keeps the original error as the cause', () => {
+    const original = withStatus(500);
+    expect(classifyError(original)).toMatchObject({ cause: original });
+  });
+
+  it('leaves errors it cannot classify alone', () => {
+    const error = new Error('socket hang up');
+    expect(classifyError(error)).toBe(error);
+    expect(errorForStatus(404)).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  const settings = { baseDelayMs: 1000, maxDelayMs: 8000 };
+
+  it('waits a random time up to an exponentially growing, capped ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(1, new NetworkError(), settings)).toBe(500);
+    expect(backoffDelay(3, new NetworkError(), settings)).toBe(2000);
+    expect(backoffDelay(10, new NetworkError(), settings)).toBe(4000);
+  });
+
+  it("uses a rate limit's suggested wait", () => {
+    expect(backoffDelay(1, new RateLimitError(3000), settings)).toBe(3000);
+  });
+});
+
+describe('withRetry', () => {
+  const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+  it('retries transient failures until the request succeeds', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(withStatus(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce('ok');
+    await expect(withRetry(request, fast)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up with the classified error after the last attempt', async () => {
+    const request = vi.fn().mockRejectedValue(withStatus(500));
+    await expect(withRetry(request, { ...fast, maxAttempts: 3 })).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that retrying cannot fix', async () => {
+    const request = vi.fn().mockRejectedValue(withStatus(403));
+    await expect(withRetry(request, fast)).rejects.toBeInstanceOf(AuthenticationError);
+    const unknown = vi.fn().mockRejectedValue(new Error('bad request'));
+    await expect(withRetry(unknown, fast)).rejects.toThrow('bad request');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(unknown).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a rate limit straight away when it asks for a longer wait than the cap', async () => {
+    const request = vi.fn().mockRejectedValue(withStatus(429, '"retryDelay": "60s"'));
+    await expect(withRetry(request, fast)).rejects.toBeInstanceOf(RateLimitError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as it is aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(withStatus(503));
+    const result = withRetry(request, { signal: controller.signal, baseDelayMs: 60000, maxDelayMs: 60000 });
+    await vi.waitFor(() => expect(request).toHaveBeenCalledTimes(1));
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createConcurrencyLimiter', () => {
+  it('runs at most the limit at once and starts queued tasks in order', async () => {
+    const limit = createConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    const task = (id: number) => limit(async () => {
+      started.push(id);
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return id;
+    });
+    await expect(Promise.all([1, 2, 3, 4, 5].map(task))).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const limit = createConcurrencyLimiter(1);
+    await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('describeError', () => {
+  it("shows the app's own errors in the user's language", () => {
+    const t = createTranslator('de');
+    expect(describeError(new AuthenticationError(), t)).toContain('API-Schlüssel abgelehnt');
+    expect(describeError(new RateLimitError(31000), t)).toContain('etwa 31 Sekunden');
+  });
+
+  it('shows the fallback for any other error', () => {
+    expect(describeError(new Error('Failed to analyze image with Gemini API.'), createTranslator('es'), 'error.analysisFailed'))
+      .toBe('No se pudieron analizar las fotos. Inténtalo de nuevo.');
+  });
+});
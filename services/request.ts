@@ -0,0 +1,114 @@
+import {
+  AuthenticationError, NetworkError, QuotaExceededError, RateLimitError, ServiceError, ServiceUnavailableError,
+} from './errors';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Total number of tries, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'signal'>> = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 16000 };
+
+const NETWORK_FAILURE = /failed to fetch|fetch failed|networkerror|network request failed|load failed|econnreset|enotfound|etimedout/i;
+
+// Gemini puts the suggested wait in the error details, e.g. "retryDelay": "31s".
+const parseRetryDelay = (message: string) => {
+  const match = /"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/** The classified error for an HTTP status, or undefined for statuses that aren't service failures. */
+export const errorForStatus = (status: number, message = '', cause?: unknown): ServiceError | undefined => {
+  if (status === 429) {
+    return /per ?day|billing/i.test(message) ? new QuotaExceededError(cause) : new RateLimitError(parseRetryDelay(message), cause);
+  }
+  if (status === 401 || status === 403 || /api key not valid|api_key_invalid/i.test(message)) return new AuthenticationError(cause);
+  if (status === 408 || status >= 500) return new ServiceUnavailableError(cause);
+  return undefined;
+};
+
+/**
+ * Turns whatever a provider SDK or `fetch` threw into one of the `ServiceError` types. Errors that
+ * can't be classified are returned as they are.
+ */
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof ServiceError) return error;
+  if (!(error instanceof Error)) return error;
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') return errorForStatus(status, error.message, error) ?? error;
+  if (/api key not valid|api_key_invalid/i.test(error.message)) return new AuthenticationError(error);
+  if (/resource_exhausted/i.test(error.message)) return errorForStatus(429, error.message, error)!;
+  if (NETWORK_FAILURE.test(error.message)) return new NetworkError(error);
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Exponential backoff with full jitter: a random wait of up to base × 2^(attempt - 1), capped, so
+ * that clients that failed together don't all retry together. A rate limit's own suggested wait
+ * takes precedence.
+ */
+export const backoffDelay = (attempt: number, error: unknown, { baseDelayMs, maxDelayMs }: Pick<Required<RetryOptions>, 'baseDelayMs' | 'maxDelayMs'>) => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+};
+
+/**
+ * Runs a request, retrying transient failures (rate limits, server errors, network drops) with
+ * backoff. Rejects with the classified error once the attempts are used up, or with the signal's
+ * reason as soon as it is aborted.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, ...settings } = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      const classified = classifyError(error);
+      if (!(classified instanceof ServiceError) || !classified.retryable || attempt >= settings.maxAttempts) throw classified;
+      const delay = backoffDelay(attempt, classified, settings);
+      // A rate limit that asks for a long wait is reported instead, so the user can decide when to try again.
+      if (delay > settings.maxDelayMs) throw classified;
+      console.warn(`Request failed (attempt ${attempt}), retrying in ${Math.round(delay)} ms:`, classified.message);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/** Limits how many tasks run at once; the rest wait in order for a free slot. */
+export const createConcurrencyLimiter = (limit: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => queue.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiting task, so nothing can jump the queue in between.
+      const resume = queue.shift();
+      if (resume) resume();
+      else active--;
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { IngredientCategory } from '../types';
+import { addRecipeToShoppingList, categorizeIngredient, clearChecked, groupByCategory, shoppingListToMarkdown, shoppingListToText, toggleChecked } from './shoppingList';
+import { createTranslator } from './i18n';
+
+describe('categorizeIngredient', () => {
+  it.each([
+    ['Soy Sauce', IngredientCategory.Condiments],
+    ['peanut butter', IngredientCategory.Pantry],
+    ['black pepper', IngredientCategory.Pantry],
+    ['red bell pepper', IngredientCategory.Produce],
+    ['eggs', IngredientCategory.Dairy],
+    ['eggplant', IngredientCategory.Produce],
+    ['frozen peas', IngredientCategory.Frozen],
+    ['salmon fillet', IngredientCategory.Seafood],
+    ['za\'atar', IngredientCategory.Other],
+  ])('puts "%s" in %s', (name, category) => {
+    expect(categorizeIngredient(name)).toBe(category);
+  });
+});
+
+describe('addRecipeToShoppingList', () => {
+  it('combines the same ingredient across recipes', () => {
+    let list = addRecipeToShoppingList([], 'Pancakes', [{ name: 'Flour', quantity: '2 cups' }, { name: 'milk', quantity: '1 cup' }]);
+    list = addRecipeToShoppingList(list, 'Bread', [{ name: 'flour ', quantity: '3 cups' }]);
+    expect(list).toHaveLength(2);
+    expect(list[0]).toMatchObject({ name: 'flour', quantities: ['2 cups', '3 cups'], recipes: ['Pancakes', 'Bread'], category: IngredientCategory.Pantry });
+  });
+
+  it('ignores a recipe that was already added', () => {
+    const once = addRecipeToShoppingList([], 'Pancakes', [{ name: 'flour', quantity: '2 cups' }]);
+    const twice = addRecipeToShoppingList(once, 'Pancakes', [{ name: 'flour', quantity: '2 cups' }]);
+    expect(twice[0].quantities).toEqual(['2 cups']);
+  });
+});
+
+describe('checking items off', () => {
+  it('toggles and clears checked items', () => {
+    const list = addRecipeToShoppingList([], 'Pancakes', [{ name: 'flour', quantity: '2 cups' }, { name: 'milk', quantity: '1 cup' }]);
+    const toggled = toggleChecked(list, list[0].id);
+    expect(toggled[0].checked).toBe(true);
+    expect(clearChecked(toggled).map(item => item.name)).toEqual(['milk']);
+  });
+});
+
+describe('export', () => {
+  it('groups items by aisle in Markdown', () => {
+    let list = addRecipeToShoppingList([], 'Pancakes', [{ name: 'flour', quantity: '2 cups' }, { name: 'milk', quantity: '1 cup' }]);
+    list = addRecipeToShoppingList(list, 'Bread', [{ name: 'flour', quantity: '1 cup' }]);
+    expect(groupByCategory(list).map(([category]) => category)).toEqual([IngredientCategory.Dairy, IngredientCategory.Pantry]);
+    expect(shoppingListToMarkdown(list)).toBe([
+      '# Shopping List',
+      '## Dairy\n- [ ] milk (1 cup) _(for Pancakes)_',
+      '## Pantry\n- [ ] flour (3 cups) _(for Pancakes, Bread)_',
+    ].join('\n\n'));
+  });
+
+  it('exports in the given language', () => {
+    const list = addRecipeToShoppingList([], 'Pancakes', [{ name: 'milk', quantity: '1 cup' }]);
+    const t = createTranslator('es');
+    expect(shoppingListToMarkdown(list, t)).toBe('# Lista de la compra\n\n## Lácteos\n- [ ] milk (1 cup) _(para Pancakes)_');
+    expect(shoppingListToText(list, t)).toBe('LÁCTEOS\n[ ] milk (1 cup)');
+  });
+});
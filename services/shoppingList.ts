@@ -0,0 +1,88 @@
+import { IngredientCategory, RecipeIngredient, ShoppingListItem } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { normalizeItemName, itemKey } from './pantryService';
+import { combineQuantities } from './quantity';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+
+const SHOPPING_LIST_STORAGE_KEY = 'smart-fridge.shopping-list';
+
+// Checked in order, so more specific aisles (e.g. "soy sauce", "peanut butter") win over generic ones.
+const CATEGORY_KEYWORDS: [IngredientCategory, string[]][] = [
+  [IngredientCategory.Frozen, ['frozen', 'ice cream']],
+  [IngredientCategory.Condiments, ['sauce', 'ketchup', 'mustard', 'mayonnaise', 'mayo', 'vinegar', 'dressing', 'salsa', 'honey', 'jam', 'syrup', 'pesto']],
+  [IngredientCategory.Pantry, ['flour', 'sugar', 'rice', 'pasta', 'spaghetti', 'noodle', 'oil', 'salt', 'black pepper', 'pepper flakes', 'spice', 'cumin', 'paprika', 'cinnamon', 'oregano', 'stock', 'broth', 'chickpea', 'lentil', 'oats', 'baking powder', 'baking soda', 'yeast', 'peanut butter', 'coconut milk', 'canned', 'quinoa', 'couscous', 'breadcrumb', 'nut', 'almond', 'walnut']],
+  [IngredientCategory.Seafood, ['fish', 'salmon', 'tuna', 'shrimp', 'prawn', 'cod', 'crab', 'mussel', 'clam', 'scallop', 'anchovy', 'anchovies']],
+  [IngredientCategory.Meat, ['chicken', 'beef', 'pork', 'bacon', 'sausage', 'lamb', 'turkey', 'ham', 'steak', 'mince', 'chorizo']],
+  [IngredientCategory.Dairy, ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'egg', 'parmesan', 'mozzarella', 'feta', 'ricotta', 'cheddar']],
+  [IngredientCategory.Bakery, ['bread', 'bun', 'roll', 'tortilla', 'pita', 'baguette', 'croissant', 'bagel']],
+  [IngredientCategory.Beverages, ['juice', 'wine', 'beer', 'coffee', 'tea', 'soda', 'water']],
+  [IngredientCategory.Produce, ['tomato', 'onion', 'garlic', 'lettuce', 'spinach', 'pepper', 'carrot', 'potato', 'lemon', 'lime', 'apple', 'banana', 'basil', 'cilantro', 'parsley', 'dill', 'mint', 'thyme', 'rosemary', 'ginger', 'mushroom', 'zucchini', 'cucumber', 'avocado', 'celery', 'broccoli', 'cabbage', 'kale', 'scallion', 'shallot', 'leek', 'berries', 'beans', 'peas', 'corn', 'eggplant', 'squash', 'chili', 'chile']],
+];
+
+const matchesKeyword = (name: string, keyword: string) => new RegExp(`\\b${keyword}(?:s|es)?\\b`).test(name);
+
+export const categorizeIngredient = (name: string): IngredientCategory => {
+  const normalized = normalizeItemName(name);
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => matchesKeyword(normalized, keyword)));
+  return match ? match[0] : IngredientCategory.Other;
+};
+
+export const loadShoppingList = (): ShoppingListItem[] => loadJSON<ShoppingListItem[]>(SHOPPING_LIST_STORAGE_KEY, []);
+
+export const saveShoppingList = (items: ShoppingListItem[]) => saveJSON(SHOPPING_LIST_STORAGE_KEY, items);
+
+/** Adds a recipe's ingredients to the list, combining them with items already on it. Adding the same recipe twice is a no-op. */
+export const addRecipeToShoppingList = (list: ShoppingListItem[], recipeName: string, ingredients: RecipeIngredient[]): ShoppingListItem[] => {
+  const updated = [...list];
+  for (const ingredient of ingredients) {
+    const name = normalizeItemName(ingredient.name);
+    const index = updated.findIndex(item => itemKey(item.name) === itemKey(name));
+    if (index === -1) {
+      updated.push({
+        id: crypto.randomUUID(),
+        name,
+        quantities: [ingredient.quantity],
+        category: categorizeIngredient(name),
+        recipes: [recipeName],
+        checked: false,
+      });
+    } else if (!updated[index].recipes.includes(recipeName)) {
+      const existing = updated[index];
+      updated[index] = {
+        ...existing,
+        quantities: [...existing.quantities, ingredient.quantity],
+        recipes: [...existing.recipes, recipeName],
+        checked: false,
+      };
+    }
+  }
+  return updated;
+};
+
+export const toggleChecked = (list: ShoppingListItem[], id: string): ShoppingListItem[] =>
+  list.map(item => (item.id === id ? { ...item, checked: !item.checked } : item));
+
+export const removeItem = (list: ShoppingListItem[], id: string): ShoppingListItem[] => list.filter(item => item.id !== id);
+
+export const clearChecked = (list: ShoppingListItem[]): ShoppingListItem[] => list.filter(item => !item.checked);
+
+/** Groups items by aisle, in store-walk order. */
+export const groupByCategory = (list: ShoppingListItem[]): [IngredientCategory, ShoppingListItem[]][] =>
+  Object.values(IngredientCategory)
+    .map((category): [IngredientCategory, ShoppingListItem[]] => [category, list.filter(item => item.category === category)])
+    .filter(([, items]) => items.length > 0);
+
+const describeItem = (item: ShoppingListItem) => {
+  const quantities = combineQuantities(item.quantities).join(' + ');
+  return quantities ? `${item.name} (${quantities})` : item.name;
+};
+
+export const shoppingListToText = (list: ShoppingListItem[], t: Translate = createTranslator(DEFAULT_LOCALE)) =>
+  groupByCategory(list)
+    .map(([category, items]) => [t(`category.${category}`).toUpperCase(), ...items.map(item => `${item.checked ? '[x]' : '[ ]'} ${describeItem(item)}`)].join('\n'))
+    .join('\n\n');
+
+export const shoppingListToMarkdown = (list: ShoppingListItem[], t: Translate = createTranslator(DEFAULT_LOCALE)) =>
+  [`# ${t('shopping.title')}`, ...groupByCategory(list).map(([category, items]) =>
+    [`## ${t(`category.${category}`)}`, ...items.map(item => `- [${item.checked ? 'x' : ' '}] ${describeItem(item)} _(${t('shopping.forRecipes', { recipes: item.recipes.join(', ') })})_`)].join('\n')
+  )].join('\n\n');
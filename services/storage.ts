@@ -0,0 +1,20 @@
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Error reading "${key}" from local storage:`, error);
+    return fallback;
+  }
+};
+
+/** Returns false when the value couldn't be written, usually because local storage is full. */
+export const saveJSON = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Error writing "${key}" to local storage:`, error);
+    return false;
+  }
+};
@@ -0,0 +1,13 @@
+import { Recipe } from '../types';
+
+/** A plain recipe for tests, with only what a test cares about overridden. */
+export const makeRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  name: 'Omelette',
+  difficulty: 'Easy',
+  prepTime: '20 minutes',
+  prepTimeMinutes: 20,
+  calories: 400,
+  ingredients: [{ name: 'eggs', quantity: '2' }],
+  instructions: ['Cook.'],
+  ...overrides,
+});
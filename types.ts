@@ -9,17 +9,211 @@ export enum DietaryRestriction {
   Pescatarian = 'Pescatarian',
 }
 
+export enum Allergen {
+  Peanuts = 'Peanuts',
+  TreeNuts = 'Tree nuts',
+  Dairy = 'Dairy',
+  Eggs = 'Eggs',
+  Gluten = 'Gluten',
+  Soy = 'Soy',
+  Fish = 'Fish',
+  Shellfish = 'Shellfish',
+  Sesame = 'Sesame',
+}
+
+export enum Equipment {
+  Stovetop = 'Stovetop',
+  Oven = 'Oven',
+  Microwave = 'Microwave',
+  Grill = 'Grill',
+  SlowCooker = 'Slow cooker',
+  AirFryer = 'Air fryer',
+  Blender = 'Blender',
+}
+
+/** Limits on the recipes to suggest, set in the sidebar next to the dietary filters. */
+export interface RecipeConstraints {
+  /** Free-form, e.g. "Italian". Empty for any cuisine. */
+  cuisine: string;
+  /** Total time including cooking. */
+  maxPrepMinutes?: number;
+  /** The hardest difficulty to suggest. */
+  maxDifficulty?: Difficulty;
+  /** The equipment the user has; recipes may only need these. */
+  equipment: Equipment[];
+  /** Everything cooks in a single pan or pot. */
+  onePan: boolean;
+  recipeCount: number;
+}
+
+/** Things one household member can't or won't eat. */
+export interface ExclusionProfile {
+  id: string;
+  name: string;
+  allergens: Allergen[];
+  /** Free-form ingredient names to avoid, e.g. "cilantro". */
+  avoidIngredients: string[];
+  /** Strict profiles reject recipes that break them; others only warn. */
+  strict: boolean;
+  enabled: boolean;
+}
+
 export interface RecipeIngredient {
   name: string;
   quantity: string;
+  /** The common English name of an ingredient in a recipe written in another language, used to match it against the pantry. */
+  englishName?: string;
+}
+
+/** The language the app is shown in and recipes are written in. */
+export type Locale = 'en' | 'es' | 'de';
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+/** Nutrition facts per serving. Sodium is in milligrams, everything else in grams. */
+export interface Nutrition {
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
 }
 
 export interface Recipe {
   name: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
+  difficulty: Difficulty;
   prepTime: string;
+  /** `prepTime` parsed into minutes, when it could be understood. */
+  prepTimeMinutes?: number;
+  /** The cuisine the dish belongs to, such as "Italian" or "Thai". */
+  cuisine?: string;
+  /** How many people the ingredient quantities feed. */
+  servings?: number;
+  /** Calories per serving. */
   calories: number;
+  nutrition?: Nutrition;
   ingredients: RecipeIngredient[];
   instructions: string[];
   imageUrl?: string;
-}
\ No newline at end of file
+}
+
+/** One turn of an "Ask the chef" conversation about a recipe. */
+export interface ChefMessage {
+  role: 'user' | 'chef';
+  text: string;
+  /** A modified version of the recipe that the chef proposed in this reply. */
+  recipe?: Recipe;
+}
+
+export enum IngredientCategory {
+  Produce = 'Produce',
+  Dairy = 'Dairy',
+  Meat = 'Meat',
+  Seafood = 'Seafood',
+  Bakery = 'Bakery',
+  Frozen = 'Frozen',
+  Pantry = 'Pantry',
+  Condiments = 'Condiments',
+  Beverages = 'Beverages',
+  Other = 'Other',
+}
+
+export interface InventoryItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  category: IngredientCategory;
+  /** Detection confidence between 0 and 1. */
+  confidence: number;
+  /** Estimated days until the item spoils. Unknown for manually added items. */
+  shelfLifeDays?: number;
+  /** Labels of the uploaded photos the item was detected in. */
+  sourceImages?: string[];
+}
+
+export enum StorageLocation {
+  Fridge = 'Fridge',
+  Freezer = 'Freezer',
+  Cupboard = 'Cupboard',
+}
+
+export interface PantryItem extends InventoryItem {
+  id: string;
+  location: StorageLocation;
+  /** ISO timestamp of when the item was first scanned or added. */
+  addedAt: string;
+  /** ISO timestamp of when the item was marked as used up. */
+  usedUpAt?: string;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  /** Every quantity requested for this ingredient, combined for display with `combineQuantities`. */
+  quantities: string[];
+  category: IngredientCategory;
+  /** Names of the recipes the item was added for. */
+  recipes: string[];
+  checked: boolean;
+}
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  /** ISO timestamp of when the recipe was saved. */
+  savedAt: string;
+  favorite: boolean;
+  /** 1–5 stars, unset until the user rates it. */
+  rating?: number;
+  notes: string;
+  tags: string[];
+  /** Set when the recipe's photo is kept in IndexedDB, since it is too big for local storage. */
+  photoId?: string;
+}
+
+/** A dish the user logged with "Cooked it". */
+export interface CookedRecipe {
+  id: string;
+  recipe: Recipe;
+  /** The day it was cooked, as YYYY-MM-DD. */
+  cookedOn: string;
+  /** 1–5 stars, unset when the user didn't rate it. */
+  rating?: number;
+}
+
+/** What the cooking history says about the user's taste, used to steer new suggestions. */
+export interface CookingPreferences {
+  /** Lowercase cuisine names, best liked first. */
+  favoriteCuisines: string[];
+  /** Ingredients that keep turning up in dishes the user rated poorly. */
+  dislikedIngredients: string[];
+  /** The prep time, in minutes, that most cooked dishes fit within. */
+  prepTimeBudget?: number;
+  /** Names of the dishes cooked lately, most recent first. */
+  recentDishes: string[];
+}
+
+export type MealSlot = 'Breakfast' | 'Lunch' | 'Dinner';
+
+export interface PlannedMeal {
+  /** 0 for the plan's first day. */
+  day: number;
+  slot: MealSlot;
+  recipe: Recipe;
+  /** Locked meals are kept when the rest of the plan is regenerated. */
+  locked: boolean;
+}
+
+export interface MealPlan {
+  /** First day of the plan as a local `YYYY-MM-DD` date. */
+  startDate: string;
+  meals: PlannedMeal[];
+}
+
+/** Asks a provider to fill `slots` while keeping the meals already in `keep`. */
+export interface MealPlanRequest {
+  startDate: string;
+  slots: Pick<PlannedMeal, 'day' | 'slot'>[];
+  keep: PlannedMeal[];
+}
@@ -11,8 +11,13 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.RECIPE_PROVIDER': JSON.stringify(env.RECIPE_PROVIDER ?? ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY ?? ''),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL ?? ''),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL ?? '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,19 @@
+import { vi } from 'vitest';
+
+// jsdom does not implement the Web Speech API, which RecipeModal touches even when closed.
+vi.stubGlobal('speechSynthesis', {
+  speaking: false,
+  paused: false,
+  speak: vi.fn(),
+  cancel: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+  getVoices: vi.fn(() => []),
+});
+vi.stubGlobal('SpeechSynthesisUtterance', class {
+  text: string;
+  onend: (() => void) | null = null;
+  constructor(text: string) {
+    this.text = text;
+  }
+});